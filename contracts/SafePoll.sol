@@ -1,23 +1,28 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import {FHE, euint32, externalEuint32, ebool} from "@fhevm/solidity/lib/FHE.sol";
+import {FHE, euint32, euint64, externalEuint32} from "@fhevm/solidity/lib/FHE.sol";
 import {SepoliaConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {ECDSA} from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import {EIP712} from "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import {MerkleProof} from "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+import {Nonces} from "@openzeppelin/contracts/utils/Nonces.sol";
+import {IERC5805} from "@openzeppelin/contracts/interfaces/IERC5805.sol";
+import {MAX_NOISE_STEPS, Question, QuestionConfig, QuestionKind, Tally, SurveyTally} from "./SurveyTally.sol";
 
 /// @title SafePoll - Encrypted survey with Zama FHEVM
-/// @notice Users can create surveys, submit encrypted votes, and the creator can end and decrypt results.
-contract SafePoll is SepoliaConfig {
+/// @notice Users can create surveys, submit encrypted votes, and the survey's owner and admins can end and decrypt
+///         results.
+contract SafePoll is SepoliaConfig, EIP712, Nonces {
     // ============ Types ============
-    struct Question {
-        string text;
-        string[] options;
-        mapping(uint256 => euint32) optionCounts; // encrypted counters per option
-    }
+    // Question, QuestionConfig, QuestionKind and Tally live in SurveyTally.sol, next to the question setup and the
+    // FHE work on a question's counters
 
     struct Survey {
         uint256 id;
         string title;
         string description;
+        // the owner: edits, cancels and manages roles; changes hands by transferOwnership/acceptOwnership
         address creator;
         bool isActive;
         bool resultsDecrypted;
@@ -26,18 +31,122 @@ contract SafePoll is SepoliaConfig {
         mapping(address => bool) hasVoted;
         uint256 totalVotes;
         uint256 createdAt;
+        uint256 startTime; // 0 = open on creation
+        uint256 endTime; // 0 = open until ended by the creator
+        Eligibility eligibility;
+        bytes32 merkleRoot; // Eligibility.Merkle only
+        mapping(address => bool) allowlisted; // Eligibility.Allowlist only
+        Weighting weighting;
+        bool revotable; // voters may replace their ballot while the survey is open
+        // voter => question => answer (decryptable by the voter)
+        mapping(address => mapping(uint256 => euint32)) ballots;
+        address[] reviewers; // viewers: besides the owner, may user-decrypt the final tallies before any public reveal
+        address[] admins; // may end the survey and request its decryption, like the owner
+        address pendingOwner; // proposed by the owner, becomes the owner once it accepts
+        bool finalized; // the final tallies are granted to the owner and viewers (see _finalizeResults)
+        uint256 minTurnout; // results stay encrypted unless at least this many addresses voted
+        uint32 kAnonymity; // counters below k (and partners) are replaced by SUPPRESSED when the survey ends
+        uint32 epsilonMilli; // differential-privacy budget per ballot in thousandths, 0 = exact counts
+        uint256 noisedCounters; // counts noised so far by addNoise, in question order (options, then invalid)
+        uint256 pendingRequestId; // oracle request awaiting its callback (valid while requestedAt != 0)
+        uint256 requestedAt; // when it was made, 0 = none pending
+        bool cancelled; // called off by the creator: closed, and its results can never be decrypted
+        bool archived; // hidden from listings by the creator, still readable by id
+    }
+
+    /// @notice How much a ballot counts for: 1 per address, or the voter's token votes at a snapshot
+    struct Weighting {
+        address token; // IERC5805 votes token, zero = one vote per address
+        uint48 snapshot; // token clock at creation that voting power is read at
+        uint256 unit; // token units per unit of weight
+        uint256 totalWeight; // sum of the weights of every ballot (= totalVotes when unweighted)
+    }
+
+    /// @notice Who may vote on a survey
+    enum Eligibility {
+        Open, // any address
+        Allowlist, // addresses stored on-chain at creation
+        Merkle // addresses proving membership in a Merkle tree (OpenZeppelin StandardMerkleTree leaves)
+    }
+
+    /// @notice Optional creation-time settings of a survey
+    struct SurveySettings {
+        uint256 startTime; // unix seconds, 0 = open immediately
+        uint256 endTime; // unix seconds, 0 = no deadline
+        Eligibility eligibility;
+        bytes32 merkleRoot; // required for Eligibility.Merkle
+        address[] allowlist; // required for Eligibility.Allowlist
+        QuestionConfig[] questionConfigs; // one per question, or empty for all Single
+        address weightToken; // IERC5805 token (ERC20Votes/ERC721Votes) to weight ballots by, zero = unweighted
+        uint256 weightUnit; // token units per unit of weight, e.g. 1e18; required with weightToken
+        bool revotable; // voters may replace their answers while the survey is open
+        address[] reviewers; // up to MAX_REVIEWERS addresses allowed to preview the results privately
+        uint256 minTurnout; // votes required before results can be decrypted, 0 = none
+        uint32 kAnonymity; // smallest count that is revealed, 0 or 1 = every count
+        uint32 epsilonMilli; // budget per ballot of the discrete Laplace noise (in thousandths, 1000 = 1.0), 0 = none
+    }
+
+    /// @notice Survey-level roles besides the owner
+    enum Role {
+        Admin, // ends the survey and requests its decryption
+        Viewer // privately decrypts the final tallies (the reviewers named at creation)
+    }
+
+    /// @notice A ballot relayed through submitVotesBySig; the voter signs every field but merkleProof and signature
+    struct SignedBallot {
+        uint256 surveyId;
+        address voter;
+        bytes32[] handles; // externalEuint32 per question, encrypted for the submitting relayer
+        bytes inputProof;
+        bytes32[] merkleProof; // proof that the voter is a leaf of the survey's Merkle root, empty for other surveys
+        uint256 deadline; // unix time after which the signature is no longer accepted
+        bytes signature;
+    }
+
+    enum SurveyStatus {
+        Upcoming,
+        Open,
+        Closed,
+        Cancelled
     }
 
     struct DecryptedResults {
         uint256 surveyId;
         uint256 questionIndex;
         uint256[] optionCounts; // clear counts after onchain public decryption
+        uint256 invalidCount;
+        uint256 sum; // Numeric only
+        uint256 sumSquares; // Numeric only
     }
 
+    // ============ Constants ============
+    /// @dev A Ranked ballot is compared against every ranking (n!), which bounds the FHE work per ballot
+    uint256 public constant MAX_RANKED_OPTIONS = SurveyTally.MAX_RANKED_OPTIONS;
+    /// @dev Ending a survey grants every reviewer access to every counter, so their number is bounded
+    uint256 public constant MAX_REVIEWERS = 10;
+    uint256 public constant MAX_ADMINS = 10;
+    /// @notice Revealed in place of a count below the survey's k-anonymity floor, and of the counts hidden with
+    ///         them (shown as "hidden")
+    uint32 public constant SUPPRESSED = SurveyTally.SUPPRESSED;
+    /// @dev Noise costs one encrypted comparison per step of its tail, so the noise of each count has a floor
+    ///      (epsilon 0.5); the budget per ballot must cover it for every count a ballot moves
+    uint32 public constant MIN_EPSILON_MILLI = 500;
+    /// @dev HCU (FHE compute units) of noising one count: a fixed part plus a comparison and a select per tail step;
+    ///      each addNoise call spends about half of the 20M per-transaction limit, leaving room to finalize
+    uint256 private constant NOISE_BASE_HCU = 600_000;
+    uint256 private constant NOISE_STEP_HCU = 113_000;
+    uint256 private constant NOISE_HCU_BUDGET = 10_000_000;
+    /// @notice A decryption request the oracle has not answered after this long can be made again
+    uint256 public constant DECRYPTION_TIMEOUT = 1 days;
+    /// @notice EIP-712 type of a ballot signed for submitVotesBySig; arrays and bytes are signed as their keccak256
+    bytes32 public constant BALLOT_TYPEHASH =
+        keccak256("Ballot(uint256 surveyId,bytes32[] handles,bytes inputProof,uint256 nonce,uint256 deadline)");
+
     // ============ Storage ============
     uint256 private _surveyCounter;
-    mapping(uint256 => Survey) public surveys;
-    mapping(uint256 => DecryptedResults[]) public decryptedResults; // surveyId => list per question
+    mapping(uint256 => Survey) internal surveys; // read through the getters below (too many fields for a public getter)
+    // surveyId => list per question, see getDecryptedResults
+    mapping(uint256 => DecryptedResults[]) internal decryptedResults;
 
     // requestID => metadata to rebuild the clear array per question
     struct RequestMeta {
@@ -51,11 +160,29 @@ contract SafePoll is SepoliaConfig {
     event SurveyCreated(uint256 indexed surveyId, address indexed creator, string title);
     event SurveyEnded(uint256 indexed surveyId);
     event VoteSubmitted(uint256 indexed surveyId, address indexed voter);
+    event VoteUpdated(uint256 indexed surveyId, address indexed voter);
     event ResultsDecrypted(uint256 indexed surveyId);
+    event DecryptionRequested(uint256 indexed surveyId, uint256 requestId);
+    event SurveyEdited(uint256 indexed surveyId);
+    event SurveyCancelled(uint256 indexed surveyId);
+    event SurveyArchived(uint256 indexed surveyId, bool archived);
+    event NoiseAdded(uint256 indexed surveyId, uint256 noised, uint256 total);
+    event RoleGranted(uint256 indexed surveyId, Role role, address indexed account);
+    event RoleRevoked(uint256 indexed surveyId, Role role, address indexed account);
+    event OwnershipTransferStarted(uint256 indexed surveyId, address indexed previousOwner, address indexed newOwner);
+    event OwnershipTransferred(uint256 indexed surveyId, address indexed previousOwner, address indexed newOwner);
+
+    constructor() EIP712("SafePoll", "1") {}
 
     // ============ Modifiers ============
+    // the checks live in functions so the modifiers do not inline them into every caller (contract size)
     modifier onlyCreator(uint256 surveyId) {
-        require(msg.sender == surveys[surveyId].creator, "Not creator");
+        _checkCreator(surveyId);
+        _;
+    }
+
+    modifier onlyAdmin(uint256 surveyId) {
+        _checkAdmin(surveyId);
         _;
     }
 
@@ -64,10 +191,22 @@ contract SafePoll is SepoliaConfig {
         string calldata title,
         string calldata description,
         string[] calldata questionTexts,
-        string[][] calldata questionOptions
+        string[][] calldata questionOptions,
+        SurveySettings calldata settings
     ) external returns (uint256) {
-        require(questionTexts.length == questionOptions.length, "Length mismatch");
-        require(questionTexts.length > 0, "No questions");
+        require(
+            settings.endTime == 0 || (settings.endTime > settings.startTime && settings.endTime > block.timestamp),
+            "Bad schedule"
+        );
+        if (settings.eligibility == Eligibility.Allowlist) {
+            require(settings.allowlist.length > 0, "Empty allowlist");
+        } else if (settings.eligibility == Eligibility.Merkle) {
+            require(settings.merkleRoot != bytes32(0), "No merkle root");
+        }
+        require(settings.weightToken == address(0) || settings.weightUnit > 0, "Bad weight unit");
+        require(settings.reviewers.length <= MAX_REVIEWERS, "Too many reviewers");
+        // the noise is calibrated to a ballot moving each count by at most 1 (its floor is checked with the questions)
+        require(settings.epsilonMilli == 0 || settings.weightToken == address(0), "Noise needs unweighted");
 
         uint256 id = ++_surveyCounter;
         Survey storage s = surveys[id];
@@ -77,25 +216,120 @@ contract SafePoll is SepoliaConfig {
         s.creator = msg.sender;
         s.isActive = true;
         s.resultsDecrypted = false;
-        s.questionCount = questionTexts.length;
         s.createdAt = block.timestamp;
-
-        for (uint256 qi = 0; qi < questionTexts.length; qi++) {
-            Question storage q = s.questions[qi];
-            q.text = questionTexts[qi];
-            // copy options safely (avoid nested dynamic array direct assignment)
-            uint256 opts = questionOptions[qi].length;
-            require(opts > 0, "No options");
-            for (uint256 oi = 0; oi < opts; oi++) {
-                q.options.push(questionOptions[qi][oi]);
-            }
-            // counts are zero-initialized encrypted values (uninitialized -> treat as 0 in FHE ops)
+        s.startTime = settings.startTime;
+        s.endTime = settings.endTime;
+        s.eligibility = settings.eligibility;
+        s.merkleRoot = settings.merkleRoot;
+        s.revotable = settings.revotable;
+        s.reviewers = settings.reviewers;
+        s.minTurnout = settings.minTurnout;
+        s.kAnonymity = settings.kAnonymity;
+        s.epsilonMilli = settings.epsilonMilli;
+        for (uint256 i = 0; i < settings.allowlist.length; i++) {
+            s.allowlisted[settings.allowlist[i]] = true;
+        }
+        if (settings.weightToken != address(0)) {
+            // snapshot the last settled timepoint, so voting power (including delegations) is fixed at creation
+            s.weighting.token = settings.weightToken;
+            s.weighting.snapshot = IERC5805(settings.weightToken).clock() - 1;
+            s.weighting.unit = settings.weightUnit;
         }
 
+        _setQuestions(s, questionTexts, questionOptions, settings.questionConfigs);
+
         emit SurveyCreated(id, msg.sender, title);
         return id;
     }
 
+    // ============ Edit, Cancel & Archive ============
+    /// @notice Until the first vote the creator can rewrite the title, description and questions (with their
+    ///         options and configs); the other settings are fixed at creation
+    function editSurvey(
+        uint256 surveyId,
+        string calldata title,
+        string calldata description,
+        string[] calldata questionTexts,
+        string[][] calldata questionOptions,
+        QuestionConfig[] calldata questionConfigs
+    ) external onlyCreator(surveyId) {
+        Survey storage s = surveys[surveyId];
+        require(s.isActive, "Already ended");
+        require(s.totalVotes == 0, "Has votes");
+        // no ballot touched the counters yet, so the old questions leave no encrypted state behind
+        for (uint256 qi = 0; qi < s.questionCount; qi++) {
+            delete s.questions[qi];
+        }
+        s.title = title;
+        s.description = description;
+        _setQuestions(s, questionTexts, questionOptions, questionConfigs);
+        emit SurveyEdited(surveyId);
+    }
+
+    /// @notice The creator can call off a survey before its first vote: it closes and its results are never decrypted.
+    /// Once someone voted the survey runs to its end, so a creator cannot bury results they dislike
+    function cancelSurvey(uint256 surveyId) external onlyCreator(surveyId) {
+        Survey storage s = surveys[surveyId];
+        require(s.isActive, "Already ended");
+        require(s.totalVotes == 0, "Has votes");
+        s.isActive = false;
+        s.cancelled = true;
+        emit SurveyCancelled(surveyId);
+    }
+
+    /// @notice Hides a survey from listings (or shows it again); it stays readable by id
+    function setArchived(uint256 surveyId, bool archived) external onlyCreator(surveyId) {
+        surveys[surveyId].archived = archived;
+        emit SurveyArchived(surveyId, archived);
+    }
+
+    // ============ Roles & Ownership ============
+    /// @notice The owner names admins and viewers; a viewer added after the survey ended is granted the final
+    ///         tallies right away
+    function grantRole(uint256 surveyId, Role role, address account) external onlyCreator(surveyId) {
+        Survey storage s = surveys[surveyId];
+        address[] storage members = _members(s, role);
+        require(account != address(0), "Zero address");
+        require(_indexOf(members, account) == type(uint256).max, "Has role");
+        require(members.length < (role == Role.Admin ? MAX_ADMINS : MAX_REVIEWERS), "Too many members");
+        members.push(account);
+        if (role == Role.Viewer && s.finalized) {
+            _grantTallies(s, account);
+        }
+        emit RoleGranted(surveyId, role, account);
+    }
+
+    /// @notice Removes an admin or viewer; a viewer's access to the final tallies cannot be taken back once granted
+    function revokeRole(uint256 surveyId, Role role, address account) external onlyCreator(surveyId) {
+        Survey storage s = surveys[surveyId];
+        address[] storage members = _members(s, role);
+        uint256 i = _indexOf(members, account);
+        require(i != type(uint256).max, "No role");
+        require(role == Role.Admin || !s.finalized, "Already granted");
+        members[i] = members[members.length - 1];
+        members.pop();
+        emit RoleRevoked(surveyId, role, account);
+    }
+
+    /// @notice First step of an ownership transfer: `newOwner` becomes the owner once it accepts (zero cancels)
+    function transferOwnership(uint256 surveyId, address newOwner) external onlyCreator(surveyId) {
+        surveys[surveyId].pendingOwner = newOwner;
+        emit OwnershipTransferStarted(surveyId, msg.sender, newOwner);
+    }
+
+    /// @notice Second step: the proposed owner takes over, including private access to the final tallies
+    function acceptOwnership(uint256 surveyId) external {
+        Survey storage s = surveys[surveyId];
+        require(msg.sender == s.pendingOwner, "Not pending owner");
+        address previousOwner = s.creator;
+        s.creator = msg.sender;
+        delete s.pendingOwner;
+        if (s.finalized) {
+            _grantTallies(s, msg.sender);
+        }
+        emit OwnershipTransferred(surveyId, previousOwner, msg.sender);
+    }
+
     // ============ Read ============
     function getTotalSurveys() external view returns (uint256) {
         return _surveyCounter;
@@ -128,6 +362,35 @@ contract SafePoll is SepoliaConfig {
         );
     }
 
+    /// @notice Opening/closing timestamps and the status derived from the current block time
+    function getSurveySchedule(
+        uint256 surveyId
+    ) external view returns (uint256 startTime, uint256 endTime, SurveyStatus status) {
+        Survey storage s = surveys[surveyId];
+        return (s.startTime, s.endTime, _status(s));
+    }
+
+    function getEligibility(uint256 surveyId) external view returns (Eligibility eligibility, bytes32 merkleRoot) {
+        Survey storage s = surveys[surveyId];
+        return (s.eligibility, s.merkleRoot);
+    }
+
+    /// @notice Whether `voter` may vote on a survey; `proof` is only read in Merkle mode
+    function isEligible(uint256 surveyId, address voter, bytes32[] calldata proof) external view returns (bool) {
+        return _isEligible(surveys[surveyId], voter, proof);
+    }
+
+    /// @notice Token that ballots are weighted by (zero = one vote per address), its snapshot timepoint,
+    ///         token units per unit of weight, and the total weight cast so far
+    function getVotingPower(uint256 surveyId) external view returns (Weighting memory) {
+        return surveys[surveyId].weighting;
+    }
+
+    /// @notice Weight a ballot of `voter` would carry: 1 when unweighted, else its delegated votes at the snapshot
+    function getVoterWeight(uint256 surveyId, address voter) external view returns (uint256) {
+        return _voterWeight(surveys[surveyId], voter);
+    }
+
     function getQuestion(uint256 surveyId, uint256 questionIndex) external view returns (string memory text, string[] memory options) {
         Survey storage s = surveys[surveyId];
         require(questionIndex < s.questionCount, "Bad q");
@@ -135,6 +398,26 @@ contract SafePoll is SepoliaConfig {
         return (q.text, q.options);
     }
 
+    function getQuestionConfig(uint256 surveyId, uint256 questionIndex) external view returns (QuestionConfig memory) {
+        Survey storage s = surveys[surveyId];
+        require(questionIndex < s.questionCount, "Bad q");
+        Question storage q = s.questions[questionIndex];
+        return QuestionConfig(q.kind, q.minSelections, q.maxSelections, q.minValue, q.maxValue);
+    }
+
+    /// @notice Encrypted sum and sum of squares of a Numeric question's answers
+    function getEncryptedNumericTotals(
+        uint256 surveyId,
+        uint256 questionIndex
+    ) external view returns (euint64 sum, euint64 sumSquares) {
+        Survey storage s = surveys[surveyId];
+        require(questionIndex < s.questionCount, "Bad q");
+        Question storage q = s.questions[questionIndex];
+        return (q.sum, q.sumSquares);
+    }
+
+    /// @notice Encrypted counter of an option, or for Ranked questions of an ordered pair of options (see
+    ///         SurveyTally.counterCount)
     function getEncryptedOptionCount(
         uint256 surveyId,
         uint256 questionIndex,
@@ -143,85 +426,281 @@ contract SafePoll is SepoliaConfig {
         Survey storage s = surveys[surveyId];
         require(questionIndex < s.questionCount, "Bad q");
         Question storage q = s.questions[questionIndex];
-        require(optionIndex < q.options.length, "Bad o");
+        require(optionIndex < SurveyTally.counterCount(q), "Bad o");
         return q.optionCounts[optionIndex];
     }
 
+    function getEncryptedInvalidCount(uint256 surveyId, uint256 questionIndex) external view returns (euint32) {
+        Survey storage s = surveys[surveyId];
+        require(questionIndex < s.questionCount, "Bad q");
+        return s.questions[questionIndex].invalidCount;
+    }
+
     function hasUserVoted(uint256 surveyId, address user) external view returns (bool) {
         return surveys[surveyId].hasVoted[user];
     }
 
+    /// @notice Encrypted answers recorded for `voter`, one per question; only the voter may user-decrypt them
+    function getBallot(uint256 surveyId, address voter) external view returns (euint32[] memory answers) {
+        Survey storage s = surveys[surveyId];
+        require(s.hasVoted[voter], "No ballot");
+        answers = new euint32[](s.questionCount);
+        for (uint256 qi = 0; qi < s.questionCount; qi++) {
+            answers[qi] = s.ballots[voter][qi];
+        }
+    }
+
+    /// @notice Addresses that, besides the owner, may privately decrypt the results once the survey has ended
+    function getReviewers(uint256 surveyId) external view returns (address[] memory) {
+        return surveys[surveyId].reviewers;
+    }
+
+    /// @notice Addresses that, besides the owner, may end the survey and request its decryption
+    function getAdmins(uint256 surveyId) external view returns (address[] memory) {
+        return surveys[surveyId].admins;
+    }
+
+    /// @notice Owner proposed by transferOwnership and not accepted yet (zero when none)
+    function getPendingOwner(uint256 surveyId) external view returns (address) {
+        return surveys[surveyId].pendingOwner;
+    }
+
+    /// @notice Votes required before results can be decrypted, and the smallest count revealed as is
+    function getPrivacyThresholds(uint256 surveyId) external view returns (uint256 minTurnout, uint32 kAnonymity) {
+        Survey storage s = surveys[surveyId];
+        return (s.minTurnout, s.kAnonymity);
+    }
+
+    /// @notice Differential-privacy budget that holds per ballot in thousandths (1000 = epsilon 1, 0 = exact
+    ///         counts): the noise of each count times the counts one ballot can move, at most the budget asked for.
+    ///         Also how many of the survey's counts addNoise has noised so far
+    function getNoise(uint256 surveyId) external view returns (uint32 epsilonMilli, uint256 noised, uint256 total) {
+        Survey storage s = surveys[surveyId];
+        uint256 sensitivity = _ballotSensitivity(s);
+        epsilonMilli = sensitivity == 0 ? s.epsilonMilli : uint32(_countEpsilonMilli(s) * sensitivity);
+        return (epsilonMilli, s.noisedCounters, _noisableCount(s));
+    }
+
+    /// @notice Clear results of every question, stored by the oracle callback (empty until resultsDecrypted)
+    function getDecryptedResults(uint256 surveyId) external view returns (DecryptedResults[] memory) {
+        return decryptedResults[surveyId];
+    }
+
+    /// @notice The decryption request awaiting the oracle, if any (requestedAt = 0 when none), and from when the
+    ///         creator may request again
+    function getPendingDecryption(
+        uint256 surveyId
+    ) external view returns (uint256 requestId, uint256 requestedAt, uint256 retryAt) {
+        Survey storage s = surveys[surveyId];
+        if (s.requestedAt != 0) {
+            return (s.pendingRequestId, s.requestedAt, s.requestedAt + DECRYPTION_TIMEOUT);
+        }
+    }
+
+    function isArchived(uint256 surveyId) external view returns (bool) {
+        return surveys[surveyId].archived;
+    }
+
+    /// @notice Whether voters may replace their ballot (submitVotes again) while the survey is open
+    function isRevotable(uint256 surveyId) external view returns (bool) {
+        return surveys[surveyId].revotable;
+    }
+
     // ============ Vote (encrypted) ============
-    /// @notice Submit encrypted selected option index per question
+    /// @notice Submit one encrypted answer per question. On token-weighted surveys the ballot counts with the
+    ///         voter's (delegated) votes at the creation snapshot instead of 1. On revotable surveys a voter
+    ///         may call it again while the survey is open to replace their previous answers.
     /// @param surveyId the survey being voted on
-    /// @param handles bytes32 handles for each question's selected option index (externalEuint32)
+    /// @param handles bytes32 handles (externalEuint32) per question: the selected option index for Single
+    ///        questions, the bitmask of selected options for Multi questions, the value for Numeric questions,
+    ///        the permutation index of the ranking for Ranked questions
     /// @param inputProof relayer proof for the provided handles
     function submitVotes(uint256 surveyId, bytes32[] calldata handles, bytes calldata inputProof) external {
+        _submitVotes(surveyId, msg.sender, handles, inputProof, new bytes32[](0));
+    }
+
+    /// @notice Same as submitVotes, for Merkle-gated surveys
+    /// @param merkleProof proof that msg.sender is a leaf of the survey's Merkle root
+    function submitVotesWithProof(
+        uint256 surveyId,
+        bytes32[] calldata handles,
+        bytes calldata inputProof,
+        bytes32[] calldata merkleProof
+    ) external {
+        _submitVotes(surveyId, msg.sender, handles, inputProof, merkleProof);
+    }
+
+    /// @notice Gasless voting: anyone, typically a relayer, submits a ballot its voter signed (EIP-712 Ballot with
+    ///         their current nonce), and pays its gas. It counts as the signer's ballot, as if they had called
+    ///         submitVotes, except that the encrypted inputs must be created for the submitting address, which
+    ///         FHE.fromExternal checks them against
+    function submitVotesBySig(SignedBallot calldata ballot) external {
+        require(block.timestamp <= ballot.deadline, "Signature expired");
+        bytes32 structHash = keccak256(
+            abi.encode(
+                BALLOT_TYPEHASH,
+                ballot.surveyId,
+                keccak256(abi.encodePacked(ballot.handles)),
+                keccak256(ballot.inputProof),
+                _useNonce(ballot.voter),
+                ballot.deadline
+            )
+        );
+        require(ECDSA.recoverCalldata(_hashTypedDataV4(structHash), ballot.signature) == ballot.voter, "Bad signature");
+        _submitVotes(ballot.surveyId, ballot.voter, ballot.handles, ballot.inputProof, ballot.merkleProof);
+    }
+
+    /// @dev `voter` is whoever the ballot counts for: msg.sender, or the signer of a relayed ballot
+    function _submitVotes(
+        uint256 surveyId,
+        address voter,
+        bytes32[] calldata handles,
+        bytes calldata inputProof,
+        bytes32[] memory merkleProof
+    ) internal {
         Survey storage s = surveys[surveyId];
         require(s.id != 0, "No survey");
         require(s.isActive, "Ended");
-        require(!s.hasVoted[msg.sender], "Voted");
+        require(block.timestamp >= s.startTime, "Not started");
+        require(s.endTime == 0 || block.timestamp < s.endTime, "Closed");
+        bool revote = s.hasVoted[voter];
+        require(!revote || s.revotable, "Voted");
+        require(_isEligible(s, voter, merkleProof), "Not eligible");
         require(handles.length == s.questionCount, "Bad length");
 
-        // constants
-        euint32 one = FHE.asEuint32(1);
-        euint32 zero = FHE.asEuint32(0);
+        // the weight is read at the creation snapshot, so a revote carries the same weight as the first ballot
+        uint32 weight = revote ? uint32(_voterWeight(s, voter)) : _addWeight(s, voter);
+        _recordBallot(s, voter, handles, inputProof, weight, revote);
+
+        if (revote) {
+            emit VoteUpdated(surveyId, voter);
+            return;
+        }
+        s.hasVoted[voter] = true;
+        s.totalVotes += 1;
+        emit VoteSubmitted(surveyId, voter);
+    }
+
+    /// @dev Tallies a ballot's answers (taking back the voter's previous ones on a revote) and keeps them
+    function _recordBallot(
+        Survey storage s,
+        address voter,
+        bytes32[] calldata handles,
+        bytes calldata inputProof,
+        uint32 weight,
+        bool revote
+    ) internal {
+        // constants: a ballot adds its weight to each counter it matches
+        Tally memory t = Tally({weight: weight, one: FHE.asEuint32(weight), zero: FHE.asEuint32(0), remove: false});
 
         for (uint256 qi = 0; qi < s.questionCount; qi++) {
-            Question storage q = s.questions[qi];
             euint32 encChoice = FHE.fromExternal(externalEuint32.wrap(handles[qi]), inputProof);
-
-            uint256 opts = q.options.length;
-            for (uint256 oi = 0; oi < opts; oi++) {
-                ebool isSel = FHE.eq(encChoice, FHE.asEuint32(uint32(oi)));
-                euint32 addend = FHE.select(isSel, one, zero);
-                q.optionCounts[oi] = FHE.add(q.optionCounts[oi], addend);
-                // keep accessible for this contract (for public decryption flow)
-                FHE.allowThis(q.optionCounts[oi]);
+            if (revote) {
+                // take back the previous answer's contribution without revealing it
+                t.remove = true;
+                SurveyTally.tally(s.questions[qi], s.ballots[voter][qi], t);
+                t.remove = false;
             }
+            SurveyTally.tally(s.questions[qi], encChoice, t);
+            // kept for revotes, and so the voter alone can decrypt what was recorded
+            s.ballots[voter][qi] = encChoice;
+            FHE.allowThis(encChoice);
+            FHE.allow(encChoice, voter);
         }
-
-        s.hasVoted[msg.sender] = true;
-        s.totalVotes += 1;
-        emit VoteSubmitted(surveyId, msg.sender);
     }
 
     // ============ End & Decrypt ============
-    function endSurvey(uint256 surveyId) external onlyCreator(surveyId) {
+    /// @notice The owner and admins can end a survey at any time; anyone can finalize it once its deadline has passed
+    function endSurvey(uint256 surveyId) external {
         Survey storage s = surveys[surveyId];
+        bool pastDeadline = s.endTime != 0 && block.timestamp >= s.endTime;
+        require(pastDeadline || _isAdmin(s, msg.sender), "Not admin");
         require(s.isActive, "Already ended");
         s.isActive = false;
+
+        // the tallies are final now: below the turnout threshold they stay sealed; noisy surveys are finalized
+        // by the last addNoise call
+        if (s.totalVotes >= s.minTurnout && s.epsilonMilli == 0) {
+            _finalizeResults(s);
+        }
         emit SurveyEnded(surveyId);
     }
 
-    /// @notice Creator requests onchain public decryption of all option counts
-    function requestDecryption(uint256 surveyId) external onlyCreator(surveyId) {
+    /// @notice Adds the differential-privacy noise of an ended survey, a batch of counts per call since the FHE
+    ///         work of a transaction is capped; anyone may call it until every count is noised
+    function addNoise(uint256 surveyId) external {
+        Survey storage s = surveys[surveyId];
+        require(s.epsilonMilli > 0, "No noise");
+        require(!s.isActive, "Not ended");
+        require(!s.cancelled, "Cancelled");
+        require(s.totalVotes >= s.minTurnout, "Turnout too low");
+        uint256 total = _noisableCount(s);
+        uint256 done = s.noisedCounters;
+        require(done < total, "Already noised");
+
+        uint16[MAX_NOISE_STEPS] memory tail = SurveyTally.noiseTail(_countEpsilonMilli(s));
+        uint256 steps;
+        while (steps < MAX_NOISE_STEPS && tail[steps] > 0) steps++;
+        uint256 end = done + NOISE_HCU_BUDGET / (NOISE_BASE_HCU + steps * NOISE_STEP_HCU);
+        if (end > total) end = total;
+
+        // counts are numbered question by question: the option/pair counts, then the invalid count
+        uint256 idx;
+        for (uint256 qi = 0; qi < s.questionCount && idx < end; qi++) {
+            Question storage q = s.questions[qi];
+            if (q.kind == QuestionKind.Numeric) continue;
+            uint256 next = idx + SurveyTally.counterCount(q) + 1;
+            if (next > done) {
+                uint256 from = done > idx ? done - idx : 0;
+                SurveyTally.addNoise(q, from, (end < next ? end : next) - idx, tail, steps);
+            }
+            idx = next;
+        }
+        s.noisedCounters = end;
+        emit NoiseAdded(surveyId, end, total);
+        if (end == total) {
+            _finalizeResults(s);
+        }
+    }
+
+    /// @notice Owner or admin requests onchain public decryption of all option counts
+    function requestDecryption(uint256 surveyId) external onlyAdmin(surveyId) {
         Survey storage s = surveys[surveyId];
         require(!s.isActive, "Not ended");
         require(!s.resultsDecrypted, "Already");
+        require(!s.cancelled, "Cancelled");
+        require(s.totalVotes >= s.minTurnout, "Turnout too low");
+        require(s.noisedCounters == _noisableCount(s) || s.epsilonMilli == 0, "Noise pending");
+        // a request the oracle never answered can be replaced once it timed out; its late callback is then rejected
+        if (s.requestedAt != 0) {
+            require(block.timestamp >= s.requestedAt + DECRYPTION_TIMEOUT, "Decryption pending");
+            delete _requestMeta[s.pendingRequestId];
+        }
 
-        // collect all handles
+        // collect all handles: per question its option counts followed by its invalid count,
+        // or its sum and sum of squares for Numeric questions
         uint256 totalHandles;
         uint256 qc = s.questionCount;
         uint256[] memory lens = new uint256[](qc);
         for (uint256 qi = 0; qi < qc; qi++) {
-            lens[qi] = s.questions[qi].options.length;
-            totalHandles += lens[qi];
+            lens[qi] = SurveyTally.counterCount(s.questions[qi]);
+            totalHandles += s.questions[qi].kind == QuestionKind.Numeric ? 2 : lens[qi] + 1;
         }
 
         bytes32[] memory list = new bytes32[](totalHandles);
         uint256 k;
         for (uint256 qi = 0; qi < qc; qi++) {
-            Question storage q = s.questions[qi];
-            for (uint256 oi = 0; oi < q.options.length; oi++) {
-                list[k++] = FHE.toBytes32(q.optionCounts[oi]);
-                // mark public decryptable for HTTP public decrypt convenience, too
-                FHE.makePubliclyDecryptable(q.optionCounts[oi]);
+            bytes32[] memory handles = SurveyTally.publish(s.questions[qi]);
+            for (uint256 h = 0; h < handles.length; h++) {
+                list[k++] = handles[h];
             }
         }
 
         uint256 reqId = FHE.requestDecryption(list, this.decryptionCallback.selector);
         _requestMeta[reqId] = RequestMeta({surveyId: surveyId, optionLens: lens, exists: true});
+        s.pendingRequestId = reqId;
+        s.requestedAt = block.timestamp;
+        emit DecryptionRequested(surveyId, reqId);
     }
 
     /// @notice Callback invoked by the Zama Decryption Oracle relayer
@@ -233,19 +712,20 @@ contract SafePoll is SepoliaConfig {
         FHE.checkSignatures(requestId, cleartexts, decryptionProof);
 
         RequestMeta storage meta = _requestMeta[requestId];
-        require(meta.exists, "Unknown req");
+        if (!meta.exists) {
+            return false; // stale: replaced by a newer request after the timeout (or already answered)
+        }
 
         uint256 surveyId = meta.surveyId;
         Survey storage s = surveys[surveyId];
 
-        // parse n 32-byte words from cleartexts
+        // cleartexts is the abi-encoding of the clear values in request order: n static 32-byte words
         uint256 n = cleartexts.length / 32;
         uint256[] memory vals = new uint256[](n);
         for (uint256 i = 0; i < n; i++) {
             uint256 word;
             assembly {
-                // skip length slot (first 32 bytes), then add i*32
-                word := calldataload(add(cleartexts.offset, mul(add(i, 1), 32)))
+                word := calldataload(add(cleartexts.offset, mul(i, 32)))
             }
             vals[i] = word;
         }
@@ -255,17 +735,175 @@ contract SafePoll is SepoliaConfig {
         delete decryptedResults[surveyId];
         for (uint256 qi = 0; qi < meta.optionLens.length; qi++) {
             uint256 len = meta.optionLens[qi];
-            uint256[] memory oc = new uint256[](len);
-            for (uint256 j = 0; j < len; j++) {
-                oc[j] = vals[idx++];
+            DecryptedResults memory r;
+            r.surveyId = surveyId;
+            r.questionIndex = qi;
+            r.optionCounts = new uint256[](len);
+            if (s.questions[qi].kind == QuestionKind.Numeric) {
+                r.sum = vals[idx++];
+                r.sumSquares = vals[idx++];
+            } else {
+                for (uint256 j = 0; j < len; j++) {
+                    r.optionCounts[j] = vals[idx++];
+                }
+                r.invalidCount = vals[idx++];
             }
-            decryptedResults[surveyId].push(DecryptedResults({surveyId: surveyId, questionIndex: qi, optionCounts: oc}));
+            decryptedResults[surveyId].push(r);
         }
 
         s.resultsDecrypted = true;
+        s.requestedAt = 0;
         emit ResultsDecrypted(surveyId);
         // cleanup
         delete _requestMeta[requestId];
         return true;
     }
+
+    // ============ Internal ============
+    /// @dev Stores the questions of a survey, at creation or when edited before the first vote
+    function _setQuestions(
+        Survey storage s,
+        string[] calldata questionTexts,
+        string[][] calldata questionOptions,
+        QuestionConfig[] calldata questionConfigs
+    ) internal {
+        require(questionTexts.length == questionOptions.length, "Length mismatch");
+        require(questionTexts.length > 0, "No questions");
+        require(questionConfigs.length == 0 || questionConfigs.length == questionTexts.length, "Config mismatch");
+        s.questionCount = questionTexts.length;
+        // all-Single surveys may omit the configs
+        QuestionConfig memory single;
+        uint256 maxTotalWeight = _maxTotalWeight(s);
+        for (uint256 qi = 0; qi < questionTexts.length; qi++) {
+            SurveyTally.configure(
+                s.questions[qi],
+                questionTexts[qi],
+                questionOptions[qi],
+                questionConfigs.length > 0 ? questionConfigs[qi] : single,
+                maxTotalWeight
+            );
+        }
+        require(s.epsilonMilli == 0 || _countEpsilonMilli(s) >= MIN_EPSILON_MILLI, "Epsilon too small");
+    }
+
+    /// @dev Suppresses small counts, then lets the owner and viewers user-decrypt the final tallies before (or
+    ///      without) a public reveal
+    function _finalizeResults(Survey storage s) internal {
+        if (s.kAnonymity > 1) {
+            for (uint256 qi = 0; qi < s.questionCount; qi++) {
+                SurveyTally.suppressSmallCounts(s.questions[qi], s.kAnonymity);
+            }
+        }
+        _grantTallies(s, s.creator);
+        for (uint256 i = 0; i < s.reviewers.length; i++) {
+            _grantTallies(s, s.reviewers[i]);
+        }
+        s.finalized = true;
+    }
+
+    function _grantTallies(Survey storage s, address account) internal {
+        for (uint256 qi = 0; qi < s.questionCount; qi++) {
+            SurveyTally.grant(s.questions[qi], account);
+        }
+    }
+
+    function _checkCreator(uint256 surveyId) internal view {
+        require(msg.sender == surveys[surveyId].creator, "Not creator");
+    }
+
+    function _checkAdmin(uint256 surveyId) internal view {
+        require(_isAdmin(surveys[surveyId], msg.sender), "Not admin");
+    }
+
+    function _isAdmin(Survey storage s, address account) internal view returns (bool) {
+        return account == s.creator || _indexOf(s.admins, account) != type(uint256).max;
+    }
+
+    function _members(Survey storage s, Role role) internal view returns (address[] storage) {
+        return role == Role.Admin ? s.admins : s.reviewers;
+    }
+
+    /// @dev Position of `account` in a role's (bounded) member list, type(uint256).max when absent
+    function _indexOf(address[] storage members, address account) internal view returns (uint256) {
+        for (uint256 i = 0; i < members.length; i++) {
+            if (members[i] == account) return i;
+        }
+        return type(uint256).max;
+    }
+
+    /// @dev Option/ranking and invalid counts of a survey, the ones addNoise covers; Numeric aggregates are protected
+    ///      by the turnout threshold alone
+    function _noisableCount(Survey storage s) internal view returns (uint256 n) {
+        for (uint256 qi = 0; qi < s.questionCount; qi++) {
+            Question storage q = s.questions[qi];
+            if (q.kind != QuestionKind.Numeric) n += SurveyTally.counterCount(q) + 1;
+        }
+    }
+
+    /// @dev How many noised counts one ballot can move, each by 1: its L1 sensitivity, summed over the questions
+    function _ballotSensitivity(Survey storage s) internal view returns (uint256 n) {
+        for (uint256 qi = 0; qi < s.questionCount; qi++) {
+            n += SurveyTally.ballotSensitivity(s.questions[qi]);
+        }
+    }
+
+    /// @dev Noise epsilon of each count: the budget per ballot spread over the counts a ballot can move, so that no
+    ///      ballot is given away by the sum of its effects
+    function _countEpsilonMilli(Survey storage s) internal view returns (uint32) {
+        uint256 sensitivity = _ballotSensitivity(s);
+        return sensitivity == 0 ? s.epsilonMilli : uint32(s.epsilonMilli / sensitivity);
+    }
+
+    function _isEligible(Survey storage s, address voter, bytes32[] memory proof) internal view returns (bool) {
+        if (s.eligibility == Eligibility.Allowlist) {
+            return s.allowlisted[voter];
+        }
+        if (s.eligibility == Eligibility.Merkle) {
+            bytes32 leaf = keccak256(bytes.concat(keccak256(abi.encode(voter))));
+            return MerkleProof.verify(proof, s.merkleRoot, leaf);
+        }
+        return true;
+    }
+
+    /// @dev Adds the voter's weight to the survey total; the total is capped so that no encrypted counter can
+    ///      overflow, since FHE arithmetic wraps silently
+    function _addWeight(Survey storage s, address voter) internal returns (uint32) {
+        uint256 weight = _voterWeight(s, voter);
+        require(weight > 0, "No voting power");
+        s.weighting.totalWeight += weight;
+        require(s.weighting.totalWeight <= type(uint32).max, "Weight overflow");
+        return uint32(weight);
+    }
+
+    /// @dev The most weight all ballots of a survey can add up to: the token supply at the snapshot, within the
+    ///      cap _addWeight enforces
+    function _maxTotalWeight(Survey storage s) internal view returns (uint256) {
+        Weighting storage w = s.weighting;
+        if (w.token == address(0)) {
+            return type(uint32).max;
+        }
+        uint256 supply = IERC5805(w.token).getPastTotalSupply(w.snapshot) / w.unit;
+        return supply < type(uint32).max ? supply : type(uint32).max;
+    }
+
+    function _voterWeight(Survey storage s, address voter) internal view returns (uint256) {
+        Weighting storage w = s.weighting;
+        if (w.token == address(0)) {
+            return 1;
+        }
+        return IERC5805(w.token).getPastVotes(voter, w.snapshot) / w.unit;
+    }
+
+    function _status(Survey storage s) internal view returns (SurveyStatus) {
+        if (s.cancelled) {
+            return SurveyStatus.Cancelled;
+        }
+        if (!s.isActive || (s.endTime != 0 && block.timestamp >= s.endTime)) {
+            return SurveyStatus.Closed;
+        }
+        if (block.timestamp < s.startTime) {
+            return SurveyStatus.Upcoming;
+        }
+        return SurveyStatus.Open;
+    }
 }
@@ -0,0 +1,189 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {euint32, euint64} from "@fhevm/solidity/lib/FHE.sol";
+import {SafePoll} from "./SafePoll.sol";
+import {QuestionConfig, QuestionKind} from "./SurveyTally.sol";
+
+/// @title SafePollLens - batched reads of a SafePoll deployment
+/// @notice A page of survey summaries, a whole survey with its questions, or every encrypted counter of a survey in
+///         a single call. Only reads SafePoll's own views, so it can be redeployed freely and adds nothing to the
+///         size of SafePoll.
+contract SafePollLens {
+    // ============ Types ============
+    /// @notice What a listing shows of a survey: getSurveyInfo, getSurveySchedule and isArchived
+    struct SurveySummary {
+        uint256 id;
+        string title;
+        string description;
+        address creator;
+        bool isActive;
+        bool resultsDecrypted;
+        uint256 questionCount;
+        uint256 totalVotes;
+        uint256 createdAt;
+        uint256 startTime;
+        uint256 endTime;
+        SafePoll.SurveyStatus status;
+        bool archived;
+    }
+
+    struct QuestionDetails {
+        string text;
+        string[] options;
+        QuestionConfig config;
+    }
+
+    /// @notice Everything the survey page reads, in one call
+    struct SurveyDetails {
+        SurveySummary summary;
+        SafePoll.Eligibility eligibility;
+        bytes32 merkleRoot;
+        SafePoll.Weighting weighting;
+        bool revotable;
+        address pendingOwner;
+        address[] admins;
+        address[] reviewers;
+        uint256 minTurnout;
+        uint32 kAnonymity;
+        uint32 epsilonMilli; // the budget that holds per ballot (SafePoll.getNoise)
+        uint256 noisedCounters;
+        uint256 noisableCounters;
+        uint256 decryptionRequestedAt; // 0 = no decryption request pending
+        uint256 decryptionRetryAt;
+        QuestionDetails[] questions;
+    }
+
+    /// @notice Encrypted counters of a question: one per option (per ordered pair for Ranked questions) and the invalid
+    ///         count, or the sum and sum of squares of a Numeric question
+    struct QuestionHandles {
+        euint32[] optionCounts;
+        euint32 invalidCount;
+        euint64 sum; // Numeric only
+        euint64 sumSquares; // Numeric only
+    }
+
+    // ============ Constants / Storage ============
+    uint256 public constant MAX_PAGE_SIZE = 100;
+
+    SafePoll public immutable safePoll;
+
+    constructor(SafePoll safePoll_) {
+        safePoll = safePoll_;
+    }
+
+    // ============ Read ============
+    /// @notice Up to `limit` surveys, newest first, from id `cursor` down (0 = from the latest survey); archived
+    ///         surveys are skipped unless `includeArchived`
+    /// @return page the surveys found, at most `limit`
+    /// @return next cursor of the following page, 0 when no older survey is left
+    function getSurveys(
+        uint256 cursor,
+        uint256 limit,
+        bool includeArchived
+    ) external view returns (SurveySummary[] memory page, uint256 next) {
+        require(limit > 0 && limit <= MAX_PAGE_SIZE, "Bad limit");
+        uint256 total = safePoll.getTotalSurveys();
+        uint256 id = cursor == 0 || cursor > total ? total : cursor;
+
+        SurveySummary[] memory found = new SurveySummary[](limit);
+        uint256 n = 0;
+        for (; id > 0 && n < limit; id--) {
+            if (includeArchived || !safePoll.isArchived(id)) {
+                found[n++] = _summary(id);
+            }
+        }
+
+        page = new SurveySummary[](n);
+        for (uint256 i = 0; i < n; i++) {
+            page[i] = found[i];
+        }
+        return (page, id);
+    }
+
+    /// @notice The surveys with the given ids, in that order, e.g. the ids an off-chain indexer found for a query
+    function getSurveysByIds(uint256[] calldata surveyIds) external view returns (SurveySummary[] memory page) {
+        require(surveyIds.length <= MAX_PAGE_SIZE, "Bad limit");
+        page = new SurveySummary[](surveyIds.length);
+        for (uint256 i = 0; i < surveyIds.length; i++) {
+            _checkExists(surveyIds[i]);
+            page[i] = _summary(surveyIds[i]);
+        }
+    }
+
+    /// @notice Whether `voter` has voted on each of the given surveys
+    function getVoted(address voter, uint256[] calldata surveyIds) external view returns (bool[] memory voted) {
+        require(surveyIds.length <= MAX_PAGE_SIZE, "Bad limit");
+        voted = new bool[](surveyIds.length);
+        for (uint256 i = 0; i < surveyIds.length; i++) {
+            voted[i] = safePoll.hasUserVoted(surveyIds[i], voter);
+        }
+    }
+
+    function getSurvey(uint256 surveyId) external view returns (SurveyDetails memory d) {
+        _checkExists(surveyId);
+        d.summary = _summary(surveyId);
+        (d.eligibility, d.merkleRoot) = safePoll.getEligibility(surveyId);
+        d.weighting = safePoll.getVotingPower(surveyId);
+        d.revotable = safePoll.isRevotable(surveyId);
+        d.pendingOwner = safePoll.getPendingOwner(surveyId);
+        d.admins = safePoll.getAdmins(surveyId);
+        d.reviewers = safePoll.getReviewers(surveyId);
+        (d.minTurnout, d.kAnonymity) = safePoll.getPrivacyThresholds(surveyId);
+        (d.epsilonMilli, d.noisedCounters, d.noisableCounters) = safePoll.getNoise(surveyId);
+        (, d.decryptionRequestedAt, d.decryptionRetryAt) = safePoll.getPendingDecryption(surveyId);
+
+        d.questions = new QuestionDetails[](d.summary.questionCount);
+        for (uint256 qi = 0; qi < d.questions.length; qi++) {
+            QuestionDetails memory q = d.questions[qi];
+            (q.text, q.options) = safePoll.getQuestion(surveyId, qi);
+            q.config = safePoll.getQuestionConfig(surveyId, qi);
+        }
+    }
+
+    /// @notice Every encrypted counter of a survey, one entry per question
+    function getEncryptedHandles(uint256 surveyId) external view returns (QuestionHandles[] memory handles) {
+        _checkExists(surveyId);
+        (, , , , , , uint256 questionCount, , ) = safePoll.getSurveyInfo(surveyId);
+        handles = new QuestionHandles[](questionCount);
+        for (uint256 qi = 0; qi < questionCount; qi++) {
+            QuestionHandles memory h = handles[qi];
+            QuestionConfig memory config = safePoll.getQuestionConfig(surveyId, qi);
+            if (config.kind == QuestionKind.Numeric) {
+                (h.sum, h.sumSquares) = safePoll.getEncryptedNumericTotals(surveyId, qi);
+                continue;
+            }
+            (, string[] memory options) = safePoll.getQuestion(surveyId, qi);
+            h.optionCounts = new euint32[](_counterCount(config.kind, options.length));
+            for (uint256 oi = 0; oi < h.optionCounts.length; oi++) {
+                h.optionCounts[oi] = safePoll.getEncryptedOptionCount(surveyId, qi, oi);
+            }
+            h.invalidCount = safePoll.getEncryptedInvalidCount(surveyId, qi);
+        }
+    }
+
+    // ============ Internal ============
+    function _summary(uint256 surveyId) internal view returns (SurveySummary memory s) {
+        // read in two halves: decoding all nine values into memory at once is too deep for the stack
+        s.id = surveyId;
+        (, s.title, s.description, s.creator, , , , , ) = safePoll.getSurveyInfo(surveyId);
+        (, , , , s.isActive, s.resultsDecrypted, s.questionCount, s.totalVotes, s.createdAt) = safePoll.getSurveyInfo(
+            surveyId
+        );
+        (s.startTime, s.endTime, s.status) = safePoll.getSurveySchedule(surveyId);
+        s.archived = safePoll.isArchived(surveyId);
+    }
+
+    function _checkExists(uint256 surveyId) internal view {
+        require(surveyId != 0 && surveyId <= safePoll.getTotalSurveys(), "No survey");
+    }
+
+    /// @dev Mirrors SurveyTally.counterCount: one counter per option, or per ordered pair of options (n * (n - 1))
+    ///      for Ranked questions
+    function _counterCount(QuestionKind kind, uint256 optionCount) internal pure returns (uint256 n) {
+        n = optionCount;
+        if (kind == QuestionKind.Ranked) {
+            n *= optionCount - 1;
+        }
+    }
+}
@@ -0,0 +1,438 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, euint8, euint16, euint32, euint64, ebool} from "@fhevm/solidity/lib/FHE.sol";
+
+/// @dev Enough steps for the noise tail at SafePoll.MIN_EPSILON_MILLI to fall below the 16-bit sampling resolution
+uint256 constant MAX_NOISE_STEPS = 24;
+
+/// @notice How a question is answered
+enum QuestionKind {
+    Single, // one encrypted option index
+    Multi, // one encrypted bitmask, bit i = option i selected (up to 32 options)
+    Numeric, // one encrypted value clamped to [minValue, maxValue], e.g. a 1-5 rating; has no options
+    Ranked // one encrypted permutation index (Lehmer code) of the options, counted per pair of options
+}
+
+/// @notice Per-question settings; selection bounds apply to Multi, value bounds to Numeric
+struct QuestionConfig {
+    QuestionKind kind;
+    uint32 minSelections;
+    uint32 maxSelections; // 0 = up to every option
+    uint32 minValue;
+    uint32 maxValue;
+}
+
+struct Question {
+    string text;
+    string[] options;
+    mapping(uint256 => euint32) optionCounts; // encrypted counters per option
+    euint32 invalidCount; // encrypted count of ballots whose answer matched no option (or broke the rule)
+    QuestionKind kind;
+    uint32 minSelections; // Multi only
+    uint32 maxSelections; // Multi only
+    uint32 minValue; // Numeric only
+    uint32 maxValue; // Numeric only
+    euint64 sum; // Numeric only: encrypted sum of the clamped answers
+    euint64 sumSquares; // Numeric only: encrypted sum of their squares (for the variance)
+}
+
+/// @dev Per-ballot constants threaded through the tally helpers
+struct Tally {
+    uint32 weight;
+    euint32 one; // encrypted weight, added to each counter the answer matches
+    euint32 zero;
+    bool remove; // subtract the contribution instead (taking back a replaced ballot)
+}
+
+/// @title SurveyTally - the setup of a SafePoll question and the FHE work on its encrypted counters
+/// @notice Linked library, so SafePoll stays below the contract size limit; it runs by delegatecall, so every
+///         handle it creates and every ACL grant it makes belongs to SafePoll
+library SurveyTally {
+    /// @notice Revealed in place of a count below the survey's k-anonymity floor, and of the counts hidden with
+    ///         them (shown as "hidden")
+    uint32 internal constant SUPPRESSED = type(uint32).max;
+    /// @dev A Ranked ballot is compared against every ranking (n!), which bounds the FHE work per ballot
+    uint256 internal constant MAX_RANKED_OPTIONS = 4;
+    /// @dev e^-0.001 in 18-decimal fixed point
+    uint256 private constant EXP_MINUS_MILLI = 999000499833374991;
+
+    /// @notice Writes a new (or emptied) question: its text, options and answer rules; its counters start
+    ///         uninitialized, which FHE operations treat as 0. `maxTotalWeight` bounds the weight all ballots
+    ///         together can carry, so Numeric ranges whose sum of squares could overflow are rejected up front
+    function configure(
+        Question storage q,
+        string calldata text,
+        string[] calldata options,
+        QuestionConfig memory cfg,
+        uint256 maxTotalWeight
+    ) external {
+        q.text = text;
+        // copy options safely (avoid nested dynamic array direct assignment)
+        uint256 opts = options.length;
+        for (uint256 oi = 0; oi < opts; oi++) {
+            q.options.push(options[oi]);
+        }
+        q.kind = cfg.kind;
+        if (cfg.kind == QuestionKind.Numeric) {
+            require(opts == 0, "Numeric has options");
+            require(cfg.minValue < cfg.maxValue, "Bad value range");
+            require(uint256(cfg.maxValue) * cfg.maxValue * maxTotalWeight <= type(uint64).max, "Value range too large");
+            q.minValue = cfg.minValue;
+            q.maxValue = cfg.maxValue;
+            return;
+        }
+        require(opts > 0, "No options");
+        if (cfg.kind == QuestionKind.Ranked) {
+            require(opts >= 2 && opts <= MAX_RANKED_OPTIONS, "Bad ranked options");
+            return;
+        }
+        if (cfg.kind != QuestionKind.Multi) return;
+
+        require(opts <= 32, "Too many options");
+        uint32 maxSel = cfg.maxSelections == 0 ? uint32(opts) : cfg.maxSelections;
+        require(cfg.minSelections <= maxSel && maxSel <= opts, "Bad selection rule");
+        q.minSelections = cfg.minSelections;
+        q.maxSelections = maxSel;
+    }
+
+    /// @notice Adds one encrypted answer to the question's counters, or takes it back (t.remove)
+    function tally(Question storage q, euint32 encChoice, Tally memory t) external {
+        if (q.kind == QuestionKind.Multi) {
+            _tallyMulti(q, encChoice, t);
+        } else if (q.kind == QuestionKind.Numeric) {
+            _tallyNumeric(q, encChoice, t);
+        } else if (q.kind == QuestionKind.Ranked) {
+            _tallyRanked(q, encChoice, t);
+        } else {
+            _tallySingle(q, encChoice, t);
+        }
+    }
+
+    /// @dev Number of encrypted counters: one per option, or for Ranked questions one per ordered pair (a, b) of
+    ///      options, counting the ballots that rank a above b (row-major, skipping a = b). Head-to-head counts
+    ///      reveal no voter's full ranking, where a counter per ranking would
+    function counterCount(Question storage q) internal view returns (uint256 n) {
+        n = q.options.length;
+        if (q.kind == QuestionKind.Ranked) {
+            n *= n - 1;
+        }
+    }
+
+    /// @notice How many counters one ballot can move (each by 1): its L1 sensitivity, which the noise is scaled to.
+    ///         A Single ballot moves one count, a Multi ballot up to maxSelections, a Ranked ballot one direction of
+    ///         every pair; an invalid ballot only the invalid count. Numeric aggregates are not noised
+    function ballotSensitivity(Question storage q) internal view returns (uint256) {
+        if (q.kind == QuestionKind.Numeric) return 0;
+        if (q.kind == QuestionKind.Multi) return q.maxSelections;
+        if (q.kind == QuestionKind.Ranked) return (q.options.length * (q.options.length - 1)) / 2;
+        return 1;
+    }
+
+    /// @notice Replaces every option/pair count below k, zero included, by SUPPRESSED, so no small group of voters
+    ///         can be singled out; Numeric aggregates are protected by the turnout threshold alone. Public totals tie
+    ///         the counts together (the turnout, and for a Ranked pair the valid ballots, which rank a over b or b
+    ///         over a), so hidden counts are never left where those totals give them back: both directions of a
+    ///         Ranked pair are hidden together, and hidden counts that all hold the same value are hidden together
+    ///         with the smallest visible count. Two hidden counts that differ can then trade values without changing
+    ///         any total. The invalid count is revealed as is: it counts malformed ballots, not anyone's answer
+    function suppressSmallCounts(Question storage q, uint32 k) external {
+        if (q.kind == QuestionKind.Numeric) return;
+        uint256 counters = counterCount(q);
+        euint32[] memory counts = new euint32[](counters);
+        ebool[] memory hidden = new ebool[](counters);
+        for (uint256 oi = 0; oi < counters; oi++) {
+            // a counter no ballot touched is a zero like any other
+            counts[oi] = FHE.isInitialized(q.optionCounts[oi]) ? q.optionCounts[oi] : FHE.asEuint32(0);
+            hidden[oi] = FHE.lt(counts[oi], k);
+        }
+        if (q.kind == QuestionKind.Ranked) {
+            _hideReversePairs(hidden, q.options.length);
+        }
+        _suppress(counts, hidden);
+        for (uint256 oi = 0; oi < counters; oi++) {
+            q.optionCounts[oi] = counts[oi];
+        }
+    }
+
+    /// @notice ACL grant on every counter of a question; counters no ballot ever touched have no handle to grant
+    function grant(Question storage q, address account) external {
+        if (q.kind == QuestionKind.Numeric) {
+            _grant(q.sum, account);
+            _grant(q.sumSquares, account);
+            return;
+        }
+        uint256 counters = counterCount(q);
+        for (uint256 oi = 0; oi < counters; oi++) {
+            _grant(q.optionCounts[oi], account);
+        }
+        _grant(q.invalidCount, account);
+    }
+
+    /// @notice Marks a question's counters publicly decryptable; returns their handles in the order the decryption
+    ///         callback reads them back: the option/pair counts then the invalid count, or sum and sum of squares
+    function publish(Question storage q) external returns (bytes32[] memory handles) {
+        if (q.kind == QuestionKind.Numeric) {
+            q.sum = _publish(q.sum);
+            q.sumSquares = _publish(q.sumSquares);
+            handles = new bytes32[](2);
+            handles[0] = FHE.toBytes32(q.sum);
+            handles[1] = FHE.toBytes32(q.sumSquares);
+            return handles;
+        }
+        uint256 counters = counterCount(q);
+        handles = new bytes32[](counters + 1);
+        for (uint256 oi = 0; oi < counters; oi++) {
+            q.optionCounts[oi] = _publish(q.optionCounts[oi]);
+            handles[oi] = FHE.toBytes32(q.optionCounts[oi]);
+        }
+        q.invalidCount = _publish(q.invalidCount);
+        handles[counters] = FHE.toBytes32(q.invalidCount);
+    }
+
+    /// @notice tail[m - 1] = 2^16 * P(|noise| >= m) = 2^16 * 2a^m / (1 + a) with a = e^-epsilon, zero once negligible
+    function noiseTail(uint32 epsilonMilli) external pure returns (uint16[MAX_NOISE_STEPS] memory tail) {
+        uint256 alpha = 1e18;
+        uint256 base = EXP_MINUS_MILLI;
+        for (uint256 e = epsilonMilli; e > 0; e >>= 1) {
+            if (e & 1 == 1) alpha = (alpha * base) / 1e18;
+            base = (base * base) / 1e18;
+        }
+        uint256 p = (uint256(1 << 17) * 1e36) / (1e18 + alpha);
+        for (uint256 m = 0; m < MAX_NOISE_STEPS; m++) {
+            p = (p * alpha) / 1e18;
+            tail[m] = uint16(p / 1e18);
+        }
+    }
+
+    /// @notice Noises the question's counts [from, to), numbered as its option/pair counts then its invalid count
+    function addNoise(
+        Question storage q,
+        uint256 from,
+        uint256 to,
+        uint16[MAX_NOISE_STEPS] memory tail,
+        uint256 steps
+    ) external {
+        uint256 counters = counterCount(q);
+        for (uint256 i = from; i < to; i++) {
+            if (i == counters) {
+                q.invalidCount = _noisy(q.invalidCount, tail, steps);
+            } else {
+                q.optionCounts[i] = _noisy(q.optionCounts[i], tail, steps);
+            }
+        }
+    }
+
+    /// @dev Adds discrete Laplace noise, P(x) ~ e^(-epsilon * |x|), clamping at zero: |noise| is the number of tail
+    ///      entries above one uniform 16-bit draw (the tail decreases, so a select chain finds it), its sign a
+    ///      random bit
+    function _noisy(euint32 count, uint16[MAX_NOISE_STEPS] memory tail, uint256 steps) private returns (euint32) {
+        euint16 u = FHE.randEuint16();
+        euint8 magnitude = FHE.asEuint8(0);
+        for (uint256 m = 0; m < steps; m++) {
+            magnitude = FHE.select(FHE.lt(u, tail[m]), FHE.asEuint8(uint8(m + 1)), magnitude);
+        }
+        euint32 noise = FHE.asEuint32(magnitude);
+        euint32 result = FHE.select(FHE.randEbool(), FHE.add(count, noise), FHE.sub(count, FHE.min(count, noise)));
+        FHE.allowThis(result);
+        return result;
+    }
+
+    /// @dev An index outside the options matches none and is counted as invalid instead
+    function _tallySingle(Question storage q, euint32 encChoice, Tally memory t) private {
+        uint256 opts = counterCount(q);
+        for (uint256 oi = 0; oi < opts; oi++) {
+            ebool isSel = FHE.eq(encChoice, FHE.asEuint32(uint32(oi)));
+            euint32 addend = FHE.select(isSel, t.one, t.zero);
+            q.optionCounts[oi] = _apply(q.optionCounts[oi], addend, t.remove);
+            // keep accessible for this contract (for public decryption flow)
+            FHE.allowThis(q.optionCounts[oi]);
+        }
+        _countInvalid(q, FHE.lt(encChoice, uint32(opts)), t);
+    }
+
+    /// @dev Adds the ballot's weight to the pair counters (a, b) of every a it ranks above b; an index outside
+    ///      the rankings counts for no pair and is counted as invalid instead
+    function _tallyRanked(Question storage q, euint32 encRanking, Tally memory t) private {
+        uint256 n = q.options.length;
+        euint32[] memory above = _rankedAbove(encRanking, t, n);
+        ebool valid = FHE.lt(encRanking, uint32(_factorial(n)));
+        euint32 ballot = FHE.select(valid, t.one, t.zero);
+        uint256 counter = 0;
+        for (uint256 a = 0; a < n; a++) {
+            for (uint256 b = 0; b < n; b++) {
+                if (a == b) continue;
+                // a valid ballot ranks b above a exactly when it doesn't rank a above b
+                euint32 addend = a < b ? above[a * n + b] : FHE.sub(ballot, above[b * n + a]);
+                q.optionCounts[counter] = _apply(q.optionCounts[counter], addend, t.remove);
+                FHE.allowThis(q.optionCounts[counter]);
+                counter++;
+            }
+        }
+        _countInvalid(q, valid, t);
+    }
+
+    /// @dev For a < b, above[a * n + b] is the ballot's weight if it ranks a above b, else 0: the sum of the
+    ///      ranking matches over the rankings that put a first of the two
+    function _rankedAbove(euint32 encRanking, Tally memory t, uint256 n) private returns (euint32[] memory above) {
+        above = new euint32[](n * n);
+        for (uint256 i = 0; i < above.length; i++) {
+            above[i] = t.zero;
+        }
+        uint256 rankings = _factorial(n);
+        for (uint256 r = 0; r < rankings; r++) {
+            euint32 matched = FHE.select(FHE.eq(encRanking, uint32(r)), t.one, t.zero);
+            uint256[] memory position = _positions(r, n);
+            for (uint256 a = 0; a < n; a++) {
+                for (uint256 b = a + 1; b < n; b++) {
+                    if (position[a] < position[b]) above[a * n + b] = FHE.add(above[a * n + b], matched);
+                }
+            }
+        }
+    }
+
+    /// @dev Rank (0 = best) of every option in the ranking with Lehmer code `index`
+    function _positions(uint256 index, uint256 n) private pure returns (uint256[] memory position) {
+        position = new uint256[](n);
+        uint256[] memory remaining = new uint256[](n);
+        for (uint256 i = 0; i < n; i++) {
+            remaining[i] = i;
+        }
+        for (uint256 rank = 0; rank < n; rank++) {
+            uint256 f = _factorial(n - 1 - rank);
+            uint256 digit = index / f;
+            index %= f;
+            position[remaining[digit]] = rank;
+            // drop the chosen option, keeping the rest in order
+            for (uint256 i = digit; i + 1 < n - rank; i++) {
+                remaining[i] = remaining[i + 1];
+            }
+        }
+    }
+
+    function _factorial(uint256 n) private pure returns (uint256 f) {
+        f = 1;
+        for (uint256 i = 2; i <= n; i++) {
+            f *= i;
+        }
+    }
+
+    /// @dev A mask with bits beyond the options or a selection count outside [min, max] counts for no option
+    ///      and is counted as invalid instead
+    function _tallyMulti(Question storage q, euint32 encMask, Tally memory t) private {
+        uint256 opts = q.options.length;
+        euint32[] memory bits = new euint32[](opts);
+        euint32 selected = t.zero;
+        for (uint256 oi = 0; oi < opts; oi++) {
+            bits[oi] = FHE.and(FHE.shr(encMask, uint8(oi)), uint32(1));
+            selected = FHE.add(selected, bits[oi]);
+        }
+
+        ebool valid = FHE.and(FHE.ge(selected, q.minSelections), FHE.le(selected, q.maxSelections));
+        if (opts < 32) {
+            valid = FHE.and(valid, FHE.lt(encMask, uint32(1 << opts)));
+        }
+
+        for (uint256 oi = 0; oi < opts; oi++) {
+            euint32 addend = FHE.select(valid, bits[oi], t.zero);
+            if (t.weight != 1) {
+                addend = FHE.mul(addend, t.weight);
+            }
+            q.optionCounts[oi] = _apply(q.optionCounts[oi], addend, t.remove);
+            FHE.allowThis(q.optionCounts[oi]);
+        }
+        _countInvalid(q, valid, t);
+    }
+
+    /// @dev Out-of-range values are clamped to the declared range rather than discarded; a weighted ballot
+    ///      counts its value `weight` times
+    function _tallyNumeric(Question storage q, euint32 encValue, Tally memory t) private {
+        euint64 v = FHE.asEuint64(FHE.min(FHE.max(encValue, q.minValue), q.maxValue));
+        euint64 square = FHE.mul(v, v);
+        if (t.weight != 1) {
+            v = FHE.mul(v, uint64(t.weight));
+            square = FHE.mul(square, uint64(t.weight));
+        }
+        q.sum = t.remove ? FHE.sub(q.sum, v) : FHE.add(q.sum, v);
+        q.sumSquares = t.remove ? FHE.sub(q.sumSquares, square) : FHE.add(q.sumSquares, square);
+        FHE.allowThis(q.sum);
+        FHE.allowThis(q.sumSquares);
+    }
+
+    function _countInvalid(Question storage q, ebool valid, Tally memory t) private {
+        q.invalidCount = _apply(q.invalidCount, FHE.select(valid, t.zero, t.one), t.remove);
+        FHE.allowThis(q.invalidCount);
+    }
+
+    /// @dev Adds a ballot's contribution to a counter, or takes back the one it added before
+    function _apply(euint32 counter, euint32 delta, bool remove) private returns (euint32) {
+        return remove ? FHE.sub(counter, delta) : FHE.add(counter, delta);
+    }
+
+    /// @dev Hides the pair (a, b) whenever (b, a) is hidden: the two add up to the valid ballots, so either one gives
+    ///      the other back
+    function _hideReversePairs(ebool[] memory hidden, uint256 n) private {
+        for (uint256 a = 0; a < n; a++) {
+            for (uint256 b = a + 1; b < n; b++) {
+                // pair counters run row by row, skipping a = b
+                uint256 ab = a * (n - 1) + b - 1;
+                uint256 ba = b * (n - 1) + a;
+                hidden[ab] = FHE.or(hidden[ab], hidden[ba]);
+                hidden[ba] = hidden[ab];
+            }
+        }
+    }
+
+    /// @dev Masks the hidden counts in place, and when they all hold the same value (a lone one included) every
+    ///      count equal to the smallest visible one with them
+    function _suppress(euint32[] memory counts, ebool[] memory hidden) private {
+        euint32 hiddenMin = FHE.asEuint32(type(uint32).max);
+        euint32 hiddenMax = FHE.asEuint32(0);
+        euint32 visibleMin = FHE.asEuint32(type(uint32).max);
+        for (uint256 i = 0; i < counts.length; i++) {
+            hiddenMin = FHE.select(hidden[i], FHE.min(hiddenMin, counts[i]), hiddenMin);
+            hiddenMax = FHE.select(hidden[i], FHE.max(hiddenMax, counts[i]), hiddenMax);
+            visibleMin = FHE.select(hidden[i], visibleMin, FHE.min(visibleMin, counts[i]));
+        }
+        // false when nothing is hidden, as the minimum then stays above the maximum
+        ebool alike = FHE.eq(hiddenMin, hiddenMax);
+        euint32 suppressed = FHE.asEuint32(SUPPRESSED);
+        for (uint256 i = 0; i < counts.length; i++) {
+            ebool partner = FHE.and(alike, FHE.eq(counts[i], visibleMin));
+            counts[i] = FHE.select(FHE.or(hidden[i], partner), suppressed, counts[i]);
+            FHE.allowThis(counts[i]);
+        }
+    }
+
+    /// @dev Marks a counter publicly decryptable (for HTTP public decrypt convenience, too); counters no ballot
+    ///      touched get an encrypted zero first, as the oracle can only decrypt real handles
+    function _publish(euint32 counter) private returns (euint32) {
+        if (!FHE.isInitialized(counter)) {
+            counter = FHE.asEuint32(0);
+            FHE.allowThis(counter);
+        }
+        FHE.makePubliclyDecryptable(counter);
+        return counter;
+    }
+
+    function _publish(euint64 total) private returns (euint64) {
+        if (!FHE.isInitialized(total)) {
+            total = FHE.asEuint64(0);
+            FHE.allowThis(total);
+        }
+        FHE.makePubliclyDecryptable(total);
+        return total;
+    }
+
+    function _grant(euint32 counter, address account) private {
+        if (FHE.isInitialized(counter)) {
+            FHE.allow(counter, account);
+        }
+    }
+
+    function _grant(euint64 total, address account) private {
+        if (FHE.isInitialized(total)) {
+            FHE.allow(total, account);
+        }
+    }
+}
@@ -5,12 +5,26 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   const { deployer } = await hre.getNamedAccounts();
   const { deploy } = hre.deployments;
 
+  const deployedSurveyTally = await deploy("SurveyTally", {
+    from: deployer,
+    log: true,
+  });
+
   const deployedSafePoll = await deploy("SafePoll", {
     from: deployer,
     log: true,
+    libraries: { SurveyTally: deployedSurveyTally.address },
+  });
+
+  // batched reads for the frontend and tasks, kept out of SafePoll for its size
+  const deployedLens = await deploy("SafePollLens", {
+    from: deployer,
+    log: true,
+    args: [deployedSafePoll.address],
   });
 
   console.log(`SafePoll contract: `, deployedSafePoll.address);
+  console.log(`SafePollLens contract: `, deployedLens.address);
 };
 export default func;
 func.id = "deploy_safePoll"; // id required to prevent reexecution
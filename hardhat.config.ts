@@ -13,6 +13,9 @@ import "dotenv/config";
 import "./tasks/accounts";
 import "./tasks/FHECounter";
 import "./tasks/SafePoll";
+import "./tasks/relayer";
+import "./tasks/indexer";
+import "./tasks/sdk";
 
 // Run 'npx hardhat vars setup' to see the list of variables that need to be set
 
@@ -79,7 +82,8 @@ const config: HardhatUserConfig = {
       // https://hardhat.org/hardhat-network/#solidity-optimizer-support
       optimizer: {
         enabled: true,
-        runs: 800,
+        // favour code size: SafePoll sits close to the 24KB contract size limit
+        runs: 200,
       },
       evmVersion: "cancun",
     },
@@ -6,6 +6,7 @@ import '@rainbow-me/rainbowkit/styles.css';
 import { config } from './config/wagmi';
 import { SurveyApp } from './components/SurveyApp';
 import { Survey } from './components/Survey';
+import { SurveyResultsPage } from './components/SurveyResultsPage';
 import { useEffect, useState } from 'react';
 
 const queryClient = new QueryClient();
@@ -19,13 +20,14 @@ function App() {
   }, []);
 
   const match = path.match(/^\/survey\/(\d+)$/i);
+  const resultsMatch = path.match(/^\/survey\/(\d+)\/results$/i);
 
   return (
     <WagmiProvider config={config}>
       <QueryClientProvider client={queryClient}>
         <RainbowKitProvider locale="en">
           <div style={{ minHeight: '100vh' }}>
-            {match ? <Survey /> : <SurveyApp />}
+            {resultsMatch ? <SurveyResultsPage /> : match ? <Survey /> : <SurveyApp />}
           </div>
         </RainbowKitProvider>
       </QueryClientProvider>
@@ -0,0 +1,125 @@
+// Plain SVG/CSS charts of decrypted results, sized for the screen and for print; counts hidden by the
+// k-anonymity floor (null) are listed but never drawn
+
+export type ChartRow = { label: string; count: number | null; percent: number | null };
+
+const COLORS = ['#0284c7', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899', '#14b8a6', '#64748b'];
+const color = (i: number) => COLORS[i % COLORS.length];
+
+// Indexes of the rows with the highest revealed count, every one of them on a tie; none when nothing was counted
+function leadingRows(rows: ChartRow[]): Set<number> {
+  const top = Math.max(0, ...rows.map((r) => r.count ?? 0));
+  return new Set(top > 0 ? rows.flatMap((r, i) => (r.count === top ? [i] : [])) : []);
+}
+
+const formatRow = (r: ChartRow, hidden: string, unit: string) =>
+  r.count === null ? hidden : `${r.count} ${unit} · ${r.percent ?? 0}%`;
+
+export function BarChart({ rows, hidden, unit }: { rows: ChartRow[]; hidden: string; unit: string }) {
+  const leading = leadingRows(rows);
+  return (
+    <div className="flex flex-col gap-2">
+      {rows.map((r, i) => (
+        <div key={i}>
+          <div className="flex items-center justify-between text-sm">
+            <span className={leading.has(i) ? 'font-semibold text-gray-900' : 'text-gray-700'}>
+              {r.label} {leading.has(i) && <span className="badge badge-success">Leading</span>}
+            </span>
+            <span className="text-gray-600">{formatRow(r, hidden, unit)}</span>
+          </div>
+          <div style={{ height: 10, borderRadius: 'var(--radius-sm)', background: 'var(--gray-100)', overflow: 'hidden' }}>
+            <div
+              style={{
+                width: `${Math.min(100, r.percent ?? 0)}%`,
+                height: '100%',
+                background: leading.has(i) ? 'var(--success-500)' : 'var(--primary-500)',
+                printColorAdjust: 'exact',
+              }}
+            />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// A donut of the revealed counts; each slice is its share of the drawn total, the legend keeps the share of turnout
+export function PieChart({ rows, hidden, unit }: { rows: ChartRow[]; hidden: string; unit: string }) {
+  const leading = leadingRows(rows);
+  const total = rows.reduce((s, r) => s + (r.count ?? 0), 0);
+  const r = 15.9155; // a circumference of 100, so dash lengths are percentages
+  let offset = 25; // start at 12 o'clock
+  return (
+    <div className="flex items-center gap-6">
+      <svg viewBox="0 0 42 42" width={160} height={160} role="img" aria-label="Pie chart of the results">
+        <circle cx="21" cy="21" r={r} fill="none" stroke="var(--gray-100)" strokeWidth="6" />
+        {total > 0 &&
+          rows.map((row, i) => {
+            const share = ((row.count ?? 0) * 100) / total;
+            if (share === 0) return null;
+            const slice = (
+              <circle
+                key={i}
+                cx="21"
+                cy="21"
+                r={r}
+                fill="none"
+                stroke={color(i)}
+                strokeWidth={leading.has(i) ? 8 : 6}
+                strokeDasharray={`${share} ${100 - share}`}
+                strokeDashoffset={offset}
+              />
+            );
+            offset -= share;
+            return slice;
+          })}
+      </svg>
+      <ul className="flex flex-col gap-2 text-sm" style={{ listStyle: 'none' }}>
+        {rows.map((row, i) => (
+          <li key={i} className="flex items-center gap-2">
+            <span style={{ width: 12, height: 12, borderRadius: 2, background: color(i), printColorAdjust: 'exact' }} />
+            <span className={leading.has(i) ? 'font-semibold text-gray-900' : 'text-gray-700'}>{row.label}</span>
+            <span className="text-gray-600">{formatRow(row, hidden, unit)}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+// Only the sum and sum of squares of a numeric question are revealed, not the individual answers, so its
+// distribution is drawn as the mean and the one-standard-deviation band around it on the answer range
+export function NumericDistribution({ min, max, mean, variance }: { min: number; max: number; mean: number; variance: number }) {
+  const span = Math.max(1, max - min);
+  const sd = Math.sqrt(variance);
+  const at = (v: number) => `${(Math.min(max, Math.max(min, v)) - min) * (100 / span)}%`;
+  const low = Math.max(min, mean - sd);
+  const high = Math.min(max, mean + sd);
+  return (
+    <div className="flex flex-col gap-2 text-sm">
+      <div style={{ position: 'relative', height: 28, background: 'var(--gray-100)', borderRadius: 'var(--radius-sm)' }}>
+        <div
+          style={{
+            position: 'absolute',
+            top: 6,
+            bottom: 6,
+            left: at(low),
+            width: `calc(${at(high)} - ${at(low)})`,
+            background: 'var(--primary-100)',
+            border: '1px solid var(--primary-500)',
+            borderRadius: 'var(--radius-sm)',
+            printColorAdjust: 'exact',
+          }}
+        />
+        <div style={{ position: 'absolute', top: 0, bottom: 0, left: at(mean), width: 3, marginLeft: -1, background: 'var(--primary-700)' }} />
+      </div>
+      <div className="flex justify-between text-gray-600">
+        <span>{min}</span>
+        <span>
+          Mean {mean.toFixed(2)} · standard deviation {sd.toFixed(2)} (band: {low.toFixed(2)} – {high.toFixed(2)})
+        </span>
+        <span>{max}</span>
+      </div>
+    </div>
+  );
+}
@@ -1,32 +1,59 @@
 import { useEffect, useMemo, useState } from 'react';
 import { useAccount, usePublicClient } from 'wagmi';
-import { CONTRACT_ADDRESS, CONTRACT_ABI } from '../config/contracts';
+import { CONTRACT_ADDRESS, IS_LOCAL_NETWORK, RELAYER_URL } from '../config/contracts';
 import { useZamaInstance } from '../hooks/useZamaInstance';
 import { useEthersSigner } from '../hooks/useEthersSigner';
-import { Contract } from 'ethers';
+import { useSafePoll } from '../hooks/useSafePoll';
+import { useSurveySchedule } from '../hooks/useSurveySchedule';
+import { extractProof, useEligibility } from '../hooks/useEligibility';
+import { useVotingPower } from '../hooks/useVotingPower';
+import { ZeroAddress } from 'ethers';
 import { Header } from './Header';
+import { SurveyCountdown, SurveyStatusBadge } from './SurveyStatus';
+import { SurveyCreate } from './SurveyCreate';
+import { SurveyAdmins } from './SurveyAdmins';
+import {
+  bordaScores,
+  bordaWinner,
+  buildResults,
+  condorcetWinner,
+  factorial,
+  indexToRanking,
+  pairwiseMatrix,
+  QUESTION_KINDS,
+  rankingToIndex,
+  resultsToCsv,
+  signReport,
+  SUPPRESSED,
+  type QuestionKind,
+  type SurveySummary,
+  type Tally,
+} from '../../../sdk';
+import { userDecrypt } from '../utils/userDecrypt';
+import { relayBallot } from '../utils/relayer';
+import { fulfillMockDecryptions } from '../utils/mockFhevm';
+import { downloadFile } from '../utils/download';
+import { decryptTallies } from '../utils/tallies';
 
-type SurveyInfo = {
-  id: bigint; title: string; description: string; creator: `0x${string}`; isActive: boolean; resultsDecrypted: boolean; questionCount: bigint; totalVotes: bigint; createdAt: bigint;
+type SurveyQuestion = {
+  text: string; options: string[]; kind: QuestionKind; minSelections: number; maxSelections: number; minValue: number; maxValue: number;
 };
 
-function normalizeSurvey(d: any): SurveyInfo {
-  return {
-    id: BigInt(d?.id ?? d?.[0] ?? 0),
-    title: String(d?.title ?? d?.[1] ?? ''),
-    description: String(d?.description ?? d?.[2] ?? ''),
-    creator: (d?.creator ?? d?.[3] ?? '0x0000000000000000000000000000000000000000') as `0x${string}`,
-    isActive: Boolean(d?.isActive ?? d?.[4] ?? false),
-    resultsDecrypted: Boolean(d?.resultsDecrypted ?? d?.[5] ?? false),
-    questionCount: BigInt(d?.questionCount ?? d?.[6] ?? 0),
-    totalVotes: BigInt(d?.totalVotes ?? d?.[7] ?? 0),
-    createdAt: BigInt(d?.createdAt ?? d?.[8] ?? 0),
-  };
+const countBits = (mask: number) => mask.toString(2).split('').filter((b) => b === '1').length;
+
+// Whether an answer is complete: one option for Single, a selection count within the bounds for Multi,
+// a value within the range for Numeric; a Ranked ballot always holds a full ranking
+function isAnswered(q: SurveyQuestion, choice: number): boolean {
+  if (q.kind === 'numeric') return choice >= q.minValue && choice <= q.maxValue;
+  if (q.kind !== 'multi') return choice >= 0;
+  const n = countBits(choice);
+  return n >= q.minSelections && n <= q.maxSelections;
 }
 
 export function Survey() {
   const { address } = useAccount();
   const publicClient = usePublicClient();
+  const sp = useSafePoll();
   const { instance } = useZamaInstance();
   const signerPromise = useEthersSigner();
 
@@ -36,30 +63,73 @@ export function Survey() {
     return Number.isFinite(n) && n > 0 ? BigInt(n) : undefined;
   }, [window.location.pathname]);
 
-  const [info, setInfo] = useState<SurveyInfo | null>(null);
+  const [info, setInfo] = useState<SurveySummary | null>(null);
   const [loading, setLoading] = useState(false);
-  const [questions, setQuestions] = useState<{ text: string, options: string[] }[]>([]);
+  const [questions, setQuestions] = useState<SurveyQuestion[]>([]);
+  // Single: selected option index (-1 = none); Multi: bitmask of selected options; Numeric: value (-1 = none);
+  // Ranked: permutation index of the ranking (0 = listed order)
   const [choices, setChoices] = useState<number[]>([]);
   const [submitting, setSubmitting] = useState(false);
+  const [revotable, setRevotable] = useState(false);
+  const [hasVoted, setHasVoted] = useState(false);
+  // the caller's own ballot, user-decrypted: one answer per question
+  const [myBallot, setMyBallot] = useState<number[] | null>(null);
+  const [loadingBallot, setLoadingBallot] = useState(false);
   const [decrypting, setDecrypting] = useState(false);
+  // per question: option counts, [sum, sumSquares] for Numeric questions, or per-pair counts for Ranked questions
   const [results, setResults] = useState<number[][] | null>(null);
+  const [invalidCounts, setInvalidCounts] = useState<number[]>([]);
+  // results came from a private preview rather than the public reveal
+  const [resultsPreview, setResultsPreview] = useState(false);
+  const [reviewers, setReviewers] = useState<string[]>([]);
+  const [admins, setAdmins] = useState<string[]>([]);
+  const [pendingOwner, setPendingOwner] = useState<string>(ZeroAddress);
+  const [managingAdmins, setManagingAdmins] = useState(false);
+  const [thresholds, setThresholds] = useState({ minTurnout: 0, kAnonymity: 0 });
+  const [noise, setNoise] = useState({ epsilon: 0, noised: 0, total: 0 });
+  const [addingNoise, setAddingNoise] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [pendingDecryption, setPendingDecryption] = useState<{ requestedAt: number; retryAt: number } | null>(null);
+  const [archived, setArchived] = useState(false);
+  const [editing, setEditing] = useState(false);
+  // bumped after an edit or a role change to re-read the survey
+  const [reloadKey, setReloadKey] = useState(0);
+  const { schedule, now, refetch: refetchSchedule } = useSurveySchedule(id);
+  const [proofInput, setProofInput] = useState('');
+  const [proof, setProof] = useState<`0x${string}`[]>([]);
+  const { mode: eligibilityMode, eligible } = useEligibility(id, address, proof);
+  const { power, weight } = useVotingPower(id, address);
+  // counts of weighted surveys are sums of ballot weights rather than ballots
+  const weighted = !!power?.token;
 
   useEffect(() => {
     const load = async () => {
-      if (!publicClient || !id) return;
+      if (!sp || !id) return;
       setLoading(true);
       try {
-        const raw = await publicClient.readContract({ address: CONTRACT_ADDRESS, abi: CONTRACT_ABI, functionName: 'getSurveyInfo', args: [id] });
-        const d = normalizeSurvey(raw);
-        setInfo(d);
-
-        const arr: { text: string; options: string[] }[] = [];
-        for (let i = 0; i < Number(d.questionCount); i++) {
-          const [text, options] = await publicClient.readContract({ address: CONTRACT_ADDRESS, abi: CONTRACT_ABI, functionName: 'getQuestion', args: [id, BigInt(i)] }) as [string, string[]];
-          arr.push({ text, options });
-        }
+        // the whole survey, questions included, in one call
+        const d = await sp.getSurvey(id);
+        setInfo(d.summary);
+
+        const arr: SurveyQuestion[] = d.questions.map(({ text, options, config: cfg }) => ({
+          text,
+          options: [...options],
+          kind: QUESTION_KINDS[cfg.kind] ?? 'single',
+          minSelections: cfg.minSelections,
+          maxSelections: cfg.maxSelections,
+          minValue: cfg.minValue,
+          maxValue: cfg.maxValue,
+        }));
         setQuestions(arr);
-        setChoices(new Array(arr.length).fill(-1));
+        setChoices(arr.map((q) => (q.kind === 'multi' || q.kind === 'ranked' ? 0 : -1)));
+        setRevotable(d.revotable);
+        setReviewers([...d.reviewers]);
+        setAdmins([...d.admins]);
+        setPendingOwner(d.pendingOwner);
+        setThresholds({ minTurnout: Number(d.minTurnout), kAnonymity: d.kAnonymity });
+        setNoise({ epsilon: d.epsilonMilli / 1000, noised: Number(d.noisedCounters), total: Number(d.noisableCounters) });
+        setPendingDecryption(d.decryptionRequestedAt ? { requestedAt: Number(d.decryptionRequestedAt), retryAt: Number(d.decryptionRetryAt) } : null);
+        setArchived(d.summary.archived);
       } catch (e) {
         console.error(e);
       } finally {
@@ -67,23 +137,66 @@ export function Survey() {
       }
     };
     load();
-  }, [publicClient, id]);
+  }, [sp, id, reloadKey]);
+
+  useEffect(() => {
+    if (!sp || !id || !address) return setHasVoted(false);
+    sp.hasVoted(id, address)
+      .then(setHasVoted)
+      .catch((e) => console.error(e));
+  }, [sp, id, address]);
+
+  // while a decryption request is pending, watch for the oracle's callback
+  const awaitingOracle = !!pendingDecryption && !info?.resultsDecrypted;
+  useEffect(() => {
+    if (!sp || !id || !awaitingOracle) return;
+    const timer = setInterval(async () => {
+      try {
+        if ((await sp.getSurvey(id)).summary.resultsDecrypted) {
+          setInfo((prev) => (prev ? { ...prev, resultsDecrypted: true } : prev));
+          setPendingDecryption(null);
+        }
+      } catch (e) {
+        console.error(e);
+      }
+    }, 15000);
+    return () => clearInterval(timer);
+  }, [sp, id, awaitingOracle]);
+
+  // once the oracle has called back, the clear results are stored on-chain and need no decryption
+  const resultsDecrypted = !!info?.resultsDecrypted;
+  useEffect(() => {
+    if (!sp || !id || !resultsDecrypted || questions.length === 0) return;
+    sp.readResults(id)
+      .then((stored) => {
+        setResults(resultsGrid(questions, stored));
+        setInvalidCounts(stored.map((t) => Number(t.invalidCount)));
+        setResultsPreview(false);
+      })
+      .catch((e) => console.error(e));
+  }, [sp, id, resultsDecrypted, questions]);
 
-  const submitVotes = async () => {
+  // gasless: the wallet only signs the ballot and the configured relayer submits it
+  const submitVotes = async (gasless = false) => {
     if (!instance) return alert('Loading Zama');
-    if (!signerPromise) return alert('Connect wallet');
+    if (!signerPromise || !sp) return alert('Connect wallet');
     if (!id || !info) return;
-    if (choices.some((c) => c < 0)) return alert('Select all answers');
+    if (questions.some((q, qi) => !isAnswered(q, choices[qi]))) return alert('Answer all questions');
 
     setSubmitting(true);
     try {
-      const input = instance.createEncryptedInput(CONTRACT_ADDRESS, address);
-      for (const c of choices) input.add32(c);
-      const encrypted = await input.encrypt();
       const signer = await signerPromise;
-      const c = new Contract(CONTRACT_ADDRESS, CONTRACT_ABI, signer);
-      await (await c.submitVotes(id, encrypted.handles, encrypted.inputProof)).wait();
-      alert('Votes submitted');
+      if (gasless) {
+        const txHash = await relayBallot(instance, signer, sp, id, choices, eligibilityMode === 'Merkle' ? proof : []);
+        if (publicClient) await publicClient.waitForTransactionReceipt({ hash: txHash as `0x${string}` });
+      } else {
+        const input = instance.createEncryptedInput(CONTRACT_ADDRESS, address);
+        for (const c of choices) input.add32(c);
+        await sp.vote(id, await input.encrypt(), eligibilityMode === 'Merkle' ? proof : []);
+      }
+      alert(hasVoted ? 'Answers updated' : 'Votes submitted');
+      setHasVoted(true);
+      setMyBallot(null);
     } catch (e) {
       console.error(e);
       alert('Submit failed');
@@ -92,67 +205,177 @@ export function Survey() {
     }
   };
 
+  const viewMyBallot = async () => {
+    if (!instance) return alert('Loading Zama');
+    if (!signerPromise || !address || !sp || !id) return alert('Connect wallet');
+    setLoadingBallot(true);
+    try {
+      const handles = await sp.getBallot(id, address);
+      const clear = await userDecrypt(instance, await signerPromise, [...handles]);
+      setMyBallot(handles.map((h) => Number(clear[h])));
+    } catch (e) {
+      console.error(e);
+      alert('Could not decrypt your ballot');
+    } finally {
+      setLoadingBallot(false);
+    }
+  };
+
+  // proof input is either the JSON itself or a URL serving it
+  const loadProof = async () => {
+    if (!address) return alert('Connect wallet');
+    try {
+      const raw = proofInput.trim();
+      const json = /^(https?:\/\/|\/)/.test(raw) ? await (await fetch(raw)).json() : JSON.parse(raw);
+      const p = extractProof(json, address);
+      if (!p) return alert('No proof for your address in this file');
+      setProof(p);
+    } catch (e) {
+      console.error(e);
+      alert('Could not read proof');
+    }
+  };
+
   const endSurvey = async () => {
-    if (!signerPromise || !id) return;
+    if (!sp || !id) return;
     try {
-      const signer = await signerPromise;
-      const c = new Contract(CONTRACT_ADDRESS, CONTRACT_ABI, signer);
-      await (await c.endSurvey(id)).wait();
+      await sp.endSurvey(id);
+      setInfo((prev) => (prev ? { ...prev, isActive: false } : prev));
+      refetchSchedule();
     } catch (e) {
       console.error(e);
       alert('End failed');
     }
   };
 
+  const cancelSurvey = async () => {
+    if (!sp || !id) return;
+    if (!confirm('Cancel this survey? It closes for good and its results are never revealed.')) return;
+    try {
+      await sp.cancelSurvey(id);
+      setInfo((prev) => (prev ? { ...prev, isActive: false } : prev));
+      setEditing(false);
+      refetchSchedule();
+    } catch (e) {
+      console.error(e);
+      alert('Cancel failed');
+    }
+  };
+
+  const toggleArchived = async () => {
+    if (!sp || !id) return;
+    try {
+      await sp.setArchived(id, !archived);
+      setArchived(!archived);
+    } catch (e) {
+      console.error(e);
+      alert(archived ? 'Unarchive failed' : 'Archive failed');
+    }
+  };
+
   const requestDecryption = async () => {
-    if (!signerPromise || !id) return;
+    if (!sp || !id) return;
     try {
-      const signer = await signerPromise;
-      const c = new Contract(CONTRACT_ADDRESS, CONTRACT_ABI, signer);
-      await (await c.requestDecryption(id)).wait();
-      alert('Decryption requested');
+      await sp.requestDecryption(id);
+      if (IS_LOCAL_NETWORK) {
+        // no oracle watches a local node: have the FHEVM mock answer the request right away
+        await fulfillMockDecryptions();
+        return setReloadKey((k) => k + 1);
+      }
+      const [, requestedAt, retryAt] = await sp.getPendingDecryption(id);
+      setPendingDecryption({ requestedAt: Number(requestedAt), retryAt: Number(retryAt) });
     } catch (e) {
       console.error(e);
       alert('Request failed');
     }
   };
 
-  const publicDecryptResults = async () => {
-    if (!instance || !id || !info || !publicClient) return;
-    setDecrypting(true);
+  // the published results as `safepoll:results --format csv|json|report` writes them; a report adds the decryption
+  // request and transactions and is signed by the connected wallet, for `safepoll:verify-report`
+  const exportResults = async (format: 'csv' | 'json' | 'report') => {
+    if (!publicClient || !sp || !id) return;
+    if (format === 'report' && !signerPromise) return alert('Connect wallet');
+    setExporting(true);
     try {
-      // collect handles for all option counts
-      const handles: string[] = [];
-      for (let qi = 0; qi < Number(info.questionCount); qi++) {
-        const [_, options] = await publicClient.readContract({ address: CONTRACT_ADDRESS, abi: CONTRACT_ABI, functionName: 'getQuestion', args: [id, BigInt(qi)] }) as [string, string[]];
-        for (let oi = 0; oi < options.length; oi++) {
-          const h = await publicClient.readContract({ address: CONTRACT_ADDRESS, abi: CONTRACT_ABI, functionName: 'getEncryptedOptionCount', args: [id, BigInt(qi), BigInt(oi)] }) as `0x${string}`;
-          handles.push(h);
-        }
-      }
-      const map = await instance.publicDecrypt(handles);
-      // rebuild grid
-      const out: number[][] = [];
-      let k = 0;
-      for (let qi = 0; qi < questions.length; qi++) {
-        const row: number[] = [];
-        for (let oi = 0; oi < questions[qi].options.length; oi++, k++) {
-          const h = handles[k] as string;
-          const v = map[h];
-          row.push(Number(v));
-        }
-        out.push(row);
+      const [d, tallies, chainId] = await Promise.all([sp.getSurvey(id), sp.readResults(id), publicClient.getChainId()]);
+      const results = buildResults({ chainId, contract: CONTRACT_ADDRESS }, d, tallies);
+      const name = `survey-${id}-results`;
+      if (format === 'csv') return downloadFile(`${name}.csv`, resultsToCsv(results), 'text/csv');
+      if (format === 'json') return downloadFile(`${name}.json`, `${JSON.stringify(results, null, 2)}\n`, 'application/json');
+
+      // a report names the owner the results were decrypted under, as safepoll:verify-report checks
+      const txs = await sp.findDecryptionTransactions(id);
+      const creator = await sp.ownerAt(id, txs.decryption.callbackBlock);
+      const report = await signReport({ ...results, survey: { ...results.survey, creator } }, txs, await signerPromise!);
+      downloadFile(`${name}-report.json`, `${JSON.stringify(report, null, 2)}\n`, 'application/json');
+    } catch (e) {
+      console.error(e);
+      alert('Export failed');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  // the contract noises a batch of counts per transaction; anyone may drive it to completion
+  const addNoise = async () => {
+    if (!signerPromise || !sp || !id) return alert('Connect wallet');
+    setAddingNoise(true);
+    try {
+      for (;;) {
+        const [, noised, total] = await sp.getNoise(id);
+        setNoise((prev) => ({ ...prev, noised: Number(noised), total: Number(total) }));
+        if (noised >= total) break;
+        await sp.addNoise(id);
       }
-      setResults(out);
     } catch (e) {
       console.error(e);
-      alert('Decrypt failed. Ensure creator requested decryption.');
+      alert('Adding noise failed');
+    } finally {
+      setAddingNoise(false);
+    }
+  };
+
+  // public: after the creator's requestDecryption, until the oracle stores the results; preview: user decryption by the creator or a reviewer
+  const decryptResults = async (mode: 'public' | 'preview') => {
+    if (!instance || !id || !info || !sp) return;
+    if (mode === 'preview' && !signerPromise) return alert('Connect wallet');
+    setDecrypting(true);
+    try {
+      // the handles of every question, all in one call
+      const handles = await sp.getEncryptedHandles(id);
+      const signer = mode === 'preview' ? await signerPromise : undefined;
+      const tallies = await decryptTallies(
+        handles,
+        (qi) => questions[qi].kind === 'numeric',
+        (hs) => (signer ? userDecrypt(instance, signer, hs) : instance.publicDecrypt(hs)),
+      );
+      setResults(resultsGrid(questions, tallies));
+      setInvalidCounts(tallies.map((t) => Number(t.invalidCount)));
+      setResultsPreview(mode === 'preview');
+    } catch (e) {
+      console.error(e);
+      alert(mode === 'public' ? 'Decrypt failed. Ensure creator requested decryption.' : 'Preview failed. Only the creator and reviewers can preview results.');
     } finally {
       setDecrypting(false);
     }
   };
 
   const isCreator = info && address && info.creator.toLowerCase() === address.toLowerCase();
+  // below the turnout threshold, or once cancelled, the tallies are never decryptable
+  const cancelled = schedule?.status === 'Cancelled';
+  const withheld = !!info && !info.isActive && (cancelled || Number(info.totalVotes) < thresholds.minTurnout);
+  // differentially private surveys are only decryptable once every count carries its noise
+  const noisePending = !!info && !info.isActive && !withheld && noise.epsilon > 0 && noise.noised < noise.total;
+  const formatCount = (n: number) => (n === SUPPRESSED ? 'hidden' : String(n));
+  const isReviewer = !!address && reviewers.some((r) => r.toLowerCase() === address.toLowerCase());
+  // admins end the survey and request its decryption like the owner; editing, cancelling and roles stay with the owner
+  const isAdmin = !!isCreator || (!!address && admins.some((a) => a.toLowerCase() === address.toLowerCase()));
+  const isPendingOwner = !!address && pendingOwner.toLowerCase() === address.toLowerCase();
+  const isOpen = schedule?.status === 'Open';
+  // questions stay editable, and the survey cancellable, until the first ballot
+  const canEdit = !!isCreator && !!info?.isActive && info.totalVotes === 0n;
+  // once the deadline has passed anyone may finalize the survey on-chain
+  const canFinalize = !!info?.isActive && !!schedule && schedule.endTime > 0 && now >= schedule.endTime;
 
   return (
     <div style={{ minHeight: '100vh' }}>
@@ -185,9 +408,7 @@ export function Survey() {
                   <div className="flex items-center gap-3">
                     <span className="badge badge-info">#{Number(info.id)}</span>
                     <h1 className="card-title">{info.title}</h1>
-                    <span className={`badge ${info.isActive ? 'badge-success' : 'badge-warning'}`}>
-                      {info.isActive ? 'Active' : 'Ended'}
-                    </span>
+                    <SurveyStatusBadge schedule={schedule} />
                   </div>
                   {info.description && (
                     <p className="card-description mt-2">{info.description}</p>
@@ -197,98 +418,401 @@ export function Survey() {
                 <div className="card-body">
                   <div className="flex items-center gap-6 text-sm text-gray-600">
                     <span>👥 {String(info.totalVotes)} votes</span>
+                    {weighted && <span>⚖️ {power.totalWeight} total weight</span>}
                     <span>📝 {String(info.questionCount)} questions</span>
                     <span>📅 Created {new Date(Number(info.createdAt) * 1000).toLocaleDateString()}</span>
-                    {isCreator && <span className="badge badge-info">You created this survey</span>}
+                    <SurveyCountdown schedule={schedule} now={now} />
+                    {isCreator && <span className="badge badge-info">You own this survey</span>}
+                    {!isCreator && isAdmin && <span className="badge badge-info">You are an admin</span>}
+                    {archived && <span className="badge badge-warning">Archived</span>}
                   </div>
 
-                  {isCreator && (
+                  {weighted && (
+                    <p className="text-sm text-gray-600 mt-3">
+                      Token-weighted by <code>{power.token}</code>: each ballot counts with the voter's delegated votes when
+                      the survey was created{weight !== null && <> — yours counts {weight}</>}.
+                    </p>
+                  )}
+
+                  {(thresholds.minTurnout > 0 || thresholds.kAnonymity > 1) && (
+                    <p className="text-sm text-gray-600 mt-3">
+                      🛡️ To protect voters, results
+                      {thresholds.minTurnout > 0 && <> are only revealed once at least {thresholds.minTurnout} people have voted</>}
+                      {thresholds.minTurnout > 0 && thresholds.kAnonymity > 1 && ', and'}
+                      {thresholds.kAnonymity > 1 && <> hide any count below {thresholds.kAnonymity} (and one more when the hidden ones are all equal)</>}.
+                    </p>
+                  )}
+
+                  {noise.epsilon > 0 && (
+                    <p className="text-sm text-gray-600 mt-3">
+                      🎲 Differentially private (ε = {noise.epsilon} per ballot): every revealed count carries random noise, so
+                      the results change the odds of any one ballot by at most e^ε. Expect small counts to be off by a few.
+                    </p>
+                  )}
+
+                  {awaitingOracle && pendingDecryption && (
+                    <p className="text-sm text-gray-600 mt-3">
+                      ⏳ Decryption pending since {new Date(pendingDecryption.requestedAt * 1000).toLocaleString()}
+                      {isAdmin && now < pendingDecryption.retryAt && (
+                        <> — if the oracle does not answer, you can retry after {new Date(pendingDecryption.retryAt * 1000).toLocaleString()}</>
+                      )}
+                    </p>
+                  )}
+
+                  {isAdmin && (
                     <div className="flex gap-3 mt-4">
+                      {canEdit && (
+                        <button onClick={() => setEditing((v) => !v)} className="btn btn-secondary">
+                          {editing ? 'Close Editor' : 'Edit'}
+                        </button>
+                      )}
                       {info.isActive && (
                         <button onClick={endSurvey} className="btn btn-secondary">
                           End Survey
                         </button>
                       )}
-                      {!info.isActive && (
+                      {canEdit && (
+                        <button onClick={cancelSurvey} className="btn btn-secondary text-red-600 hover:bg-red-50 hover:border-red-300">
+                          Cancel Survey
+                        </button>
+                      )}
+                      {isCreator && (
+                        <button onClick={toggleArchived} className="btn btn-secondary">
+                          {archived ? 'Unarchive' : 'Archive'}
+                        </button>
+                      )}
+                      {isCreator && (
+                        <button onClick={() => setManagingAdmins((v) => !v)} className="btn btn-secondary">
+                          {managingAdmins ? 'Close Admins' : 'Manage Admins'}
+                        </button>
+                      )}
+                      {!info.isActive && !withheld && !noisePending && !info.resultsDecrypted && !pendingDecryption && (
                         <button onClick={requestDecryption} className="btn btn-primary">
                           Request Decryption
                         </button>
                       )}
+                      {awaitingOracle && pendingDecryption && (
+                        <button
+                          onClick={requestDecryption}
+                          disabled={now < pendingDecryption.retryAt}
+                          className="btn btn-primary"
+                        >
+                          Retry Decryption
+                        </button>
+                      )}
+                    </div>
+                  )}
+
+                  {!isAdmin && canFinalize && (
+                    <div className="flex gap-3 mt-4">
+                      <button onClick={endSurvey} className="btn btn-secondary">
+                        Finalize Survey
+                      </button>
                     </div>
                   )}
                 </div>
               </div>
 
+              {((isCreator && managingAdmins) || isPendingOwner) && (
+                <SurveyAdmins
+                  surveyId={info.id}
+                  owner={info.creator}
+                  pendingOwner={pendingOwner}
+                  admins={admins}
+                  viewers={reviewers}
+                  isOwner={!!isCreator}
+                  viewersLocked={!info.isActive && !withheld && !noisePending}
+                  onChanged={() => setReloadKey((k) => k + 1)}
+                />
+              )}
+
+              {canEdit && editing && (
+                <SurveyCreate
+                  edit={{ id: info.id, title: info.title, description: info.description, questions }}
+                  onSaved={() => {
+                    setEditing(false);
+                    setReloadKey((k) => k + 1);
+                  }}
+                />
+              )}
+
               {questions.length > 0 && (
                 <div className="card">
                   <div className="card-header">
                     <h2 className="card-title">
-                      {info.isActive ? 'Submit Your Responses' : 'Survey Questions & Results'}
+                      {isOpen ? 'Submit Your Responses' : 'Survey Questions & Results'}
                     </h2>
                     <p className="card-description">
-                      {info.isActive
+                      {isOpen
                         ? 'Your responses will be encrypted and anonymous.'
-                        : 'This survey has ended. You can view the results if they have been decrypted.'}
+                        : schedule?.status === 'Upcoming'
+                          ? 'This survey is not open for responses yet.'
+                          : cancelled
+                            ? 'This survey was cancelled.'
+                            : 'This survey has ended. You can view the results if they have been decrypted.'}
                     </p>
                   </div>
 
                   <div className="card-body">
                     <div className="flex flex-col gap-6">
+                      {isOpen && eligibilityMode === 'Merkle' && (
+                        <div className="form-group">
+                          <label className="form-label">Eligibility Proof</label>
+                          <div className="flex items-center gap-2">
+                            <input
+                              className="form-input flex-1"
+                              placeholder="Paste your proof JSON or the URL of the survey's proofs file"
+                              value={proofInput}
+                              onChange={(e) => setProofInput(e.target.value)}
+                            />
+                            <button type="button" onClick={loadProof} className="btn btn-secondary">
+                              Load Proof
+                            </button>
+                          </div>
+                        </div>
+                      )}
+                      {isOpen && weighted && weight === 0 && (
+                        <p className="text-sm text-red-600">
+                          Your wallet had no delegated voting power at this survey's snapshot.
+                        </p>
+                      )}
+                      {isOpen && eligible === false && (
+                        <p className="text-sm text-red-600">
+                          {eligibilityMode === 'Merkle' && proof.length === 0
+                            ? 'This survey is restricted. Provide your eligibility proof to vote.'
+                            : 'Your wallet is not eligible to vote in this survey.'}
+                        </p>
+                      )}
+                      {results && resultsPreview && (
+                        <p className="text-sm text-blue-700 bg-blue-50 border border-blue-200 rounded-md p-3">
+                          🔒 Private preview: these tallies were decrypted for your wallet only and have not been revealed
+                          publicly.{isAdmin && !info.resultsDecrypted && ' Request decryption to publish them.'}
+                        </p>
+                      )}
                       {questions.map((q, qi) => (
                         <div key={qi} className="card bg-gray-50 border-gray-200">
                           <div className="card-body">
                             <h3 className="font-semibold text-gray-900 mb-4">
                               Question {qi + 1}: {q.text}
                             </h3>
-                            <div className="flex flex-col gap-3">
-                              {q.options.map((opt, oi) => (
-                                <label
-                                  key={oi}
-                                  className={`flex items-center gap-3 p-3 rounded-md border cursor-pointer transition-all ${
-                                    choices[qi] === oi
-                                      ? 'border-blue-500 bg-blue-50'
-                                      : 'border-gray-200 hover:border-gray-300 hover:bg-white'
-                                  } ${!info.isActive ? 'cursor-default' : ''}`}
-                                >
+                            {q.kind === 'multi' && (
+                              <p className="text-sm text-gray-600 mb-3">
+                                {q.minSelections === q.maxSelections
+                                  ? `Select ${q.maxSelections}`
+                                  : q.minSelections > 0
+                                    ? `Select ${q.minSelections} to ${q.maxSelections}`
+                                    : `Select up to ${q.maxSelections}`}
+                              </p>
+                            )}
+                            {q.kind === 'numeric' && (
+                              <div className="flex flex-col gap-3">
+                                <p className="text-sm text-gray-600">
+                                  Answer from {q.minValue} to {q.maxValue}
+                                </p>
+                                {q.maxValue - q.minValue <= 10 ? (
+                                  <div className="flex flex-wrap gap-2">
+                                    {Array.from({ length: q.maxValue - q.minValue + 1 }, (_, i) => q.minValue + i).map((v) => (
+                                      <button
+                                        key={v}
+                                        type="button"
+                                        disabled={!isOpen}
+                                        onClick={() => setChoices((c) => c.map((x, idx) => (idx === qi ? v : x)))}
+                                        className={`btn ${choices[qi] === v ? 'btn-primary' : 'btn-secondary'} w-10 h-10 p-0`}
+                                      >
+                                        {v}
+                                      </button>
+                                    ))}
+                                  </div>
+                                ) : (
                                   <input
-                                    type="radio"
-                                    name={`q-${qi}`}
-                                    checked={choices[qi] === oi}
-                                    onChange={() =>
-                                      setChoices((c) =>
-                                        c.map((v, idx) => (idx === qi ? oi : v))
-                                      )
-                                    }
-                                    disabled={!info.isActive}
-                                    className="w-4 h-4 text-blue-600"
+                                    type="number"
+                                    className="form-input w-32"
+                                    min={q.minValue}
+                                    max={q.maxValue}
+                                    disabled={!isOpen}
+                                    value={choices[qi] >= 0 ? choices[qi] : ''}
+                                    onChange={(e) => {
+                                      const v = e.target.value === '' ? -1 : Number(e.target.value);
+                                      setChoices((c) => c.map((x, idx) => (idx === qi ? v : x)));
+                                    }}
                                   />
-                                  <span className="flex-1">{opt}</span>
-                                  {results && (
-                                    <span className="badge badge-info">
-                                      {results[qi][oi]} votes
-                                    </span>
-                                  )}
-                                </label>
-                              ))}
+                                )}
+                                {results && info.totalVotes > 0n && (
+                                  <NumericStats
+                                    sum={results[qi][0]}
+                                    sumSquares={results[qi][1]}
+                                    count={Number(info.totalVotes)}
+                                    weight={weighted ? power.totalWeight : undefined}
+                                  />
+                                )}
+                              </div>
+                            )}
+                            {q.kind === 'ranked' && (
+                              <div className="flex flex-col gap-3">
+                                <p className="text-sm text-gray-600">Drag the options into your order of preference, best first</p>
+                                <RankedBallot
+                                  options={q.options}
+                                  ranking={indexToRanking(Math.max(choices[qi] ?? 0, 0), q.options.length)}
+                                  disabled={!isOpen}
+                                  onChange={(ranking) =>
+                                    setChoices((c) => c.map((x, idx) => (idx === qi ? rankingToIndex(ranking) : x)))
+                                  }
+                                />
+                                {results && (
+                                  <PairwiseResults options={q.options} pairCounts={results[qi]} />
+                                )}
+                              </div>
+                            )}
+                            <div className="flex flex-col gap-3">
+                              {q.kind !== 'ranked' && q.options.map((opt, oi) => {
+                                const multi = q.kind === 'multi';
+                                const selected = multi ? ((choices[qi] >>> oi) & 1) === 1 : choices[qi] === oi;
+                                return (
+                                  <label
+                                    key={oi}
+                                    className={`flex items-center gap-3 p-3 rounded-md border cursor-pointer transition-all ${
+                                      selected
+                                        ? 'border-blue-500 bg-blue-50'
+                                        : 'border-gray-200 hover:border-gray-300 hover:bg-white'
+                                    } ${!isOpen ? 'cursor-default' : ''}`}
+                                  >
+                                    <input
+                                      type={multi ? 'checkbox' : 'radio'}
+                                      name={`q-${qi}`}
+                                      checked={selected}
+                                      onChange={() =>
+                                        setChoices((c) =>
+                                          c.map((v, idx) => (idx === qi ? (multi ? (v ^ (1 << oi)) >>> 0 : oi) : v))
+                                        )
+                                      }
+                                      disabled={!isOpen}
+                                      className="w-4 h-4 text-blue-600"
+                                    />
+                                    <span className="flex-1">{opt}</span>
+                                    {results && (
+                                      <span className="badge badge-info">
+                                        {formatCount(results[qi][oi])} {weighted ? 'weight' : 'votes'}
+                                      </span>
+                                    )}
+                                  </label>
+                                );
+                              })}
                             </div>
+                            {results && q.kind !== 'numeric' && (
+                              <p className="text-sm text-gray-600 mt-3">
+                                ⚠️ {formatCount(invalidCounts[qi] ?? 0)} invalid {invalidCounts[qi] === 1 ? 'ballot' : 'ballots'} (out-of-range answer, counted for no option)
+                              </p>
+                            )}
                           </div>
                         </div>
                       ))}
 
-                      <div className="flex justify-end gap-3">
-                        {info.isActive && (
+                      {myBallot && (
+                        <div className="card bg-blue-50 border-blue-200">
+                          <div className="card-body">
+                            <h3 className="font-semibold text-gray-900 mb-2">🔐 Your recorded ballot</h3>
+                            <p className="text-sm text-gray-600 mb-3">Decrypted for your wallet only; nobody else can read it.</p>
+                            <ul className="flex flex-col gap-1 text-sm">
+                              {questions.map((q, qi) => (
+                                <li key={qi}>
+                                  <span className="font-medium">Q{qi + 1}:</span> {describeAnswer(q, myBallot[qi])}
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
+                        </div>
+                      )}
+
+                      <div className="flex justify-end items-center gap-3">
+                        {isOpen && hasVoted && (
+                          <span className="text-sm text-gray-600">
+                            {revotable ? 'You have voted — update your answers' : 'You have voted'}
+                          </span>
+                        )}
+                        {isOpen && eligible === true && weight !== 0 && (!hasVoted || revotable) && (
                           <button
-                            onClick={submitVotes}
-                            disabled={submitting || choices.some(c => c < 0)}
+                            onClick={() => submitVotes()}
+                            disabled={submitting || questions.some((q, qi) => !isAnswered(q, choices[qi]))}
                             className="btn btn-primary"
                           >
-                            {submitting ? 'Submitting...' : 'Submit Votes'}
+                            {submitting ? 'Submitting...' : hasVoted ? 'Update Answers' : 'Submit Votes'}
+                          </button>
+                        )}
+                        {RELAYER_URL && isOpen && eligible === true && weight !== 0 && (!hasVoted || revotable) && (
+                          <button
+                            onClick={() => submitVotes(true)}
+                            disabled={submitting || questions.some((q, qi) => !isAnswered(q, choices[qi]))}
+                            className="btn btn-secondary"
+                            title="Sign your encrypted ballot; the relayer submits it and pays the gas"
+                          >
+                            Vote Without Gas
                           </button>
                         )}
 
-                        {!info.isActive && (
+                        {hasVoted && (
+                          <button onClick={viewMyBallot} disabled={loadingBallot} className="btn btn-secondary">
+                            {loadingBallot ? 'Decrypting...' : 'View My Ballot'}
+                          </button>
+                        )}
+
+                        {withheld && (
+                          <span className="text-sm text-gray-600">
+                            {cancelled ? (
+                              'This survey was cancelled by its creator; its results will not be revealed.'
+                            ) : (
+                              <>
+                                Results are withheld: only {String(info.totalVotes)} of the {thresholds.minTurnout} responses
+                                needed to reveal them without exposing individual voters.
+                              </>
+                            )}
+                          </span>
+                        )}
+
+                        {noisePending && (
+                          <button onClick={addNoise} disabled={addingNoise} className="btn btn-secondary">
+                            {addingNoise ? 'Adding noise...' : `Add Noise (${noise.noised}/${noise.total} counts)`}
+                          </button>
+                        )}
+
+                        {!info.isActive && !withheld && !noisePending && (isCreator || isReviewer) && (
+                          <button
+                            onClick={() => decryptResults('preview')}
+                            disabled={decrypting}
+                            className="btn btn-secondary"
+                          >
+                            {decrypting ? 'Decrypting...' : 'Preview Results'}
+                          </button>
+                        )}
+
+                        {results && !resultsPreview && (
+                          <button
+                            onClick={() => {
+                              window.history.pushState(null, '', `/survey/${id}/results`);
+                              window.dispatchEvent(new PopStateEvent('popstate'));
+                            }}
+                            className="btn btn-primary"
+                          >
+                            📊 Results Page
+                          </button>
+                        )}
+
+                        {info.resultsDecrypted && (
+                          <>
+                            <button onClick={() => exportResults('csv')} disabled={exporting} className="btn btn-secondary">
+                              Export CSV
+                            </button>
+                            <button onClick={() => exportResults('json')} disabled={exporting} className="btn btn-secondary">
+                              Export JSON
+                            </button>
+                            <button onClick={() => exportResults('report')} disabled={exporting} className="btn btn-secondary">
+                              {exporting ? 'Exporting...' : 'Download Signed Report'}
+                            </button>
+                          </>
+                        )}
+
+                        {!info.isActive && !withheld && !noisePending && !info.resultsDecrypted && (
                           <button
-                            onClick={publicDecryptResults}
+                            onClick={() => decryptResults('public')}
                             disabled={decrypting}
                             className="btn btn-primary"
                           >
@@ -316,3 +840,120 @@ export function Survey() {
   );
 }
 
+// Numeric questions show their sum and sum of squares, the others their option (or pair) counts
+function resultsGrid(questions: SurveyQuestion[], tallies: readonly Tally[]): number[][] {
+  return tallies.map((t, qi) => (questions[qi]?.kind === 'numeric' ? [Number(t.sum), Number(t.sumSquares)] : t.optionCounts.map(Number)));
+}
+
+// Human-readable form of a decrypted answer, flagging values the contract counted as invalid
+function describeAnswer(q: SurveyQuestion, value: number): string {
+  const name = (oi: number) => q.options[oi] ?? `#${oi} (out of range)`;
+  if (q.kind === 'numeric') return String(value);
+  if (q.kind === 'ranked') {
+    return value < factorial(q.options.length)
+      ? indexToRanking(value, q.options.length).map(name).join(' > ')
+      : `ranking #${value} (out of range)`;
+  }
+  if (q.kind !== 'multi') return name(value);
+  const picked = q.options.map((_, oi) => oi).filter((oi) => ((value >>> oi) & 1) === 1);
+  return picked.length > 0 ? picked.map(name).join(', ') : '(none)';
+}
+
+// Drag-to-rank list of options; the up/down buttons do the same for keyboard users
+function RankedBallot({ options, ranking, disabled, onChange }: {
+  options: string[]; ranking: number[]; disabled: boolean; onChange: (ranking: number[]) => void;
+}) {
+  const [dragging, setDragging] = useState<number | null>(null);
+  const move = (from: number, to: number) => {
+    if (from === to || to < 0 || to >= ranking.length) return;
+    const next = [...ranking];
+    next.splice(to, 0, next.splice(from, 1)[0]);
+    onChange(next);
+  };
+  return (
+    <ol className="flex flex-col gap-2">
+      {ranking.map((oi, pos) => (
+        <li
+          key={oi}
+          draggable={!disabled}
+          onDragStart={() => setDragging(pos)}
+          onDragOver={(e) => e.preventDefault()}
+          onDrop={() => {
+            if (dragging !== null) move(dragging, pos);
+            setDragging(null);
+          }}
+          onDragEnd={() => setDragging(null)}
+          className={`flex items-center gap-3 p-3 rounded-md border bg-white ${
+            dragging === pos ? 'border-blue-500 bg-blue-50' : 'border-gray-200'
+          } ${disabled ? 'cursor-default' : 'cursor-move'}`}
+        >
+          <span className="badge badge-info">{pos + 1}</span>
+          <span className="flex-1">{options[oi]}</span>
+          {!disabled && (
+            <span className="flex gap-1">
+              <button type="button" className="btn btn-secondary px-2 py-1" disabled={pos === 0} onClick={() => move(pos, pos - 1)}>↑</button>
+              <button type="button" className="btn btn-secondary px-2 py-1" disabled={pos === ranking.length - 1} onClick={() => move(pos, pos + 1)}>↓</button>
+            </span>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+// The decrypted head-to-head counts of a ranked question, with the Borda points and the Borda and Condorcet winners
+// they add up to; counts suppressed by the k-anonymity floor stay hidden, and so does anything built on them
+function PairwiseResults({ options, pairCounts }: { options: string[]; pairCounts: number[] }) {
+  const matrix = pairwiseMatrix(pairCounts.map((c) => (c === SUPPRESSED ? null : c)), options.length);
+  const scores = bordaScores(matrix);
+  const borda = bordaWinner(matrix);
+  const condorcet = condorcetWinner(matrix);
+  const label = (count: number | null) => (count === null ? 'hidden' : count);
+  return (
+    <div className="flex flex-col gap-2 text-sm">
+      <table className="text-left">
+        <thead>
+          <tr>
+            <th className="pr-3 text-gray-600">preferred to →</th>
+            {options.map((o, b) => <th key={b} className="pr-3">{o}</th>)}
+          </tr>
+        </thead>
+        <tbody>
+          {options.map((o, a) => (
+            <tr key={a}>
+              <th className="pr-3">{o}</th>
+              {options.map((_, b) => <td key={b} className="pr-3">{a === b ? '–' : label(matrix[a][b])}</td>)}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-semibold">Borda points</span>
+        {options.map((o, oi) => (
+          <span key={oi} className="badge badge-info">
+            {o}: {label(scores[oi])}
+          </span>
+        ))}
+      </div>
+      <p className="text-gray-600">
+        Borda winner: {borda === undefined ? 'none (tied or hidden)' : options[borda]} · Condorcet winner:{' '}
+        {condorcet === undefined ? 'none (no option beats every other head-to-head)' : options[condorcet]}
+      </p>
+    </div>
+  );
+}
+
+// Mean and (population) variance of a numeric question from its decrypted sum and sum of squares;
+// on weighted surveys each answer counts with its ballot's weight
+function NumericStats({ sum, sumSquares, count, weight }: { sum: number; sumSquares: number; count: number; weight?: number }) {
+  const n = weight ?? count;
+  const mean = sum / n;
+  const variance = Math.max(0, sumSquares / n - mean * mean);
+  return (
+    <div className="flex items-center gap-3 text-sm">
+      <span className="badge badge-info">Mean {mean.toFixed(2)}</span>
+      <span className="badge badge-info">Variance {variance.toFixed(2)}</span>
+      <span className="text-gray-600">{count} responses{weight !== undefined && ` (weight ${weight})`}</span>
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+import { useState } from 'react';
+import { ZeroAddress, isAddress } from 'ethers';
+import type { Address } from 'viem';
+import { ROLES, type Role } from '../../../sdk';
+import { useSafePoll } from '../hooks/useSafePoll';
+
+type Props = {
+  surveyId: bigint;
+  owner: string;
+  pendingOwner: string;
+  admins: string[];
+  viewers: string[];
+  isOwner: boolean;
+  // viewers are granted the final tallies when the survey ends, and that access cannot be taken back
+  viewersLocked: boolean;
+  onChanged: () => void;
+};
+
+// "Manage admins": the owner names admins (end and decrypt) and viewers (private results), and hands the survey
+// over in two steps; the proposed owner accepts here too
+export function SurveyAdmins({ surveyId, owner, pendingOwner, admins, viewers, isOwner, viewersLocked, onChanged }: Props) {
+  const sp = useSafePoll();
+  const [account, setAccount] = useState('');
+  const [role, setRole] = useState<Role>('admin');
+  const [newOwner, setNewOwner] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const send = async (action: (client: NonNullable<typeof sp>) => Promise<unknown>, failure: string) => {
+    if (!sp) return alert('Connect wallet');
+    setBusy(true);
+    try {
+      await action(sp);
+      onChanged();
+      return true;
+    } catch (e) {
+      console.error(e);
+      alert(failure);
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const grant = async () => {
+    if (!isAddress(account)) return alert('Enter a valid address');
+    if (await send((c) => c.grantRole(surveyId, ROLES.indexOf(role), account as Address), 'Adding the role failed')) setAccount('');
+  };
+
+  const revoke = (r: Role, member: string) => send((c) => c.revokeRole(surveyId, ROLES.indexOf(r), member as Address), 'Removing the role failed');
+
+  const transfer = async (to: string) => {
+    if (to !== ZeroAddress && !isAddress(to)) return alert('Enter a valid address');
+    if (await send((c) => c.transferOwnership(surveyId, to as Address), 'Transfer failed')) setNewOwner('');
+  };
+
+  const accept = () => send((c) => c.acceptOwnership(surveyId), 'Accepting ownership failed');
+
+  const memberList = (r: Role, members: string[]) => (
+    <div className="form-group">
+      <label className="form-label">{r === 'admin' ? 'Admins — can end the survey and request decryption' : 'Viewers — can preview the results privately'}</label>
+      {members.length === 0 ? (
+        <p className="text-sm text-gray-500">None</p>
+      ) : (
+        <div className="flex flex-col gap-2">
+          {members.map((m) => (
+            <div key={m} className="flex items-center justify-between gap-2 text-sm">
+              <code>{m}</code>
+              {isOwner && (r === 'admin' || !viewersLocked) && (
+                <button type="button" onClick={() => revoke(r, m)} disabled={busy} className="btn btn-secondary text-red-600 hover:bg-red-50">
+                  Remove
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="card">
+      <div className="card-header">
+        <h2 className="card-title">Manage Admins</h2>
+        <p className="card-description">
+          Owner: <code>{owner}</code>
+          {pendingOwner !== ZeroAddress && (
+            <> — transfer to <code>{pendingOwner}</code> pending until accepted</>
+          )}
+        </p>
+      </div>
+
+      <div className="card-body flex flex-col gap-6">
+        {memberList('admin', admins)}
+        {memberList('viewer', viewers)}
+        {viewersLocked && (
+          <p className="text-xs text-gray-500">
+            The final tallies have been granted to the viewers; a viewer added now is granted them right away.
+          </p>
+        )}
+
+        {isOwner && (
+          <div className="form-group">
+            <label className="form-label">Add a Role</label>
+            <div className="flex items-center gap-2">
+              <input
+                className="form-input flex-1"
+                placeholder="0x… address"
+                value={account}
+                onChange={(e) => setAccount(e.target.value)}
+              />
+              <select className="form-input w-32" value={role} onChange={(e) => setRole(e.target.value as Role)}>
+                <option value="admin">Admin</option>
+                <option value="viewer">Viewer</option>
+              </select>
+              <button type="button" onClick={grant} disabled={busy} className="btn btn-primary">
+                Add
+              </button>
+            </div>
+          </div>
+        )}
+
+        {isOwner && (
+          <div className="form-group">
+            <label className="form-label">Transfer Ownership</label>
+            <div className="flex items-center gap-2">
+              <input
+                className="form-input flex-1"
+                placeholder="0x… new owner"
+                value={newOwner}
+                onChange={(e) => setNewOwner(e.target.value)}
+              />
+              <button type="button" onClick={() => transfer(newOwner)} disabled={busy} className="btn btn-secondary">
+                Propose
+              </button>
+              {pendingOwner !== ZeroAddress && (
+                <button type="button" onClick={() => transfer(ZeroAddress)} disabled={busy} className="btn btn-secondary">
+                  Cancel Transfer
+                </button>
+              )}
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              Nothing changes hands until the new owner accepts from their own wallet.
+            </p>
+          </div>
+        )}
+
+        {!isOwner && (
+          <button type="button" onClick={accept} disabled={busy} className="btn btn-primary">
+            Accept Ownership
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
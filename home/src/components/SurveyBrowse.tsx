@@ -1,59 +1,195 @@
-import { useEffect, useState } from 'react';
-import { useReadContract, usePublicClient } from 'wagmi';
-import { CONTRACT_ADDRESS, CONTRACT_ABI } from '../config/contracts';
+import { useEffect, useMemo, useState } from 'react';
+import { useAccount, useReadContract } from 'wagmi';
+import type { Address } from 'viem';
+import { SURVEY_STATUSES, type SafePollClient, type SurveySummary } from '../../../sdk';
+import { CONTRACT_ADDRESS, CONTRACT_ABI, INDEXER_URL } from '../config/contracts';
+import { nextBoundary, useNow, type SurveySchedule } from '../hooks/useSurveySchedule';
+import { useBrowseFilters, type BrowseFilters, type SortOrder, type StatusFilter } from '../hooks/useBrowseFilters';
+import { useSafePoll } from '../hooks/useSafePoll';
+import { fetchSurveyIds } from '../utils/indexer';
+import { SurveyCountdown, SurveyStatusBadge } from './SurveyStatus';
 
-type SurveyInfo = {
-  id: bigint; title: string; description: string; creator: `0x${string}`; isActive: boolean; resultsDecrypted: boolean; questionCount: bigint; totalVotes: bigint; createdAt: bigint;
-};
+// a survey as listed by SafePollLens.getSurveys, with its schedule
+type ListedSurvey = SurveySummary & { schedule: SurveySchedule };
+
+const PAGE_SIZE = 10;
+// SafePollLens.MAX_PAGE_SIZE: surveys read per call while a filtered view fills its page
+const LENS_BATCH = 100;
+// how long the search box waits for typing to pause before reading the chain again
+const SEARCH_DELAY_MS = 300;
+
+const toListed = (d: SurveySummary): ListedSurvey => ({
+  ...d,
+  schedule: { startTime: Number(d.startTime), endTime: Number(d.endTime), status: SURVEY_STATUSES[d.status] ?? 'Closed' },
+});
+
+// every word of the search appears in the title or description
+function matchesSearch(s: ListedSurvey, q: string): boolean {
+  const text = `${s.title} ${s.description}`.toLowerCase();
+  return q.toLowerCase().split(/\s+/).filter(Boolean).every((word) => text.includes(word));
+}
+
+function matchesStatus(s: ListedSurvey, status: StatusFilter): boolean {
+  if (status === 'active') return s.schedule.status === 'Open' || s.schedule.status === 'Upcoming';
+  if (status === 'ended') return s.schedule.status === 'Closed' || s.schedule.status === 'Cancelled';
+  if (status === 'decrypted') return s.resultsDecrypted;
+  return true;
+}
+
+// ending soonest: open surveys with a deadline first, by deadline; the rest after, newest first
+const endingKey = (s: ListedSurvey) => (s.schedule.status === 'Open' && s.schedule.endTime ? s.schedule.endTime : Infinity);
+
+function compareSurveys(sort: SortOrder) {
+  const newest = (a: ListedSurvey, b: ListedSurvey) => (a.id === b.id ? 0 : a.id > b.id ? -1 : 1);
+  if (sort === 'votes') return (a: ListedSurvey, b: ListedSurvey) => Number(b.totalVotes - a.totalVotes) || newest(a, b);
+  if (sort === 'ending') return (a: ListedSurvey, b: ListedSurvey) => endingKey(a) - endingKey(b) || newest(a, b);
+  return newest;
+}
+
+// What a view lists: the account's own surveys, or those it voted in, narrowed by `keep`
+type SurveyQuery = { creator?: Address; voter?: Address; keep: (s: ListedSurvey) => boolean };
+
+// Surveys newest first, read `size` at a time from `cursor` on; `after(i)` is the cursor right after surveys[i], and
+// `next` the one after the batch, 0 at the end. The indexer's cursors are offsets into its results, the lens's are
+// survey ids (from this id down)
+type Batch = { surveys: readonly SurveySummary[]; after: (i: number) => bigint; next: bigint };
+
+async function indexerBatch(sp: SafePollClient, query: SurveyQuery, cursor: bigint, size: number): Promise<Batch> {
+  const offset = Number(cursor);
+  const { total, ids } = await fetchSurveyIds(query, size, offset);
+  const surveys = ids.length === 0 ? [] : await sp.getSurveysByIds(ids);
+  const at = (n: number) => (n < total ? BigInt(n) : 0n);
+  return { surveys, after: (i) => at(offset + i + 1), next: ids.length === 0 ? 0n : at(offset + ids.length) };
+}
+
+// the lens knows who created a survey, and whether an account voted in a batch of them
+async function lensBatch(sp: SafePollClient, query: SurveyQuery, cursor: bigint, size: number): Promise<Batch> {
+  const page = await sp.listSurveys({ cursor, limit: size });
+  let surveys = page.surveys.filter((s) => !query.creator || s.creator.toLowerCase() === query.creator.toLowerCase());
+  if (query.voter && surveys.length > 0) {
+    const voted = await sp.getVoted(query.voter, surveys.map((s) => s.id));
+    surveys = surveys.filter((_, i) => voted[i]);
+  }
+  return { surveys, after: (i) => surveys[i].id - 1n, next: page.next };
+}
+
+// Up to `limit` unarchived surveys matching a query, newest first, from `cursor` on: batch after batch until the page
+// is full, through the indexer when one is configured and the query is about an account. `next` is the cursor of the
+// following page, 0 after the last
+async function readSurveys(sp: SafePollClient, query: SurveyQuery, cursor: bigint, limit: number) {
+  const size = Number.isFinite(limit) ? Math.min(Math.max(limit, PAGE_SIZE), LENS_BATCH) : LENS_BATCH;
+  const indexed = INDEXER_URL && (query.creator || query.voter);
+  const found: ListedSurvey[] = [];
+  for (let at = cursor; ; ) {
+    const batch = await (indexed ? indexerBatch : lensBatch)(sp, query, at, size);
+    for (const [i, d] of batch.surveys.entries()) {
+      const s = toListed(d);
+      if (d.archived || !query.keep(s)) continue;
+      found.push(s);
+      if (found.length === limit) return { surveys: found, next: batch.after(i) };
+    }
+    if (batch.next === 0n) return { surveys: found, next: 0n };
+    at = batch.next;
+  }
+}
 
 export function SurveyBrowse() {
-  const publicClient = usePublicClient();
+  const sp = useSafePoll();
+  const { address } = useAccount();
+  const { filters, update, reset, isDefault } = useBrowseFilters();
 
-  function normalizeSurvey(d: any): SurveyInfo {
+  const { data: totalSurveys } = useReadContract({ address: CONTRACT_ADDRESS, abi: CONTRACT_ABI, functionName: 'getTotalSurveys' });
+  const [surveys, setSurveys] = useState<ListedSurvey[]>([]);
+  // cursors of the pages visited so far, newest first (0 = from the latest survey, or the indexer's offset); the
+  // last one is shown
+  const [cursors, setCursors] = useState<bigint[]>([0n]);
+  const [nextCursor, setNextCursor] = useState(0n);
+  // an order other than newest first ranks every match, so those views read them all and page through them here
+  const sorted = filters.sort !== 'newest';
+  const [matching, setMatching] = useState<ListedSurvey[]>([]);
+  const [page, setPage] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const cursor = cursors[cursors.length - 1];
+  const now = useNow();
+
+  const [search, setSearch] = useState(filters.q);
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(filters.q), SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [filters.q]);
+
+  // null while the account's own surveys are asked for and no wallet is connected
+  const query = useMemo((): SurveyQuery | null => {
+    if ((filters.mine || filters.voted) && !address) return null;
     return {
-      id: BigInt(d?.id ?? d?.[0] ?? 0),
-      title: String(d?.title ?? d?.[1] ?? ''),
-      description: String(d?.description ?? d?.[2] ?? ''),
-      creator: (d?.creator ?? d?.[3] ?? '0x0000000000000000000000000000000000000000') as `0x${string}`,
-      isActive: Boolean(d?.isActive ?? d?.[4] ?? false),
-      resultsDecrypted: Boolean(d?.resultsDecrypted ?? d?.[5] ?? false),
-      questionCount: BigInt(d?.questionCount ?? d?.[6] ?? 0),
-      totalVotes: BigInt(d?.totalVotes ?? d?.[7] ?? 0),
-      createdAt: BigInt(d?.createdAt ?? d?.[8] ?? 0),
+      creator: filters.mine ? address : undefined,
+      voter: filters.voted ? address : undefined,
+      keep: (s) => matchesSearch(s, search) && matchesStatus(s, filters.status),
     };
-  }
+  }, [filters.mine, filters.voted, filters.status, search, address]);
 
-  const { data: totalSurveys } = useReadContract({ address: CONTRACT_ADDRESS, abi: CONTRACT_ABI, functionName: 'getTotalSurveys' });
-  const [allSurveys, setAllSurveys] = useState<SurveyInfo[]>([]);
+  const visible = useMemo(() => [...matching].sort(compareSurveys(filters.sort)), [matching, filters.sort]);
+  const shown = sorted ? visible.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE) : surveys;
 
-  // removed unused stub loader
+  // bumped when a listed survey opens or closes, so its status badge stays current
+  const [reloadKey, setReloadKey] = useState(0);
+  const boundary = Math.min(...shown.map((s) => nextBoundary(s.schedule) || Infinity));
+  useEffect(() => {
+    if (Number.isFinite(boundary) && now >= boundary) setReloadKey((k) => k + 1);
+  }, [boundary, now]);
 
-  // Load all surveys when totalSurveys updates
+  // newest first: the page at `cursor`, read on until it is full; archived surveys stay readable by id but are not
+  // listed
   useEffect(() => {
+    if (sorted || !sp) return;
+    if (!query) {
+      setSurveys([]);
+      setNextCursor(0n);
+      return;
+    }
+    const loadPage = async () => {
+      setLoading(true);
+      try {
+        const { surveys: page, next } = await readSurveys(sp, query, cursor, PAGE_SIZE);
+        setSurveys(page);
+        setNextCursor(next);
+      } catch (e) {
+        console.error(e);
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadPage();
+  }, [sorted, query, totalSurveys, sp, cursor, reloadKey]);
+
+  // by votes or deadline: every matching survey, sorted and paged here
+  useEffect(() => {
+    if (!sorted || !sp) return;
+    if (!query) return setMatching([]);
     const loadAll = async () => {
+      setLoading(true);
       try {
-        const total = Number(totalSurveys || 0n);
-        if (!total) { setAllSurveys([]); return; }
-        if (!publicClient) return;
-        const list: SurveyInfo[] = [] as any;
-        for (let i = 1; i <= total; i++) {
-          const data = await publicClient.readContract({
-            address: CONTRACT_ADDRESS,
-            abi: CONTRACT_ABI,
-            functionName: 'getSurveyInfo',
-            args: [BigInt(i)],
-          });
-          list.push(normalizeSurvey(data));
-        }
-        setAllSurveys(list);
+        setMatching((await readSurveys(sp, query, 0n, Infinity)).surveys);
       } catch (e) {
         console.error(e);
+      } finally {
+        setLoading(false);
       }
     };
     loadAll();
-  }, [totalSurveys, publicClient]);
+  }, [sorted, query, totalSurveys, sp, reloadKey]);
 
-  // Detail/Actions moved to dedicated Survey page
+  const changeFilters = (patch: Partial<BrowseFilters>) => {
+    update(patch);
+    setCursors([0n]);
+    setPage(0);
+  };
+
+  const pageCount = Math.max(1, Math.ceil(visible.length / PAGE_SIZE));
+  const hasNewer = sorted ? page > 0 : cursors.length > 1;
+  const hasOlder = sorted ? page + 1 < pageCount : nextCursor !== 0n;
+  const newer = () => (sorted ? setPage((p) => p - 1) : setCursors((c) => c.slice(0, -1)));
+  const older = () => (sorted ? setPage((p) => p + 1) : setCursors((c) => [...c, nextCursor]));
 
   return (
     <div className="card">
@@ -64,48 +200,113 @@ export function SurveyBrowse() {
         </p>
         <div className="flex justify-between items-center mt-4">
           <span className="text-sm text-gray-600">
-            Total Surveys: {String(totalSurveys || 0n)}
+            {isDefault ? `Total Surveys: ${String(totalSurveys || 0n)}` : sorted ? `Matching Surveys: ${visible.length}` : 'Matching Surveys'}
           </span>
+          <span className="text-sm text-gray-600">Page {sorted ? `${page + 1} of ${pageCount}` : cursors.length}</span>
+        </div>
+
+        <div className="flex flex-col gap-3 mt-4">
+          <input
+            className="form-input"
+            type="search"
+            placeholder="Search titles and descriptions"
+            value={filters.q}
+            onChange={(e) => changeFilters({ q: e.target.value })}
+          />
+          <div className="flex items-center gap-3 text-sm">
+            <select className="form-input" value={filters.status} onChange={(e) => changeFilters({ status: e.target.value as StatusFilter })}>
+              <option value="all">All statuses</option>
+              <option value="active">Active</option>
+              <option value="ended">Ended</option>
+              <option value="decrypted">Decrypted</option>
+            </select>
+            <select className="form-input" value={filters.sort} onChange={(e) => changeFilters({ sort: e.target.value as SortOrder })}>
+              <option value="newest">Newest</option>
+              <option value="votes">Most votes</option>
+              <option value="ending">Ending soonest</option>
+            </select>
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={filters.mine} onChange={(e) => changeFilters({ mine: e.target.checked })} />
+              Created by me
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={filters.voted} onChange={(e) => changeFilters({ voted: e.target.checked })} />
+              I've voted
+            </label>
+            {!isDefault && (
+              <button type="button" className="btn btn-secondary" onClick={() => { reset(); setCursors([0n]); setPage(0); }}>
+                Clear
+              </button>
+            )}
+          </div>
+          {(filters.mine || filters.voted) && !address && (
+            <p className="text-xs text-gray-500">Connect your wallet to see the surveys you created or voted in.</p>
+          )}
         </div>
       </div>
 
       <div className="card-body">
-        {allSurveys.length === 0 ? (
+        {shown.length === 0 && !loading ? (
           <div className="text-center py-8">
             <div className="text-gray-400 text-6xl mb-4">📊</div>
-            <h3 className="text-lg font-semibold text-gray-700 mb-2">No surveys available</h3>
-            <p className="text-gray-600">Be the first to create a survey!</p>
+            {isDefault ? (
+              <>
+                <h3 className="text-lg font-semibold text-gray-700 mb-2">No surveys available</h3>
+                <p className="text-gray-600">Be the first to create a survey!</p>
+              </>
+            ) : (
+              <h3 className="text-lg font-semibold text-gray-700 mb-2">No surveys match these filters</h3>
+            )}
           </div>
         ) : (
           <div className="flex flex-col gap-4">
-            {allSurveys.map((s, idx) => (
-              <div key={idx} className="card bg-gray-50 border-gray-100">
-                <div className="card-body">
-                  <div className="flex items-center justify-between">
-                    <div className="flex-1">
-                      <div className="flex items-center gap-3 mb-2">
-                        <span className="badge badge-info">#{Number(s.id)}</span>
-                        <h3 className="font-semibold text-gray-900">{s.title}</h3>
-                        <span className={`badge ${s.isActive ? 'badge-success' : 'badge-warning'}`}>
-                          {s.isActive ? 'Active' : 'Ended'}
-                        </span>
-                      </div>
-                      <p className="text-gray-600 text-sm mb-3">{s.description}</p>
-                      <div className="flex items-center gap-4 text-xs text-gray-500">
-                        <span>👥 {String(s.totalVotes)} votes</span>
-                        <span>📝 {String(s.questionCount)} questions</span>
-                        <span>📅 Created {new Date(Number(s.createdAt) * 1000).toLocaleDateString()}</span>
-                      </div>
-                    </div>
-                    <div className="ml-4">
-                      <button className="btn btn-primary" onClick={() => { const id = String(Number(s.id)); window.history.pushState(null, '', `/survey/${id}`); window.dispatchEvent(new PopStateEvent('popstate')); }}>Participate</button>
-                    </div>
-                  </div>
-                </div>
-              </div>
+            {shown.map((s) => (
+              <SurveyCard key={String(s.id)} survey={s} now={now} />
             ))}
           </div>
         )}
+
+        {(hasNewer || hasOlder) && (
+          <div className="flex justify-between items-center mt-4">
+            <button type="button" className="btn btn-secondary" disabled={loading || !hasNewer} onClick={newer}>
+              ← {filters.sort === 'newest' ? 'Newer' : 'Previous'}
+            </button>
+            <button type="button" className="btn btn-secondary" disabled={loading || !hasOlder} onClick={older}>
+              {filters.sort === 'newest' ? 'Older' : 'Next'} →
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function SurveyCard({ survey: s, now }: { survey: ListedSurvey; now: number }) {
+  const { schedule } = s;
+
+  return (
+    <div className="card bg-gray-50 border-gray-100">
+      <div className="card-body">
+        <div className="flex items-center justify-between">
+          <div className="flex-1">
+            <div className="flex items-center gap-3 mb-2">
+              <span className="badge badge-info">#{Number(s.id)}</span>
+              <h3 className="font-semibold text-gray-900">{s.title}</h3>
+              <SurveyStatusBadge schedule={schedule} />
+              {s.resultsDecrypted && <span className="badge badge-success">Decrypted</span>}
+            </div>
+            <p className="text-gray-600 text-sm mb-3">{s.description}</p>
+            <div className="flex items-center gap-4 text-xs text-gray-500">
+              <span>👥 {String(s.totalVotes)} votes</span>
+              <span>📝 {String(s.questionCount)} questions</span>
+              <span>📅 Created {new Date(Number(s.createdAt) * 1000).toLocaleDateString()}</span>
+              <SurveyCountdown schedule={schedule} now={now} />
+            </div>
+          </div>
+          <div className="ml-4">
+            <button className="btn btn-primary" onClick={() => { const id = String(Number(s.id)); window.history.pushState(null, '', `/survey/${id}`); window.dispatchEvent(new PopStateEvent('popstate')); }}>Participate</button>
+          </div>
+        </div>
       </div>
     </div>
   );
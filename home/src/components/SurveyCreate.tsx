@@ -1,46 +1,256 @@
 import { useState } from 'react';
-import { Contract } from 'ethers';
-import { useEthersSigner } from '../hooks/useEthersSigner';
-import { CONTRACT_ADDRESS, CONTRACT_ABI } from '../config/contracts';
+import { ZeroAddress, ZeroHash, isAddress, isHexString } from 'ethers';
+import type { Address, Hex } from 'viem';
+import { useSafePoll } from '../hooks/useSafePoll';
+import {
+  ELIGIBILITY_MODES, formatSurveyDefinition, parseSurveyDefinition, QUESTION_KINDS, SURVEY_FORMAT_VERSION,
+  type EligibilityMode, type QuestionDefinition, type QuestionKind, type SurveyDefinition,
+} from '../../../sdk';
 
-type NewQuestion = { text: string; options: string[] };
+export type NewQuestion = {
+  text: string; options: string[]; kind: QuestionKind; minSelections: number; maxSelections: number; minValue: number; maxValue: number;
+};
+const MAX_MULTI_OPTIONS = 32; // a multi-select answer is a 32-bit mask
+const MAX_RANKED_OPTIONS = 4; // a ranked ballot is compared against every ranking (n!) when tallied
+const MAX_REVIEWERS = 10;
+const MIN_EPSILON_MILLI = 500; // per count: noise is sampled homomorphically, one comparison per step of its tail
 
-export function SurveyCreate() {
-  const signerPromise = useEthersSigner();
-  const [title, setTitle] = useState('');
-  const [description, setDescription] = useState('');
-  const [questions, setQuestions] = useState<NewQuestion[]>([{ text: '', options: ['', ''] }]);
+// counts one ballot can move, each by 1 (SurveyTally.ballotSensitivity): the epsilon per ballot is spread over them
+const ballotSensitivity = (q: NewQuestion) => {
+  if (q.kind === 'numeric') return 0;
+  if (q.kind === 'multi') return q.maxSelections || q.options.length;
+  if (q.kind === 'ranked') return (q.options.length * (q.options.length - 1)) / 2;
+  return 1;
+};
+
+const emptyQuestion = (): NewQuestion => ({
+  text: '', options: ['', ''], kind: 'single', minSelections: 0, maxSelections: 0, minValue: 1, maxValue: 5,
+});
+
+// datetime-local value (local time) -> unix seconds; empty -> 0 (unset)
+const toUnix = (v: string) => (v ? Math.floor(new Date(v).getTime() / 1000) : 0);
+
+// survey file time (unix seconds or a date string) -> datetime-local value
+const toLocalInput = (t: number | string | undefined) => {
+  const d = new Date(typeof t === 'number' ? t * 1000 : t ?? NaN);
+  return Number.isNaN(d.getTime()) ? '' : new Date(d.getTime() - d.getTimezoneOffset() * 60_000).toISOString().slice(0, 16);
+};
+
+const toQuestionDefinition = (q: NewQuestion): QuestionDefinition => {
+  const options = q.options.filter(Boolean);
+  if (q.kind === 'numeric') return { text: q.text, type: 'numeric', min: q.minValue, max: q.maxValue };
+  if (q.kind === 'ranked') return { text: q.text, type: 'ranked', options };
+  if (q.kind !== 'multi') return { text: q.text, options };
+  return {
+    text: q.text, type: 'multi', options,
+    ...(q.minSelections ? { minSelections: q.minSelections } : {}),
+    ...(q.maxSelections ? { maxSelections: q.maxSelections } : {}),
+  };
+};
+
+const fromQuestionDefinition = (q: QuestionDefinition): NewQuestion => ({
+  ...emptyQuestion(),
+  text: q.text,
+  kind: q.type ?? 'single',
+  options: q.type === 'numeric' ? ['', ''] : q.options ?? [],
+  minSelections: q.minSelections ?? 0,
+  maxSelections: q.maxSelections ?? 0,
+  minValue: q.min ?? 1,
+  maxValue: q.max ?? 5,
+});
+
+// Editing replaces the title, description and questions of a survey nobody has voted on yet; its schedule,
+// eligibility and privacy settings are fixed at creation
+type SurveyDraft = { id: bigint; title: string; description: string; questions: NewQuestion[] };
+
+export function SurveyCreate({ edit, onSaved }: { edit?: SurveyDraft; onSaved?: () => void } = {}) {
+  const sp = useSafePoll();
+  const [title, setTitle] = useState(edit?.title ?? '');
+  const [description, setDescription] = useState(edit?.description ?? '');
+  const [questions, setQuestions] = useState<NewQuestion[]>(
+    edit ? edit.questions.map((q) => ({ ...q, options: q.kind === 'numeric' ? ['', ''] : q.options })) : [emptyQuestion()]
+  );
+  const [startAt, setStartAt] = useState('');
+  const [endAt, setEndAt] = useState('');
+  const [eligibility, setEligibility] = useState<EligibilityMode>('open');
+  const [allowlistText, setAllowlistText] = useState('');
+  const [merkleRoot, setMerkleRoot] = useState('');
+  const [weighted, setWeighted] = useState(false);
+  const [weightToken, setWeightToken] = useState('');
+  const [weightDecimals, setWeightDecimals] = useState(18);
+  const [revotable, setRevotable] = useState(false);
+  const [reviewersText, setReviewersText] = useState('');
+  const [minTurnout, setMinTurnout] = useState(0);
+  const [kAnonymity, setKAnonymity] = useState(0);
+  const [epsilon, setEpsilon] = useState('');
   const [submitting, setSubmitting] = useState(false);
 
-  const addQuestion = () => setQuestions((q) => [...q, { text: '', options: ['', ''] }]);
+  const sensitivity = questions.reduce((n, q) => n + ballotSensitivity(q), 0);
+  const minEpsilon = (MIN_EPSILON_MILLI * Math.max(sensitivity, 1)) / 1000;
+
+  const addQuestion = () => setQuestions((q) => [...q, emptyQuestion()]);
   const removeQuestion = (i: number) => setQuestions((q) => q.filter((_, idx) => idx !== i));
   const setQText = (i: number, v: string) => setQuestions((q) => q.map((it, idx) => (idx === i ? { ...it, text: v } : it)));
+  const setQField = (i: number, patch: Partial<NewQuestion>) => setQuestions((q) => q.map((it, idx) => (idx === i ? { ...it, ...patch } : it)));
   const setQOpt = (qi: number, oi: number, v: string) =>
     setQuestions((q) => q.map((it, idx) => (idx === qi ? { ...it, options: it.options.map((o, j) => (j === oi ? v : o)) } : it)));
   const addOpt = (qi: number) => setQuestions((q) => q.map((it, idx) => (idx === qi ? { ...it, options: [...it.options, ''] } : it)));
   const rmOpt = (qi: number, oi: number) => setQuestions((q) => q.map((it, idx) => (idx === qi ? { ...it, options: it.options.filter((_, j) => j !== oi) } : it)));
 
+  // the form as a survey file; editing only exports what it can change
+  const toDefinition = (): SurveyDefinition => {
+    const def: Omit<SurveyDefinition, 'questions'> = { version: SURVEY_FORMAT_VERSION, title };
+    if (description) def.description = description;
+    if (!edit) {
+      if (startAt) def.start = new Date(startAt).toISOString();
+      if (endAt) def.end = new Date(endAt).toISOString();
+      if (eligibility !== 'open') def.eligibility = eligibility;
+      if (eligibility === 'allowlist') def.allowlist = allowlistText.split(/[\s,;]+/).filter(Boolean);
+      if (eligibility === 'merkle' && merkleRoot) def.merkleRoot = merkleRoot;
+      if (weighted) def.weighting = { token: weightToken, decimals: weightDecimals };
+      if (revotable) def.revotable = true;
+      const reviewers = reviewersText.split(/[\s,;]+/).filter(Boolean);
+      if (reviewers.length > 0) def.reviewers = reviewers;
+      const privacy = {
+        ...(minTurnout ? { minTurnout } : {}),
+        ...(kAnonymity ? { kAnonymity } : {}),
+        ...(Number(epsilon) ? { epsilon: Number(epsilon) } : {}),
+      };
+      if (Object.keys(privacy).length > 0) def.privacy = privacy;
+    }
+    return { ...def, questions: questions.map(toQuestionDefinition) };
+  };
+
+  // fills the form from a survey file; editing only takes its title, description and questions
+  const applyDefinition = (def: SurveyDefinition) => {
+    const unit = def.weighting?.unit;
+    if (unit !== undefined && !/^10*$/.test(unit))
+      throw new Error(`Voting power here is one vote per whole token; a unit of ${unit} token units is not supported`);
+    setTitle(def.title);
+    setDescription(def.description ?? '');
+    setQuestions(def.questions.map(fromQuestionDefinition));
+    if (edit) return;
+    setStartAt(toLocalInput(def.start));
+    setEndAt(toLocalInput(def.end));
+    setEligibility(def.eligibility ?? 'open');
+    setAllowlistText((def.allowlist ?? []).join('\n'));
+    setMerkleRoot(def.merkleRoot ?? '');
+    setWeighted(def.weighting !== undefined);
+    setWeightToken(def.weighting?.token ?? '');
+    setWeightDecimals(unit !== undefined ? unit.length - 1 : def.weighting?.decimals ?? 18);
+    setRevotable(def.revotable ?? false);
+    setReviewersText((def.reviewers ?? []).join('\n'));
+    setMinTurnout(def.privacy?.minTurnout ?? 0);
+    setKAnonymity(def.privacy?.kAnonymity ?? 0);
+    setEpsilon(def.privacy?.epsilon ? String(def.privacy.epsilon) : '');
+  };
+
+  const onImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // so the same file can be picked again
+    if (!file) return;
+    try {
+      applyDefinition(parseSurveyDefinition(await file.text(), file.name));
+    } catch (err) {
+      alert((err as Error).message);
+    }
+  };
+
+  const onExport = (format: 'json' | 'yaml') => {
+    const text = formatSurveyDefinition(toDefinition(), format);
+    const url = URL.createObjectURL(new Blob([text], { type: format === 'json' ? 'application/json' : 'application/yaml' }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${title.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'survey'}.${format}`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
   const onSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!signerPromise) return alert('Connect wallet');
-    if (!title || questions.length === 0 || questions.some((q) => !q.text || q.options.length === 0 || q.options.some((o) => !o)))
+    if (!sp) return alert('Connect wallet');
+    if (!title || questions.length === 0 || questions.some((q) => !q.text || (q.kind !== 'numeric' && (q.options.length === 0 || q.options.some((o) => !o)))))
       return alert('Fill all fields');
+    const badRule = questions.find(
+      (q) => q.kind === 'multi' && (q.options.length > MAX_MULTI_OPTIONS || q.minSelections > (q.maxSelections || q.options.length) || q.maxSelections > q.options.length)
+    );
+    if (badRule) return alert(`Check the selection limits of "${badRule.text}"`);
+    const badRange = questions.find((q) => q.kind === 'numeric' && q.minValue >= q.maxValue);
+    if (badRange) return alert(`The minimum of "${badRange.text}" must be below its maximum`);
+    const badRanked = questions.find((q) => q.kind === 'ranked' && (q.options.length < 2 || q.options.length > MAX_RANKED_OPTIONS));
+    if (badRanked) return alert(`"${badRanked.text}" must rank between 2 and ${MAX_RANKED_OPTIONS} options`);
+    const startTime = toUnix(startAt);
+    const endTime = toUnix(endAt);
+    if (endTime && (endTime <= startTime || endTime <= Date.now() / 1000))
+      return alert('Closing time must be in the future and after the opening time');
+    const allowlist = eligibility === 'allowlist' ? allowlistText.split(/[\s,;]+/).filter(Boolean) : [];
+    if (eligibility === 'allowlist' && (allowlist.length === 0 || allowlist.some((a) => !isAddress(a))))
+      return alert('Allowlist must contain valid addresses');
+    if (eligibility === 'merkle' && !isHexString(merkleRoot, 32))
+      return alert('Merkle root must be a 32-byte hex string');
+    if (weighted && !isAddress(weightToken)) return alert('Voting token must be a valid address');
+    const reviewers = reviewersText.split(/[\s,;]+/).filter(Boolean);
+    if (reviewers.some((a) => !isAddress(a))) return alert('Reviewers must be valid addresses');
+    if (reviewers.length > MAX_REVIEWERS) return alert(`At most ${MAX_REVIEWERS} reviewers`);
+    const epsilonMilli = Math.round(Number(epsilon || 0) * 1000);
+    if (epsilonMilli > 0 && Math.floor(epsilonMilli / Math.max(sensitivity, 1)) < MIN_EPSILON_MILLI)
+      return alert(`Epsilon must be at least ${minEpsilon} for these questions`);
+    if (epsilonMilli > 0 && weighted) return alert('Noisy results need one vote per address');
 
     setSubmitting(true);
     try {
-      const signer = await signerPromise;
-      const c = new Contract(CONTRACT_ADDRESS, CONTRACT_ABI, signer);
       const qTexts = questions.map((q) => q.text);
-      const qOptions = questions.map((q) => q.options);
-      const tx = await c.createSurvey(title, description, qTexts, qOptions);
-      await tx.wait();
+      const qOptions = questions.map((q) => (q.kind === 'numeric' ? [] : q.options));
+      // all-single surveys keep the compact encoding (no per-question configs)
+      const questionConfigs = questions.some((q) => q.kind !== 'single')
+        ? questions.map((q) => ({
+            kind: QUESTION_KINDS.indexOf(q.kind),
+            minSelections: q.minSelections,
+            maxSelections: q.maxSelections,
+            minValue: q.minValue,
+            maxValue: q.maxValue,
+          }))
+        : [];
+      if (edit) {
+        await sp.editSurvey(edit.id, title, description, qTexts, qOptions, questionConfigs);
+        alert('Survey updated');
+        onSaved?.();
+        return;
+      }
+      await sp.createSurvey(title, description, qTexts, qOptions, {
+        startTime: BigInt(startTime),
+        endTime: BigInt(endTime),
+        eligibility: ELIGIBILITY_MODES.indexOf(eligibility),
+        merkleRoot: (eligibility === 'merkle' ? merkleRoot : ZeroHash) as Hex,
+        allowlist: allowlist as Address[],
+        questionConfigs,
+        weightToken: (weighted ? weightToken : ZeroAddress) as Address,
+        weightUnit: weighted ? 10n ** BigInt(weightDecimals) : 0n,
+        revotable,
+        reviewers: reviewers as Address[],
+        minTurnout: BigInt(minTurnout),
+        kAnonymity,
+        epsilonMilli,
+      });
       setTitle('');
       setDescription('');
-      setQuestions([{ text: '', options: ['', ''] }]);
+      setStartAt('');
+      setEndAt('');
+      setEligibility('open');
+      setAllowlistText('');
+      setMerkleRoot('');
+      setWeighted(false);
+      setWeightToken('');
+      setRevotable(false);
+      setReviewersText('');
+      setMinTurnout(0);
+      setKAnonymity(0);
+      setEpsilon('');
+      setQuestions([emptyQuestion()]);
       alert('Survey created');
     } catch (e) {
       console.error(e);
-      alert('Create failed');
+      alert(edit ? 'Update failed' : 'Create failed');
     } finally {
       setSubmitting(false);
     }
@@ -49,10 +259,24 @@ export function SurveyCreate() {
   return (
     <div className="card">
       <div className="card-header">
-        <h2 className="card-title">Create Survey</h2>
+        <h2 className="card-title">{edit ? 'Edit Survey' : 'Create Survey'}</h2>
         <p className="card-description">
-          Create a new survey with encrypted responses. All votes will be private and secure.
+          {edit
+            ? 'Questions can change until the first vote; the schedule, voters and privacy settings stay as created.'
+            : 'Create a new survey with encrypted responses. All votes will be private and secure.'}
         </p>
+        <div className="flex items-center gap-2 mt-4">
+          <label className="btn btn-secondary" title="Fill the form from a JSON or YAML survey file">
+            Import
+            <input type="file" accept=".json,.yaml,.yml" hidden onChange={onImport} />
+          </label>
+          <button type="button" className="btn btn-secondary" onClick={() => onExport('yaml')}>
+            Export YAML
+          </button>
+          <button type="button" className="btn btn-secondary" onClick={() => onExport('json')}>
+            Export JSON
+          </button>
+        </div>
       </div>
 
       <div className="card-body">
@@ -77,6 +301,173 @@ export function SurveyCreate() {
             />
           </div>
 
+          {!edit && (
+            <>
+              <div className="flex gap-4">
+                <div className="form-group flex-1">
+                  <label className="form-label">Opens At</label>
+                  <input
+                    type="datetime-local"
+                    className="form-input"
+                    value={startAt}
+                    onChange={(e) => setStartAt(e.target.value)}
+                  />
+                  <p className="text-xs text-gray-500 mt-1">Leave empty to open immediately.</p>
+                </div>
+                <div className="form-group flex-1">
+                  <label className="form-label">Closes At</label>
+                  <input
+                    type="datetime-local"
+                    className="form-input"
+                    value={endAt}
+                    onChange={(e) => setEndAt(e.target.value)}
+                  />
+                  <p className="text-xs text-gray-500 mt-1">Leave empty to keep it open until you end it.</p>
+                </div>
+              </div>
+
+              <div className="form-group">
+                <label className="form-label">Who Can Vote</label>
+                <select
+                  className="form-input"
+                  value={eligibility}
+                  onChange={(e) => setEligibility(e.target.value as EligibilityMode)}
+                >
+                  <option value="open">Anyone with a wallet</option>
+                  <option value="allowlist">Allowlisted addresses</option>
+                  <option value="merkle">Merkle root (voters present a proof)</option>
+                </select>
+                {eligibility === 'allowlist' && (
+                  <textarea
+                    className="form-input form-textarea mt-2"
+                    placeholder="One address per line (or comma-separated)"
+                    value={allowlistText}
+                    onChange={(e) => setAllowlistText(e.target.value)}
+                  />
+                )}
+                {eligibility === 'merkle' && (
+                  <>
+                    <input
+                      className="form-input mt-2"
+                      placeholder="0x… root printed by `npx hardhat safepoll:proof --voters voters.csv`"
+                      value={merkleRoot}
+                      onChange={(e) => setMerkleRoot(e.target.value)}
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      Share the proofs file written by `safepoll:proof --out` with your voters.
+                    </p>
+                  </>
+                )}
+              </div>
+
+              <div className="form-group">
+                <label className="form-label">Voting Power</label>
+                <select
+                  className="form-input"
+                  value={weighted ? 'token' : 'equal'}
+                  onChange={(e) => setWeighted(e.target.value === 'token')}
+                >
+                  <option value="equal">One vote per address</option>
+                  <option value="token">Token-weighted (ERC20Votes / ERC721Votes)</option>
+                </select>
+                {weighted && (
+                  <>
+                    <div className="flex items-center gap-2 mt-2">
+                      <input
+                        className="form-input flex-1"
+                        placeholder="0x… voting token address"
+                        value={weightToken}
+                        onChange={(e) => setWeightToken(e.target.value)}
+                      />
+                      <input
+                        type="number"
+                        className="form-input w-32"
+                        min={0}
+                        title="Token decimals per vote"
+                        value={weightDecimals}
+                        onChange={(e) => setWeightDecimals(Math.max(0, Number(e.target.value)))}
+                      />
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">
+                      Ballots count with the voter's delegated votes when the survey is created, in whole tokens of the given
+                      decimals (18 for most ERC-20s, 0 for NFTs). Holders must delegate, e.g. to themselves, before creation.
+                    </p>
+                  </>
+                )}
+              </div>
+
+              <div className="form-group">
+                <label className="flex items-center gap-2">
+                  <input type="checkbox" checked={revotable} onChange={(e) => setRevotable(e.target.checked)} className="w-4 h-4" />
+                  <span className="form-label mb-0">Let voters change their answers while the survey is open</span>
+                </label>
+                <p className="text-xs text-gray-500 mt-1">
+                  Each voter's encrypted answers are kept on-chain; a new ballot replaces the old one without revealing either.
+                </p>
+              </div>
+
+              <div className="form-group">
+                <label className="form-label">Result Reviewers</label>
+                <textarea
+                  className="form-input form-textarea"
+                  placeholder="Optional: addresses (one per line) that may preview the results with you"
+                  value={reviewersText}
+                  onChange={(e) => setReviewersText(e.target.value)}
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Once the survey ends, you and the reviewers can decrypt the tallies privately; publishing them is a separate step.
+                </p>
+              </div>
+
+              <div className="form-group">
+                <label className="form-label">Privacy Thresholds</label>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="number"
+                    className="form-input flex-1"
+                    min={0}
+                    title="Minimum turnout"
+                    placeholder="Minimum turnout"
+                    value={minTurnout || ''}
+                    onChange={(e) => setMinTurnout(Math.max(0, Math.floor(Number(e.target.value))))}
+                  />
+                  <input
+                    type="number"
+                    className="form-input flex-1"
+                    min={0}
+                    title="Smallest count shown (k)"
+                    placeholder="Smallest count shown (k)"
+                    value={kAnonymity || ''}
+                    onChange={(e) => setKAnonymity(Math.max(0, Math.floor(Number(e.target.value))))}
+                  />
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  Optional: results stay sealed unless at least this many people vote, and any count below k is hidden
+                  (with one more when the hidden ones are all equal), so small groups of voters cannot be singled out.
+                </p>
+              </div>
+
+              <div className="form-group">
+                <label className="form-label">Differential Privacy</label>
+                <input
+                  type="number"
+                  className="form-input"
+                  min={minEpsilon}
+                  step={0.1}
+                  placeholder={`Optional: epsilon per ballot, at least ${minEpsilon}`}
+                  value={epsilon}
+                  onChange={(e) => setEpsilon(e.target.value)}
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Adds random noise to every count after the survey ends, so the results change the odds of any one ballot by
+                  at most e^ε. The budget is shared by every count a ballot moves (one per single choice, up to the selection
+                  limit per multi-select, one per ranked pair), so it needs at least {MIN_EPSILON_MILLI / 1000} per count.
+                  Smaller epsilon means more noise; one vote per address only.
+                </p>
+              </div>
+            </>
+          )}
+
           <div className="flex flex-col gap-4">
             <div className="flex items-center justify-between">
               <h3 className="font-semibold text-gray-900">Questions</h3>
@@ -116,40 +507,113 @@ export function SurveyCreate() {
                   </div>
 
                   <div className="form-group">
-                    <label className="form-label">Answer Options *</label>
-                    <div className="flex flex-col gap-2">
-                      {q.options.map((o, oi) => (
-                        <div key={oi} className="flex items-center gap-2">
+                    <label className="form-label">Question Type</label>
+                    <div className="flex items-center gap-2">
+                      <select
+                        className="form-input flex-1"
+                        value={q.kind}
+                        onChange={(e) => setQField(qi, { kind: e.target.value as QuestionKind })}
+                      >
+                        <option value="single">Single choice</option>
+                        <option value="multi">Multiple choice (select all that apply)</option>
+                        <option value="numeric">Rating / number (mean and variance)</option>
+                        <option value="ranked">Ranked choice (head to head)</option>
+                      </select>
+                      {q.kind === 'numeric' && (
+                        <>
                           <input
-                            className="form-input flex-1"
-                            placeholder={`Option ${oi + 1}`}
-                            value={o}
-                            onChange={(e) => setQOpt(qi, oi, e.target.value)}
+                            type="number"
+                            min={0}
+                            className="form-input w-24"
+                            title="Minimum value"
+                            value={q.minValue}
+                            onChange={(e) => setQField(qi, { minValue: Math.max(0, Number(e.target.value)) })}
                           />
-                          <div className="flex gap-1">
-                            {q.options.length > 1 && (
+                          <input
+                            type="number"
+                            min={0}
+                            className="form-input w-24"
+                            title="Maximum value"
+                            value={q.maxValue}
+                            onChange={(e) => setQField(qi, { maxValue: Math.max(0, Number(e.target.value)) })}
+                          />
+                        </>
+                      )}
+                      {q.kind === 'multi' && (
+                        <>
+                          <input
+                            type="number"
+                            min={0}
+                            className="form-input w-24"
+                            title="Minimum selections"
+                            value={q.minSelections}
+                            onChange={(e) => setQField(qi, { minSelections: Math.max(0, Number(e.target.value)) })}
+                          />
+                          <input
+                            type="number"
+                            min={0}
+                            className="form-input w-24"
+                            title="Maximum selections (0 = any number)"
+                            value={q.maxSelections}
+                            onChange={(e) => setQField(qi, { maxSelections: Math.max(0, Number(e.target.value)) })}
+                          />
+                        </>
+                      )}
+                    </div>
+                    {q.kind === 'multi' && (
+                      <p className="text-xs text-gray-500 mt-1">
+                        Minimum / maximum number of selections (0 as maximum = any number, up to {MAX_MULTI_OPTIONS} options).
+                      </p>
+                    )}
+                    {q.kind === 'numeric' && (
+                      <p className="text-xs text-gray-500 mt-1">
+                        Answers are clamped to this range, e.g. 1–5 for a rating or 0–10 for NPS.
+                      </p>
+                    )}
+                    {q.kind === 'ranked' && (
+                      <p className="text-xs text-gray-500 mt-1">
+                        Voters rank every option; only the head-to-head counts are revealed, giving the Borda and Condorcet winners. Up to {MAX_RANKED_OPTIONS} options.
+                      </p>
+                    )}
+                  </div>
+
+                  {q.kind !== 'numeric' && (
+                    <div className="form-group">
+                      <label className="form-label">Answer Options *</label>
+                      <div className="flex flex-col gap-2">
+                        {q.options.map((o, oi) => (
+                          <div key={oi} className="flex items-center gap-2">
+                            <input
+                              className="form-input flex-1"
+                              placeholder={`Option ${oi + 1}`}
+                              value={o}
+                              onChange={(e) => setQOpt(qi, oi, e.target.value)}
+                            />
+                            <div className="flex gap-1">
+                              {q.options.length > 1 && (
+                                <button
+                                  type="button"
+                                  onClick={() => rmOpt(qi, oi)}
+                                  className="btn btn-secondary w-10 h-10 p-0 text-red-600 hover:bg-red-50"
+                                  title="Remove option"
+                                >
+                                  −
+                                </button>
+                              )}
                               <button
                                 type="button"
-                                onClick={() => rmOpt(qi, oi)}
-                                className="btn btn-secondary w-10 h-10 p-0 text-red-600 hover:bg-red-50"
-                                title="Remove option"
+                                onClick={() => addOpt(qi)}
+                                className="btn btn-secondary w-10 h-10 p-0 text-blue-600 hover:bg-blue-50"
+                                title="Add option"
                               >
-                                −
+                                +
                               </button>
-                            )}
-                            <button
-                              type="button"
-                              onClick={() => addOpt(qi)}
-                              className="btn btn-secondary w-10 h-10 p-0 text-blue-600 hover:bg-blue-50"
-                              title="Add option"
-                            >
-                              +
-                            </button>
+                            </div>
                           </div>
-                        </div>
-                      ))}
+                        ))}
+                      </div>
                     </div>
-                  </div>
+                  )}
                 </div>
               </div>
             ))}
@@ -161,7 +625,7 @@ export function SurveyCreate() {
               disabled={submitting}
               className="btn btn-primary"
             >
-              {submitting ? 'Creating Survey...' : 'Create Survey'}
+              {edit ? (submitting ? 'Saving...' : 'Save Changes') : submitting ? 'Creating Survey...' : 'Create Survey'}
             </button>
           </div>
         </form>
@@ -0,0 +1,227 @@
+import { useEffect, useMemo, useState } from 'react';
+import { usePublicClient } from 'wagmi';
+import { buildResults, QUESTION_KINDS, type QuestionResults, type SurveyDetails, type SurveyResults } from '../../../sdk';
+import { CONTRACT_ADDRESS } from '../config/contracts';
+import { useSafePoll } from '../hooks/useSafePoll';
+import { useZamaInstance } from '../hooks/useZamaInstance';
+import { Header } from './Header';
+import { BarChart, NumericDistribution, PieChart, type ChartRow } from './ResultsCharts';
+import { decryptTallies } from '../utils/tallies';
+
+// where the clear tallies came from: stored on-chain by the oracle callback, or decrypted through the relayer
+// (publicDecrypt) after the decryption request, before the callback lands
+type Source = 'on-chain' | 'relayer';
+
+const navigate = (path: string) => {
+  window.history.pushState(null, '', path);
+  window.dispatchEvent(new PopStateEvent('popstate'));
+};
+
+// Printable, shareable summary of a survey's published results at /survey/:id/results
+export function SurveyResultsPage() {
+  const publicClient = usePublicClient();
+  const sp = useSafePoll();
+  const { instance } = useZamaInstance();
+
+  const id = useMemo(() => {
+    const m = window.location.pathname.match(/\/survey\/(\d+)/i);
+    const n = m ? Number(m[1]) : NaN;
+    return Number.isFinite(n) && n > 0 ? BigInt(n) : undefined;
+  }, []);
+
+  const [survey, setSurvey] = useState<SurveyDetails | null>(null);
+  const [results, setResults] = useState<SurveyResults | null>(null);
+  const [source, setSource] = useState<Source | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [chart, setChart] = useState<'bar' | 'pie'>('bar');
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    const load = async () => {
+      if (!publicClient || !sp || !id) return setLoading(false);
+      setLoading(true);
+      setError('');
+      try {
+        const [d, chainId] = await Promise.all([sp.getSurvey(id), publicClient.getChainId()]);
+        setSurvey(d);
+        const chain = { chainId, contract: CONTRACT_ADDRESS };
+        if (d.summary.resultsDecrypted) {
+          setResults(buildResults(chain, d, await sp.readResults(id)));
+          setSource('on-chain');
+        } else if (d.decryptionRequestedAt > 0n) {
+          // the request made the tallies publicly decryptable; the relayer needs the SDK instance
+          if (!instance) return;
+          const handles = await sp.getEncryptedHandles(id);
+          const tallies = await decryptTallies(handles, (qi) => QUESTION_KINDS[d.questions[qi].config.kind] === 'numeric', (hs) => instance.publicDecrypt(hs));
+          setResults(buildResults(chain, d, tallies));
+          setSource('relayer');
+        }
+      } catch (e) {
+        console.error(e);
+        setError('Could not load the results of this survey.');
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [publicClient, sp, id, instance]);
+
+  const copyLink = async () => {
+    await navigator.clipboard.writeText(window.location.href);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const weighted = results?.turnout.totalWeight !== undefined;
+  const unit = weighted ? 'weight' : 'votes';
+  const hidden = 'hidden';
+
+  return (
+    <div style={{ minHeight: '100vh' }}>
+      <div className="no-print">
+        <Header />
+      </div>
+      <main className="container" style={{ paddingTop: 'var(--space-8)', paddingBottom: 'var(--space-16)' }}>
+        <div className="max-w-4xl mx-auto">
+          <div className="flex justify-between mb-6 no-print">
+            <button className="btn btn-secondary" onClick={() => navigate(`/survey/${id ?? ''}`)}>
+              ← Back to Survey
+            </button>
+            {results && (
+              <div className="flex gap-2">
+                <button className="btn btn-secondary" onClick={() => setChart(chart === 'bar' ? 'pie' : 'bar')}>
+                  {chart === 'bar' ? 'Pie Charts' : 'Bar Charts'}
+                </button>
+                <button className="btn btn-secondary" onClick={copyLink}>
+                  {copied ? 'Link Copied' : 'Copy Link'}
+                </button>
+                <button className="btn btn-primary" onClick={() => window.print()}>
+                  Print
+                </button>
+              </div>
+            )}
+          </div>
+
+          {loading ? (
+            <div className="card">
+              <div className="card-body text-center py-8">
+                <div className="text-4xl mb-4">⏳</div>
+                <p className="text-gray-600">Loading results...</p>
+              </div>
+            </div>
+          ) : !survey ? (
+            <div className="card">
+              <div className="card-body text-center py-8">
+                <div className="text-4xl mb-4">❌</div>
+                <h3 className="text-lg font-semibold text-gray-700 mb-2">Survey not found</h3>
+                <p className="text-gray-600">{error || "The survey you're looking for doesn't exist."}</p>
+              </div>
+            </div>
+          ) : (
+            <div className="flex flex-col gap-6">
+              <div className="card">
+                <div className="card-header">
+                  <div className="flex items-center gap-3">
+                    <span className="badge badge-info">#{Number(survey.summary.id)}</span>
+                    <h1 className="card-title">{survey.summary.title}</h1>
+                    <span className="badge badge-info">Results</span>
+                  </div>
+                  {survey.summary.description && <p className="card-description mt-2">{survey.summary.description}</p>}
+                </div>
+                <div className="card-body">
+                  {results ? (
+                    <>
+                      <div className="flex items-center gap-6 text-sm text-gray-600">
+                        <span>👥 {results.turnout.votes} votes</span>
+                        {weighted && <span>⚖️ {results.turnout.totalWeight} total weight</span>}
+                        <span>📅 Created {new Date(results.survey.createdAt * 1000).toLocaleDateString()}</span>
+                        <span>{results.survey.status}</span>
+                      </div>
+                      <p className="text-sm text-gray-600 mt-3">
+                        Percentages are of the {weighted ? 'total voting weight' : 'turnout'}
+                        {results.questions.some((q) => q.type === 'multi') && ', so those of a multiple-choice question can add up to more than 100%'}
+                        {results.turnout.kAnonymity > 1 && <>; counts below {results.turnout.kAnonymity}, and one more when those are all equal, are hidden</>}
+                        {results.turnout.epsilon > 0 && <>; every count carries differential-privacy noise (ε = {results.turnout.epsilon} per ballot)</>}.
+                      </p>
+                      <p className="text-sm text-gray-600 mt-3">
+                        {source === 'on-chain'
+                          ? '🔓 Published on-chain by the decryption oracle.'
+                          : '🔓 Decrypted through the relayer; the oracle has not stored them on-chain yet.'}
+                      </p>
+                    </>
+                  ) : (
+                    <p className="text-gray-600">
+                      {error ||
+                        (survey.decryptionRequestedAt > 0n
+                          ? 'Decrypting the results through the relayer...'
+                          : 'The results of this survey have not been revealed yet.')}
+                    </p>
+                  )}
+                </div>
+              </div>
+
+              {results?.questions.map((q) => (
+                <div key={q.index} className="card">
+                  <div className="card-body">
+                    <h3 className="font-semibold text-gray-900 mb-4">
+                      Question {q.index + 1}: {q.text}
+                    </h3>
+                    <QuestionChart
+                      q={q}
+                      chart={chart}
+                      hidden={hidden}
+                      unit={unit}
+                      range={survey.questions[q.index].config}
+                    />
+                    {q.type !== 'numeric' && (q.invalid ?? 1) > 0 && (
+                      <p className="text-sm text-gray-600 mt-3">
+                        ⚠️ {q.invalid ?? hidden} invalid {q.invalid === 1 ? 'ballot' : 'ballots'}
+                      </p>
+                    )}
+                  </div>
+                </div>
+              ))}
+
+              {results && (
+                <p className="text-sm text-gray-600 text-center">
+                  Survey #{results.survey.id} on chain {results.chainId}, contract <code>{results.contract}</code> — generated{' '}
+                  {new Date().toLocaleString()}
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
+
+// Single and multiple choice: the option counts; ranked: the Borda points, with the Borda and Condorcet winners;
+// numeric: the mean and spread
+function QuestionChart({ q, chart, hidden, unit, range }: {
+  q: QuestionResults; chart: 'bar' | 'pie'; hidden: string; unit: string; range: { minValue: number; maxValue: number };
+}) {
+  if (q.type === 'numeric') {
+    return <NumericDistribution min={range.minValue} max={range.maxValue} mean={q.mean ?? 0} variance={q.variance ?? 0} />;
+  }
+  let rows: ChartRow[];
+  if (q.type === 'ranked') {
+    rows = (q.scores ?? []).map((s) => ({ label: s.option, count: s.count, percent: s.percent }));
+  } else {
+    rows = (q.options ?? []).map((o) => ({ label: o.option, count: o.count, percent: o.percent }));
+  }
+  const Chart = chart === 'bar' ? BarChart : PieChart;
+  return (
+    <div className="flex flex-col gap-3">
+      {q.type === 'ranked' && <p className="text-sm text-gray-600">Borda points, as a share of the most an option can get</p>}
+      <Chart rows={rows} hidden={hidden} unit={q.type === 'ranked' ? 'points' : unit} />
+      {q.type === 'ranked' && (
+        <p className="text-sm text-gray-700">
+          🏆 Borda winner: <span className="font-semibold">{q.winner ?? 'none'}</span> · Condorcet winner:{' '}
+          <span className="font-semibold">{q.condorcetWinner ?? 'none'}</span>
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import { nextBoundary, type SurveySchedule } from '../hooks/useSurveySchedule';
+
+const BADGE_CLASS: Record<SurveySchedule['status'], string> = {
+  Upcoming: 'badge-info',
+  Open: 'badge-success',
+  Closed: 'badge-warning',
+  Cancelled: 'badge-error',
+};
+
+function formatCountdown(seconds: number): string {
+  const s = Math.max(0, seconds);
+  const d = Math.floor(s / 86400);
+  const h = Math.floor((s % 86400) / 3600);
+  const m = Math.floor((s % 3600) / 60);
+  const sec = s % 60;
+  if (d > 0) return `${d}d ${h}h ${m}m`;
+  if (h > 0) return `${h}h ${m}m ${sec}s`;
+  return `${m}m ${sec}s`;
+}
+
+export function SurveyStatusBadge({ schedule }: { schedule: SurveySchedule | null }) {
+  if (!schedule) return null;
+  return <span className={`badge ${BADGE_CLASS[schedule.status]}`}>{schedule.status}</span>;
+}
+
+export function SurveyCountdown({ schedule, now }: { schedule: SurveySchedule | null; now: number }) {
+  if (!schedule) return null;
+  const boundary = nextBoundary(schedule);
+  if (schedule.status === 'Upcoming') {
+    return <span>⏳ Opens in {formatCountdown(boundary - now)}</span>;
+  }
+  if (schedule.status === 'Open' && boundary) {
+    return <span>⏳ Closes in {formatCountdown(boundary - now)}</span>;
+  }
+  if (schedule.status === 'Closed' && schedule.endTime && schedule.endTime <= now) {
+    return <span>🔒 Closed {new Date(schedule.endTime * 1000).toLocaleString()}</span>;
+  }
+  return null;
+}
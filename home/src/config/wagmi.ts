@@ -1,9 +1,11 @@
 import { getDefaultConfig } from '@rainbow-me/rainbowkit';
-import { sepolia } from 'wagmi/chains';
+import { hardhat, sepolia } from 'wagmi/chains';
+import { IS_LOCAL_NETWORK } from './contracts';
 
 export const config = getDefaultConfig({
   appName: '',
   projectId: 'YOUR_PROJECT_ID', // Get from https://cloud.walletconnect.com
-  chains: [sepolia],
+  // a local hardhat node (chain 31337, http://127.0.0.1:8545) in local development mode
+  chains: [IS_LOCAL_NETWORK ? hardhat : sepolia],
   ssr: false,
 });
\ No newline at end of file
@@ -0,0 +1,63 @@
+import { useEffect, useState } from 'react';
+
+export type StatusFilter = 'all' | 'active' | 'ended' | 'decrypted';
+export type SortOrder = 'newest' | 'votes' | 'ending';
+
+export type BrowseFilters = {
+  q: string; // words to find in the title or description
+  status: StatusFilter;
+  mine: boolean; // created by the connected account
+  voted: boolean; // voted in by the connected account
+  sort: SortOrder;
+};
+
+const STATUS_FILTERS: StatusFilter[] = ['all', 'active', 'ended', 'decrypted'];
+const SORT_ORDERS: SortOrder[] = ['newest', 'votes', 'ending'];
+
+export const DEFAULT_FILTERS: BrowseFilters = { q: '', status: 'all', mine: false, voted: false, sort: 'newest' };
+
+function readFilters(search: string): BrowseFilters {
+  const params = new URLSearchParams(search);
+  const status = params.get('status') as StatusFilter;
+  const sort = params.get('sort') as SortOrder;
+  return {
+    q: params.get('q') ?? '',
+    status: STATUS_FILTERS.includes(status) ? status : 'all',
+    mine: params.get('mine') === '1',
+    voted: params.get('voted') === '1',
+    sort: SORT_ORDERS.includes(sort) ? sort : 'newest',
+  };
+}
+
+// only what differs from the defaults goes into the URL
+function writeFilters(f: BrowseFilters): string {
+  const params = new URLSearchParams();
+  if (f.q) params.set('q', f.q);
+  if (f.status !== 'all') params.set('status', f.status);
+  if (f.mine) params.set('mine', '1');
+  if (f.voted) params.set('voted', '1');
+  if (f.sort !== 'newest') params.set('sort', f.sort);
+  const search = params.toString();
+  return search ? `?${search}` : '';
+}
+
+// Browser filters kept in the URL query string (?q=…&status=ended&mine=1&voted=1&sort=votes), so a filtered view can
+// be shared or bookmarked
+export function useBrowseFilters() {
+  const [filters, setFilters] = useState<BrowseFilters>(() => readFilters(window.location.search));
+
+  useEffect(() => {
+    const onPop = () => setFilters(readFilters(window.location.search));
+    window.addEventListener('popstate', onPop);
+    return () => window.removeEventListener('popstate', onPop);
+  }, []);
+
+  const update = (patch: Partial<BrowseFilters>) => {
+    const next = { ...filters, ...patch };
+    window.history.replaceState(null, '', `${window.location.pathname}${writeFilters(next)}`);
+    setFilters(next);
+  };
+
+  const isDefault = writeFilters(filters) === '';
+  return { filters, update, reset: () => update(DEFAULT_FILTERS), isDefault };
+}
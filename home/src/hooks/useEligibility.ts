@@ -0,0 +1,52 @@
+import { useEffect, useState } from 'react';
+import { usePublicClient } from 'wagmi';
+import { CONTRACT_ADDRESS, CONTRACT_ABI } from '../config/contracts';
+
+export type EligibilityMode = 'Open' | 'Allowlist' | 'Merkle';
+
+const MODES: EligibilityMode[] = ['Open', 'Allowlist', 'Merkle'];
+
+// Resolves whether `voter` may vote on a survey; `proof` is only used for Merkle-gated surveys
+export function useEligibility(surveyId: bigint | undefined, voter: `0x${string}` | undefined, proof: `0x${string}`[]) {
+  const publicClient = usePublicClient();
+  const [mode, setMode] = useState<EligibilityMode | null>(null);
+  const [eligible, setEligible] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      if (!publicClient || !surveyId) return;
+      try {
+        const [m] = await publicClient.readContract({ address: CONTRACT_ADDRESS, abi: CONTRACT_ABI, functionName: 'getEligibility', args: [surveyId] });
+        setMode(MODES[Number(m)] ?? 'Open');
+      } catch (e) {
+        console.error(e);
+      }
+    };
+    load();
+  }, [publicClient, surveyId]);
+
+  useEffect(() => {
+    const check = async () => {
+      if (!publicClient || !surveyId || !mode) return;
+      if (mode === 'Open') return setEligible(true);
+      if (!voter) return setEligible(null);
+      try {
+        const ok = await publicClient.readContract({ address: CONTRACT_ADDRESS, abi: CONTRACT_ABI, functionName: 'isEligible', args: [surveyId, voter, proof] });
+        setEligible(Boolean(ok));
+      } catch (e) {
+        console.error(e);
+        setEligible(false);
+      }
+    };
+    check();
+  }, [publicClient, surveyId, mode, voter, proof]);
+
+  return { mode, eligible };
+}
+
+// Accepts either a JSON proof array or the `{ proofs: { [address]: proof } }` file written by `safepoll:proof --out`
+export function extractProof(json: unknown, voter: string): `0x${string}`[] | null {
+  if (Array.isArray(json)) return json as `0x${string}`[];
+  const proofs = (json as { proofs?: Record<string, `0x${string}`[]> } | null)?.proofs;
+  return proofs?.[voter.toLowerCase()] ?? null;
+}
@@ -0,0 +1,30 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { usePublicClient, useWalletClient } from 'wagmi';
+import { createSafePollClient, type SafePollClient } from '../../../sdk';
+import { CONTRACT_ADDRESS, LENS_ADDRESS } from '../config/contracts';
+
+// The SDK client of the deployed contracts: reads through the public client, transactions from the connected
+// wallet (they throw while none is connected). It only changes with the public client, so effects reading through
+// it don't re-run when the wallet connects.
+export function useSafePoll(): SafePollClient | undefined {
+  const publicClient = usePublicClient();
+  const { data: walletClient } = useWalletClient();
+  const wallet = useRef(walletClient);
+
+  useEffect(() => {
+    wallet.current = walletClient;
+  }, [walletClient]);
+
+  return useMemo(
+    () =>
+      publicClient
+        ? createSafePollClient({
+            publicClient,
+            walletClient: () => wallet.current,
+            safePoll: CONTRACT_ADDRESS,
+            lens: LENS_ADDRESS,
+          })
+        : undefined,
+    [publicClient],
+  );
+}
@@ -0,0 +1,49 @@
+import { useEffect, useState } from 'react';
+import { useReadContract } from 'wagmi';
+import { SURVEY_STATUSES, type SurveyStatus } from '../../../sdk';
+import { CONTRACT_ADDRESS, CONTRACT_ABI } from '../config/contracts';
+
+export type SurveySchedule = {
+  startTime: number; // unix seconds, 0 = opened on creation
+  endTime: number; // unix seconds, 0 = no deadline
+  status: SurveyStatus; // as computed by the contract at the latest block
+};
+
+// Reads the schedule of a survey and re-reads it whenever the next boundary (opening or closing) is crossed
+export function useSurveySchedule(surveyId: bigint | undefined) {
+  const { data, refetch, isLoading } = useReadContract({
+    address: CONTRACT_ADDRESS,
+    abi: CONTRACT_ABI,
+    functionName: 'getSurveySchedule',
+    args: surveyId ? [surveyId] : undefined,
+    query: { enabled: !!surveyId },
+  });
+
+  const schedule: SurveySchedule | null = data
+    ? { startTime: Number(data[0]), endTime: Number(data[1]), status: SURVEY_STATUSES[Number(data[2])] ?? 'Closed' }
+    : null;
+
+  const now = useNow();
+  const boundary = schedule ? nextBoundary(schedule) : 0;
+  useEffect(() => {
+    if (boundary && now >= boundary) refetch();
+  }, [boundary, now, refetch]);
+
+  return { schedule, now, isLoading, refetch };
+}
+
+export function nextBoundary(s: SurveySchedule): number {
+  if (s.status === 'Upcoming') return s.startTime;
+  if (s.status === 'Open') return s.endTime;
+  return 0;
+}
+
+// Current unix time in seconds, ticking once per second
+export function useNow(): number {
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+  useEffect(() => {
+    const t = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000);
+    return () => clearInterval(t);
+  }, []);
+  return now;
+}
@@ -0,0 +1,45 @@
+import { useEffect, useState } from 'react';
+import { usePublicClient } from 'wagmi';
+import { ZeroAddress } from 'ethers';
+import { CONTRACT_ADDRESS, CONTRACT_ABI } from '../config/contracts';
+
+export type VotingPower = {
+  token: `0x${string}` | null; // null = one vote per address
+  totalWeight: number;
+};
+
+// Reads how ballots of a survey are weighted and, for a connected voter, the weight their ballot would carry
+export function useVotingPower(surveyId: bigint | undefined, voter: `0x${string}` | undefined) {
+  const publicClient = usePublicClient();
+  const [power, setPower] = useState<VotingPower | null>(null);
+  const [weight, setWeight] = useState<number | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      if (!publicClient || !surveyId) return;
+      try {
+        const w = await publicClient.readContract({ address: CONTRACT_ADDRESS, abi: CONTRACT_ABI, functionName: 'getVotingPower', args: [surveyId] });
+        setPower({ token: w.token === ZeroAddress ? null : w.token, totalWeight: Number(w.totalWeight) });
+      } catch (e) {
+        console.error(e);
+      }
+    };
+    load();
+  }, [publicClient, surveyId]);
+
+  useEffect(() => {
+    const check = async () => {
+      if (!publicClient || !surveyId || !voter) return setWeight(null);
+      try {
+        const w = await publicClient.readContract({ address: CONTRACT_ADDRESS, abi: CONTRACT_ABI, functionName: 'getVoterWeight', args: [surveyId, voter] });
+        setWeight(Number(w));
+      } catch (e) {
+        console.error(e);
+        setWeight(null);
+      }
+    };
+    check();
+  }, [publicClient, surveyId, voter]);
+
+  return { power, weight };
+}
@@ -1,5 +1,7 @@
 import { useState, useEffect } from 'react';
 import { createInstance,initSDK,SepoliaConfig } from '@zama-fhe/relayer-sdk/bundle';
+import { IS_LOCAL_NETWORK } from '../config/contracts';
+import { createMockInstance } from '../utils/mockFhevm';
 
 export function useZamaInstance() {
   const [instance, setInstance] = useState<any>(null);
@@ -13,9 +15,14 @@ export function useZamaInstance() {
       try {
         setIsLoading(true);
         setError(null);
-        await initSDK()
-
-        const zamaInstance = await createInstance(SepoliaConfig);
+        let zamaInstance;
+        if (IS_LOCAL_NETWORK) {
+          // the hardhat node's FHEVM mock instead of the Sepolia relayer
+          zamaInstance = await createMockInstance();
+        } else {
+          await initSDK()
+          zamaInstance = await createInstance(SepoliaConfig);
+        }
 
         if (mounted) {
           setInstance(zamaInstance);
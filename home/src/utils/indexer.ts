@@ -0,0 +1,19 @@
+import { INDEXER_URL } from '../config/contracts';
+
+export type IndexerQuery = { creator?: string; voter?: string };
+
+// Ids of the surveys matching a query of the configured indexer (safepoll:indexer), newest first, and how many
+// match in all
+export async function fetchSurveyIds(query: IndexerQuery, limit: number, offset: number): Promise<{ total: number; ids: bigint[] }> {
+  if (!INDEXER_URL) throw new Error('No indexer configured');
+  const url = new URL('/surveys', INDEXER_URL);
+  url.searchParams.set('limit', String(limit));
+  url.searchParams.set('offset', String(offset));
+  if (query.creator) url.searchParams.set('creator', query.creator);
+  if (query.voter) url.searchParams.set('voter', query.voter);
+
+  const res = await fetch(url);
+  const body = (await res.json()) as { total: number; surveys: { id: number }[]; error?: string };
+  if (!res.ok) throw new Error(body.error ?? `indexer returned ${res.status}`);
+  return { total: body.total, ids: body.surveys.map((s) => BigInt(s.id)) };
+}
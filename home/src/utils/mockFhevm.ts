@@ -0,0 +1,42 @@
+import { Contract, JsonRpcProvider } from 'ethers';
+import { hardhat } from 'wagmi/chains';
+
+// A local `npx hardhat node` runs the FHEVM mock: it encrypts inputs, decrypts handles and plays the decryption
+// oracle through its fhevm_* RPC methods, so the whole flow works offline
+let provider: JsonRpcProvider | undefined;
+const node = () => (provider ??= new JsonRpcProvider(hardhat.rpcUrls.default.http[0]));
+
+const EIP712_DOMAIN_ABI = [
+  'function eip712Domain() view returns (bytes1, string, string, uint256, address verifyingContract, bytes32, uint256[])',
+];
+
+type RelayerMetadata = {
+  chainId: number;
+  gatewayChainId: number;
+  ACLAddress: string;
+  KMSVerifierAddress: string;
+  InputVerifierAddress: string;
+};
+
+// A relayer SDK instance backed by the node's mock, configured from the FHEVM contracts it deployed
+export async function createMockInstance() {
+  const { MockFhevmInstance } = await import('@fhevm/mock-utils');
+  const meta: RelayerMetadata = await node().send('fhevm_relayer_metadata', []);
+  // the gateway addresses decryption and input proofs are signed for are the verifiers' EIP-712 domains
+  const verifyingContract = async (address: string) =>
+    (await new Contract(address, EIP712_DOMAIN_ABI, node()).eip712Domain()).verifyingContract as string;
+  return MockFhevmInstance.create(node(), node(), {
+    chainId: meta.chainId,
+    gatewayChainId: meta.gatewayChainId,
+    aclContractAddress: meta.ACLAddress,
+    kmsContractAddress: meta.KMSVerifierAddress,
+    inputVerifierContractAddress: meta.InputVerifierAddress,
+    verifyingContractAddressDecryption: await verifyingContract(meta.KMSVerifierAddress),
+    verifyingContractAddressInputVerification: await verifyingContract(meta.InputVerifierAddress),
+  });
+}
+
+// Has the mock oracle answer every pending decryption request, calling back into the contracts
+export async function fulfillMockDecryptions(): Promise<void> {
+  await node().send('fhevm_awaitDecryptionOracle', []);
+}
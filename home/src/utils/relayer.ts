@@ -0,0 +1,58 @@
+import { hexlify, type JsonRpcSigner } from 'ethers';
+import type { FhevmInstance } from '@zama-fhe/relayer-sdk/bundle';
+import type { Address } from 'viem';
+import type { SafePollClient } from '../../../sdk';
+import { CONTRACT_ADDRESS, RELAYER_URL } from '../config/contracts';
+
+// SafePoll.BALLOT_TYPEHASH, signed by the voter for submitVotesBySig
+const BALLOT_TYPES = {
+  Ballot: [
+    { name: 'surveyId', type: 'uint256' },
+    { name: 'handles', type: 'bytes32[]' },
+    { name: 'inputProof', type: 'bytes' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+};
+// how long a signed ballot stays valid for the relayer to submit
+const BALLOT_VALIDITY_SECONDS = 3600;
+
+// Gasless voting: the answers are encrypted for the relayer's address (it submits them, and FHE.fromExternal checks
+// the inputs against the submitter), the wallet signs the EIP-712 ballot, and the relayer pays the gas.
+// Returns the relayer's transaction hash.
+export async function relayBallot(
+  instance: FhevmInstance,
+  signer: JsonRpcSigner,
+  sp: SafePollClient,
+  surveyId: bigint,
+  answers: number[],
+  merkleProof: string[],
+): Promise<string> {
+  if (!RELAYER_URL) throw new Error('No relayer configured');
+  const info = (await (await fetch(new URL('/', RELAYER_URL))).json()) as { relayer: string };
+
+  const input = instance.createEncryptedInput(CONTRACT_ADDRESS, info.relayer);
+  for (const a of answers) input.add32(a);
+  const encrypted = await input.encrypt();
+  const handles = encrypted.handles.map((h) => hexlify(h));
+  const inputProof = hexlify(encrypted.inputProof);
+
+  const voter = await signer.getAddress();
+  const nonce = await sp.getNonce(voter as Address);
+  const { chainId } = await signer.provider.getNetwork();
+  const deadline = Math.floor(Date.now() / 1000) + BALLOT_VALIDITY_SECONDS;
+  const signature = await signer.signTypedData(
+    { name: 'SafePoll', version: '1', chainId, verifyingContract: CONTRACT_ADDRESS },
+    BALLOT_TYPES,
+    { surveyId, handles, inputProof, nonce, deadline },
+  );
+
+  const res = await fetch(new URL('/ballot', RELAYER_URL), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ surveyId: String(surveyId), voter, handles, inputProof, merkleProof, deadline: String(deadline), signature }),
+  });
+  const body = (await res.json()) as { txHash?: string; error?: string };
+  if (!res.ok || !body.txHash) throw new Error(`Relayer rejected the ballot: ${body.error ?? res.status}`);
+  return body.txHash;
+}
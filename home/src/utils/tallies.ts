@@ -0,0 +1,19 @@
+import type { QuestionHandles, Tally } from '../../../sdk';
+
+// Decrypts the handles of every question at once, through public (relayer publicDecrypt) or user decryption;
+// counters no ballot touched are still the zero handle, which decrypts to nothing and counts 0
+export async function decryptTallies(
+  handles: readonly QuestionHandles[],
+  numeric: (qi: number) => boolean,
+  decrypt: (handles: string[]) => Promise<Record<string, unknown>>,
+): Promise<Tally[]> {
+  const all = handles.flatMap((h, qi) => (numeric(qi) ? [h.sum, h.sumSquares] : [...h.optionCounts, h.invalidCount]));
+  const nonZero = [...new Set(all)].filter((h) => BigInt(h) !== 0n);
+  const clear = nonZero.length > 0 ? await decrypt(nonZero) : {};
+  const value = (h: string) => BigInt((clear[h] as bigint | string | number | undefined) ?? 0);
+  return handles.map((h, qi) =>
+    numeric(qi)
+      ? { optionCounts: [], invalidCount: 0n, sum: value(h.sum), sumSquares: value(h.sumSquares) }
+      : { optionCounts: h.optionCounts.map(value), invalidCount: value(h.invalidCount), sum: 0n, sumSquares: 0n },
+  );
+}
@@ -0,0 +1,29 @@
+import type { JsonRpcSigner } from 'ethers';
+import type { FhevmInstance } from '@zama-fhe/relayer-sdk/bundle';
+import { CONTRACT_ADDRESS } from '../config/contracts';
+
+// Relayer SDK user decryption: the wallet signs an EIP-712 request for a throwaway keypair, and the relayer
+// re-encrypts the handles (which must be FHE.allow'ed to the signer) under that keypair
+export async function userDecrypt(instance: FhevmInstance, signer: JsonRpcSigner, handles: string[]): Promise<Record<string, bigint>> {
+  const keypair = instance.generateKeypair();
+  const contractAddresses = [CONTRACT_ADDRESS];
+  const startTimestamp = Math.floor(Date.now() / 1000).toString();
+  const durationDays = '1';
+  const eip712 = instance.createEIP712(keypair.publicKey, contractAddresses, startTimestamp, durationDays);
+  const signature = await signer.signTypedData(
+    eip712.domain,
+    { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+    eip712.message,
+  );
+  const result = await instance.userDecrypt(
+    handles.map((handle) => ({ handle, contractAddress: CONTRACT_ADDRESS })),
+    keypair.privateKey,
+    keypair.publicKey,
+    signature.replace('0x', ''),
+    contractAddresses,
+    await signer.getAddress(),
+    startTimestamp,
+    durationDays,
+  );
+  return Object.fromEntries(handles.map((h) => [h, BigInt(result[h] as bigint | string)]));
+}
@@ -1 +1,8 @@
 /// <reference types="vite/client" />
+
+// generated from ../deployments/<network> by the safepoll-deployments plugin in vite.config.ts
+declare module 'virtual:safepoll-deployments' {
+  type Deployment = { address: `0x${string}` } | null;
+  const deployments: { network: string; SafePoll: Deployment; SafePollLens: Deployment };
+  export default deployments;
+}
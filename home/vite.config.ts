@@ -1,7 +1,43 @@
-import { defineConfig } from 'vite'
+import { existsSync, readFileSync } from 'node:fs'
+import { fileURLToPath } from 'node:url'
+import { defineConfig, loadEnv, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 
+const DEPLOYMENTS_MODULE = 'virtual:safepoll-deployments'
+
+// The SafePoll and SafePollLens addresses of the network the app is built for, read at build time from
+// ../deployments/<network>/*.json (written by `hardhat deploy`) and served as `virtual:safepoll-deployments`;
+// a contract not deployed there is null. The dev server reloads when a redeploy rewrites the files.
+function safePollDeployments(network: string): Plugin {
+  const resolved = `\0${DEPLOYMENTS_MODULE}`
+  const file = (name: string) => fileURLToPath(new URL(`../deployments/${network}/${name}.json`, import.meta.url))
+  const read = (name: string) => {
+    if (!existsSync(file(name))) return null
+    const { address } = JSON.parse(readFileSync(file(name), 'utf8'))
+    return { address }
+  }
+  return {
+    name: 'safepoll-deployments',
+    resolveId: (id) => (id === DEPLOYMENTS_MODULE ? resolved : undefined),
+    load(id) {
+      if (id !== resolved) return
+      this.addWatchFile(file('SafePoll'))
+      this.addWatchFile(file('SafePollLens'))
+      return `export default ${JSON.stringify({ network, SafePoll: read('SafePoll'), SafePollLens: read('SafePollLens') })}`
+    },
+  }
+}
+
 // https://vite.dev/config/
-export default defineConfig({
-  plugins: [react()],
+export default defineConfig(({ mode }) => {
+  // `vite --mode localhost` (npm run dev:local) targets a local `npx hardhat node`; VITE_NETWORK picks any other
+  // deployments/ folder
+  const network = loadEnv(mode, process.cwd()).VITE_NETWORK || (mode === 'localhost' ? 'localhost' : 'sepolia')
+  return {
+    plugins: [react(), safePollDeployments(network)],
+    // the SDK (../sdk) and the survey definition schema (../schemas) are shared with the hardhat tasks; the SDK's
+    // imports resolve to the app's own copies
+    server: { fs: { allow: ['..'] } },
+    resolve: { dedupe: ['viem', 'ajv', 'yaml'] },
+  }
 })
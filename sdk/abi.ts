@@ -0,0 +1,887 @@
+// Generated by `npx hardhat safepoll:sdk` (run on every `npx hardhat compile`) from the SafePoll and
+// SafePollLens artifacts. Do not edit.
+
+export const safePollAbi = [
+  { inputs: [], stateMutability: "nonpayable", type: "constructor" },
+  { inputs: [], name: "ECDSAInvalidSignature", type: "error" },
+  {
+    inputs: [{ internalType: "uint256", name: "length", type: "uint256" }],
+    name: "ECDSAInvalidSignatureLength",
+    type: "error",
+  },
+  { inputs: [{ internalType: "bytes32", name: "s", type: "bytes32" }], name: "ECDSAInvalidSignatureS", type: "error" },
+  { inputs: [], name: "HandlesAlreadySavedForRequestID", type: "error" },
+  {
+    inputs: [
+      { internalType: "address", name: "account", type: "address" },
+      { internalType: "uint256", name: "currentNonce", type: "uint256" },
+    ],
+    name: "InvalidAccountNonce",
+    type: "error",
+  },
+  { inputs: [], name: "InvalidKMSSignatures", type: "error" },
+  { inputs: [], name: "InvalidShortString", type: "error" },
+  { inputs: [], name: "NoHandleFoundForRequestID", type: "error" },
+  { inputs: [{ internalType: "string", name: "str", type: "string" }], name: "StringTooLong", type: "error" },
+  {
+    anonymous: false,
+    inputs: [{ indexed: true, internalType: "uint256", name: "requestID", type: "uint256" }],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "uint256", name: "surveyId", type: "uint256" },
+      { indexed: false, internalType: "uint256", name: "requestId", type: "uint256" },
+    ],
+    name: "DecryptionRequested",
+    type: "event",
+  },
+  { anonymous: false, inputs: [], name: "EIP712DomainChanged", type: "event" },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "uint256", name: "surveyId", type: "uint256" },
+      { indexed: false, internalType: "uint256", name: "noised", type: "uint256" },
+      { indexed: false, internalType: "uint256", name: "total", type: "uint256" },
+    ],
+    name: "NoiseAdded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "uint256", name: "surveyId", type: "uint256" },
+      { indexed: true, internalType: "address", name: "previousOwner", type: "address" },
+      { indexed: true, internalType: "address", name: "newOwner", type: "address" },
+    ],
+    name: "OwnershipTransferStarted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "uint256", name: "surveyId", type: "uint256" },
+      { indexed: true, internalType: "address", name: "previousOwner", type: "address" },
+      { indexed: true, internalType: "address", name: "newOwner", type: "address" },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [{ indexed: true, internalType: "uint256", name: "surveyId", type: "uint256" }],
+    name: "ResultsDecrypted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "uint256", name: "surveyId", type: "uint256" },
+      { indexed: false, internalType: "enum SafePoll.Role", name: "role", type: "uint8" },
+      { indexed: true, internalType: "address", name: "account", type: "address" },
+    ],
+    name: "RoleGranted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "uint256", name: "surveyId", type: "uint256" },
+      { indexed: false, internalType: "enum SafePoll.Role", name: "role", type: "uint8" },
+      { indexed: true, internalType: "address", name: "account", type: "address" },
+    ],
+    name: "RoleRevoked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "uint256", name: "surveyId", type: "uint256" },
+      { indexed: false, internalType: "bool", name: "archived", type: "bool" },
+    ],
+    name: "SurveyArchived",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [{ indexed: true, internalType: "uint256", name: "surveyId", type: "uint256" }],
+    name: "SurveyCancelled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "uint256", name: "surveyId", type: "uint256" },
+      { indexed: true, internalType: "address", name: "creator", type: "address" },
+      { indexed: false, internalType: "string", name: "title", type: "string" },
+    ],
+    name: "SurveyCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [{ indexed: true, internalType: "uint256", name: "surveyId", type: "uint256" }],
+    name: "SurveyEdited",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [{ indexed: true, internalType: "uint256", name: "surveyId", type: "uint256" }],
+    name: "SurveyEnded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "uint256", name: "surveyId", type: "uint256" },
+      { indexed: true, internalType: "address", name: "voter", type: "address" },
+    ],
+    name: "VoteSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "uint256", name: "surveyId", type: "uint256" },
+      { indexed: true, internalType: "address", name: "voter", type: "address" },
+    ],
+    name: "VoteUpdated",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "BALLOT_TYPEHASH",
+    outputs: [{ internalType: "bytes32", name: "", type: "bytes32" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "DECRYPTION_TIMEOUT",
+    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_ADMINS",
+    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_RANKED_OPTIONS",
+    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_REVIEWERS",
+    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MIN_EPSILON_MILLI",
+    outputs: [{ internalType: "uint32", name: "", type: "uint32" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "SUPPRESSED",
+    outputs: [{ internalType: "uint32", name: "", type: "uint32" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "surveyId", type: "uint256" }],
+    name: "acceptOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "surveyId", type: "uint256" }],
+    name: "addNoise",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "surveyId", type: "uint256" }],
+    name: "cancelSurvey",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "string", name: "title", type: "string" },
+      { internalType: "string", name: "description", type: "string" },
+      { internalType: "string[]", name: "questionTexts", type: "string[]" },
+      { internalType: "string[][]", name: "questionOptions", type: "string[][]" },
+      {
+        components: [
+          { internalType: "uint256", name: "startTime", type: "uint256" },
+          { internalType: "uint256", name: "endTime", type: "uint256" },
+          { internalType: "enum SafePoll.Eligibility", name: "eligibility", type: "uint8" },
+          { internalType: "bytes32", name: "merkleRoot", type: "bytes32" },
+          { internalType: "address[]", name: "allowlist", type: "address[]" },
+          {
+            components: [
+              { internalType: "enum QuestionKind", name: "kind", type: "uint8" },
+              { internalType: "uint32", name: "minSelections", type: "uint32" },
+              { internalType: "uint32", name: "maxSelections", type: "uint32" },
+              { internalType: "uint32", name: "minValue", type: "uint32" },
+              { internalType: "uint32", name: "maxValue", type: "uint32" },
+            ],
+            internalType: "struct QuestionConfig[]",
+            name: "questionConfigs",
+            type: "tuple[]",
+          },
+          { internalType: "address", name: "weightToken", type: "address" },
+          { internalType: "uint256", name: "weightUnit", type: "uint256" },
+          { internalType: "bool", name: "revotable", type: "bool" },
+          { internalType: "address[]", name: "reviewers", type: "address[]" },
+          { internalType: "uint256", name: "minTurnout", type: "uint256" },
+          { internalType: "uint32", name: "kAnonymity", type: "uint32" },
+          { internalType: "uint32", name: "epsilonMilli", type: "uint32" },
+        ],
+        internalType: "struct SafePoll.SurveySettings",
+        name: "settings",
+        type: "tuple",
+      },
+    ],
+    name: "createSurvey",
+    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "uint256", name: "requestId", type: "uint256" },
+      { internalType: "bytes", name: "cleartexts", type: "bytes" },
+      { internalType: "bytes", name: "decryptionProof", type: "bytes" },
+    ],
+    name: "decryptionCallback",
+    outputs: [{ internalType: "bool", name: "", type: "bool" }],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "uint256", name: "surveyId", type: "uint256" },
+      { internalType: "string", name: "title", type: "string" },
+      { internalType: "string", name: "description", type: "string" },
+      { internalType: "string[]", name: "questionTexts", type: "string[]" },
+      { internalType: "string[][]", name: "questionOptions", type: "string[][]" },
+      {
+        components: [
+          { internalType: "enum QuestionKind", name: "kind", type: "uint8" },
+          { internalType: "uint32", name: "minSelections", type: "uint32" },
+          { internalType: "uint32", name: "maxSelections", type: "uint32" },
+          { internalType: "uint32", name: "minValue", type: "uint32" },
+          { internalType: "uint32", name: "maxValue", type: "uint32" },
+        ],
+        internalType: "struct QuestionConfig[]",
+        name: "questionConfigs",
+        type: "tuple[]",
+      },
+    ],
+    name: "editSurvey",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "eip712Domain",
+    outputs: [
+      { internalType: "bytes1", name: "fields", type: "bytes1" },
+      { internalType: "string", name: "name", type: "string" },
+      { internalType: "string", name: "version", type: "string" },
+      { internalType: "uint256", name: "chainId", type: "uint256" },
+      { internalType: "address", name: "verifyingContract", type: "address" },
+      { internalType: "bytes32", name: "salt", type: "bytes32" },
+      { internalType: "uint256[]", name: "extensions", type: "uint256[]" },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "surveyId", type: "uint256" }],
+    name: "endSurvey",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "surveyId", type: "uint256" }],
+    name: "getAdmins",
+    outputs: [{ internalType: "address[]", name: "", type: "address[]" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "uint256", name: "surveyId", type: "uint256" },
+      { internalType: "address", name: "voter", type: "address" },
+    ],
+    name: "getBallot",
+    outputs: [{ internalType: "euint32[]", name: "answers", type: "bytes32[]" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "surveyId", type: "uint256" }],
+    name: "getDecryptedResults",
+    outputs: [
+      {
+        components: [
+          { internalType: "uint256", name: "surveyId", type: "uint256" },
+          { internalType: "uint256", name: "questionIndex", type: "uint256" },
+          { internalType: "uint256[]", name: "optionCounts", type: "uint256[]" },
+          { internalType: "uint256", name: "invalidCount", type: "uint256" },
+          { internalType: "uint256", name: "sum", type: "uint256" },
+          { internalType: "uint256", name: "sumSquares", type: "uint256" },
+        ],
+        internalType: "struct SafePoll.DecryptedResults[]",
+        name: "",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "surveyId", type: "uint256" }],
+    name: "getEligibility",
+    outputs: [
+      { internalType: "enum SafePoll.Eligibility", name: "eligibility", type: "uint8" },
+      { internalType: "bytes32", name: "merkleRoot", type: "bytes32" },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "uint256", name: "surveyId", type: "uint256" },
+      { internalType: "uint256", name: "questionIndex", type: "uint256" },
+    ],
+    name: "getEncryptedInvalidCount",
+    outputs: [{ internalType: "euint32", name: "", type: "bytes32" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "uint256", name: "surveyId", type: "uint256" },
+      { internalType: "uint256", name: "questionIndex", type: "uint256" },
+    ],
+    name: "getEncryptedNumericTotals",
+    outputs: [
+      { internalType: "euint64", name: "sum", type: "bytes32" },
+      { internalType: "euint64", name: "sumSquares", type: "bytes32" },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "uint256", name: "surveyId", type: "uint256" },
+      { internalType: "uint256", name: "questionIndex", type: "uint256" },
+      { internalType: "uint256", name: "optionIndex", type: "uint256" },
+    ],
+    name: "getEncryptedOptionCount",
+    outputs: [{ internalType: "euint32", name: "", type: "bytes32" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "surveyId", type: "uint256" }],
+    name: "getNoise",
+    outputs: [
+      { internalType: "uint32", name: "epsilonMilli", type: "uint32" },
+      { internalType: "uint256", name: "noised", type: "uint256" },
+      { internalType: "uint256", name: "total", type: "uint256" },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "surveyId", type: "uint256" }],
+    name: "getPendingDecryption",
+    outputs: [
+      { internalType: "uint256", name: "requestId", type: "uint256" },
+      { internalType: "uint256", name: "requestedAt", type: "uint256" },
+      { internalType: "uint256", name: "retryAt", type: "uint256" },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "surveyId", type: "uint256" }],
+    name: "getPendingOwner",
+    outputs: [{ internalType: "address", name: "", type: "address" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "surveyId", type: "uint256" }],
+    name: "getPrivacyThresholds",
+    outputs: [
+      { internalType: "uint256", name: "minTurnout", type: "uint256" },
+      { internalType: "uint32", name: "kAnonymity", type: "uint32" },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "uint256", name: "surveyId", type: "uint256" },
+      { internalType: "uint256", name: "questionIndex", type: "uint256" },
+    ],
+    name: "getQuestion",
+    outputs: [
+      { internalType: "string", name: "text", type: "string" },
+      { internalType: "string[]", name: "options", type: "string[]" },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "uint256", name: "surveyId", type: "uint256" },
+      { internalType: "uint256", name: "questionIndex", type: "uint256" },
+    ],
+    name: "getQuestionConfig",
+    outputs: [
+      {
+        components: [
+          { internalType: "enum QuestionKind", name: "kind", type: "uint8" },
+          { internalType: "uint32", name: "minSelections", type: "uint32" },
+          { internalType: "uint32", name: "maxSelections", type: "uint32" },
+          { internalType: "uint32", name: "minValue", type: "uint32" },
+          { internalType: "uint32", name: "maxValue", type: "uint32" },
+        ],
+        internalType: "struct QuestionConfig",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "surveyId", type: "uint256" }],
+    name: "getReviewers",
+    outputs: [{ internalType: "address[]", name: "", type: "address[]" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "surveyId", type: "uint256" }],
+    name: "getSurveyInfo",
+    outputs: [
+      { internalType: "uint256", name: "id", type: "uint256" },
+      { internalType: "string", name: "title", type: "string" },
+      { internalType: "string", name: "description", type: "string" },
+      { internalType: "address", name: "creator", type: "address" },
+      { internalType: "bool", name: "isActive", type: "bool" },
+      { internalType: "bool", name: "resultsDecrypted", type: "bool" },
+      { internalType: "uint256", name: "questionCount", type: "uint256" },
+      { internalType: "uint256", name: "totalVotes", type: "uint256" },
+      { internalType: "uint256", name: "createdAt", type: "uint256" },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "surveyId", type: "uint256" }],
+    name: "getSurveySchedule",
+    outputs: [
+      { internalType: "uint256", name: "startTime", type: "uint256" },
+      { internalType: "uint256", name: "endTime", type: "uint256" },
+      { internalType: "enum SafePoll.SurveyStatus", name: "status", type: "uint8" },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getTotalSurveys",
+    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "uint256", name: "surveyId", type: "uint256" },
+      { internalType: "address", name: "voter", type: "address" },
+    ],
+    name: "getVoterWeight",
+    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "surveyId", type: "uint256" }],
+    name: "getVotingPower",
+    outputs: [
+      {
+        components: [
+          { internalType: "address", name: "token", type: "address" },
+          { internalType: "uint48", name: "snapshot", type: "uint48" },
+          { internalType: "uint256", name: "unit", type: "uint256" },
+          { internalType: "uint256", name: "totalWeight", type: "uint256" },
+        ],
+        internalType: "struct SafePoll.Weighting",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "uint256", name: "surveyId", type: "uint256" },
+      { internalType: "enum SafePoll.Role", name: "role", type: "uint8" },
+      { internalType: "address", name: "account", type: "address" },
+    ],
+    name: "grantRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "uint256", name: "surveyId", type: "uint256" },
+      { internalType: "address", name: "user", type: "address" },
+    ],
+    name: "hasUserVoted",
+    outputs: [{ internalType: "bool", name: "", type: "bool" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "surveyId", type: "uint256" }],
+    name: "isArchived",
+    outputs: [{ internalType: "bool", name: "", type: "bool" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "uint256", name: "surveyId", type: "uint256" },
+      { internalType: "address", name: "voter", type: "address" },
+      { internalType: "bytes32[]", name: "proof", type: "bytes32[]" },
+    ],
+    name: "isEligible",
+    outputs: [{ internalType: "bool", name: "", type: "bool" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "surveyId", type: "uint256" }],
+    name: "isRevotable",
+    outputs: [{ internalType: "bool", name: "", type: "bool" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "address", name: "owner", type: "address" }],
+    name: "nonces",
+    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "surveyId", type: "uint256" }],
+    name: "requestDecryption",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "uint256", name: "surveyId", type: "uint256" },
+      { internalType: "enum SafePoll.Role", name: "role", type: "uint8" },
+      { internalType: "address", name: "account", type: "address" },
+    ],
+    name: "revokeRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "uint256", name: "surveyId", type: "uint256" },
+      { internalType: "bool", name: "archived", type: "bool" },
+    ],
+    name: "setArchived",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "uint256", name: "surveyId", type: "uint256" },
+      { internalType: "bytes32[]", name: "handles", type: "bytes32[]" },
+      { internalType: "bytes", name: "inputProof", type: "bytes" },
+    ],
+    name: "submitVotes",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          { internalType: "uint256", name: "surveyId", type: "uint256" },
+          { internalType: "address", name: "voter", type: "address" },
+          { internalType: "bytes32[]", name: "handles", type: "bytes32[]" },
+          { internalType: "bytes", name: "inputProof", type: "bytes" },
+          { internalType: "bytes32[]", name: "merkleProof", type: "bytes32[]" },
+          { internalType: "uint256", name: "deadline", type: "uint256" },
+          { internalType: "bytes", name: "signature", type: "bytes" },
+        ],
+        internalType: "struct SafePoll.SignedBallot",
+        name: "ballot",
+        type: "tuple",
+      },
+    ],
+    name: "submitVotesBySig",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "uint256", name: "surveyId", type: "uint256" },
+      { internalType: "bytes32[]", name: "handles", type: "bytes32[]" },
+      { internalType: "bytes", name: "inputProof", type: "bytes" },
+      { internalType: "bytes32[]", name: "merkleProof", type: "bytes32[]" },
+    ],
+    name: "submitVotesWithProof",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "uint256", name: "surveyId", type: "uint256" },
+      { internalType: "address", name: "newOwner", type: "address" },
+    ],
+    name: "transferOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+export const safePollLensAbi = [
+  {
+    inputs: [{ internalType: "contract SafePoll", name: "safePoll_", type: "address" }],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "MAX_PAGE_SIZE",
+    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "surveyId", type: "uint256" }],
+    name: "getEncryptedHandles",
+    outputs: [
+      {
+        components: [
+          { internalType: "euint32[]", name: "optionCounts", type: "bytes32[]" },
+          { internalType: "euint32", name: "invalidCount", type: "bytes32" },
+          { internalType: "euint64", name: "sum", type: "bytes32" },
+          { internalType: "euint64", name: "sumSquares", type: "bytes32" },
+        ],
+        internalType: "struct SafePollLens.QuestionHandles[]",
+        name: "handles",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "surveyId", type: "uint256" }],
+    name: "getSurvey",
+    outputs: [
+      {
+        components: [
+          {
+            components: [
+              { internalType: "uint256", name: "id", type: "uint256" },
+              { internalType: "string", name: "title", type: "string" },
+              { internalType: "string", name: "description", type: "string" },
+              { internalType: "address", name: "creator", type: "address" },
+              { internalType: "bool", name: "isActive", type: "bool" },
+              { internalType: "bool", name: "resultsDecrypted", type: "bool" },
+              { internalType: "uint256", name: "questionCount", type: "uint256" },
+              { internalType: "uint256", name: "totalVotes", type: "uint256" },
+              { internalType: "uint256", name: "createdAt", type: "uint256" },
+              { internalType: "uint256", name: "startTime", type: "uint256" },
+              { internalType: "uint256", name: "endTime", type: "uint256" },
+              { internalType: "enum SafePoll.SurveyStatus", name: "status", type: "uint8" },
+              { internalType: "bool", name: "archived", type: "bool" },
+            ],
+            internalType: "struct SafePollLens.SurveySummary",
+            name: "summary",
+            type: "tuple",
+          },
+          { internalType: "enum SafePoll.Eligibility", name: "eligibility", type: "uint8" },
+          { internalType: "bytes32", name: "merkleRoot", type: "bytes32" },
+          {
+            components: [
+              { internalType: "address", name: "token", type: "address" },
+              { internalType: "uint48", name: "snapshot", type: "uint48" },
+              { internalType: "uint256", name: "unit", type: "uint256" },
+              { internalType: "uint256", name: "totalWeight", type: "uint256" },
+            ],
+            internalType: "struct SafePoll.Weighting",
+            name: "weighting",
+            type: "tuple",
+          },
+          { internalType: "bool", name: "revotable", type: "bool" },
+          { internalType: "address", name: "pendingOwner", type: "address" },
+          { internalType: "address[]", name: "admins", type: "address[]" },
+          { internalType: "address[]", name: "reviewers", type: "address[]" },
+          { internalType: "uint256", name: "minTurnout", type: "uint256" },
+          { internalType: "uint32", name: "kAnonymity", type: "uint32" },
+          { internalType: "uint32", name: "epsilonMilli", type: "uint32" },
+          { internalType: "uint256", name: "noisedCounters", type: "uint256" },
+          { internalType: "uint256", name: "noisableCounters", type: "uint256" },
+          { internalType: "uint256", name: "decryptionRequestedAt", type: "uint256" },
+          { internalType: "uint256", name: "decryptionRetryAt", type: "uint256" },
+          {
+            components: [
+              { internalType: "string", name: "text", type: "string" },
+              { internalType: "string[]", name: "options", type: "string[]" },
+              {
+                components: [
+                  { internalType: "enum QuestionKind", name: "kind", type: "uint8" },
+                  { internalType: "uint32", name: "minSelections", type: "uint32" },
+                  { internalType: "uint32", name: "maxSelections", type: "uint32" },
+                  { internalType: "uint32", name: "minValue", type: "uint32" },
+                  { internalType: "uint32", name: "maxValue", type: "uint32" },
+                ],
+                internalType: "struct QuestionConfig",
+                name: "config",
+                type: "tuple",
+              },
+            ],
+            internalType: "struct SafePollLens.QuestionDetails[]",
+            name: "questions",
+            type: "tuple[]",
+          },
+        ],
+        internalType: "struct SafePollLens.SurveyDetails",
+        name: "d",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "uint256", name: "cursor", type: "uint256" },
+      { internalType: "uint256", name: "limit", type: "uint256" },
+      { internalType: "bool", name: "includeArchived", type: "bool" },
+    ],
+    name: "getSurveys",
+    outputs: [
+      {
+        components: [
+          { internalType: "uint256", name: "id", type: "uint256" },
+          { internalType: "string", name: "title", type: "string" },
+          { internalType: "string", name: "description", type: "string" },
+          { internalType: "address", name: "creator", type: "address" },
+          { internalType: "bool", name: "isActive", type: "bool" },
+          { internalType: "bool", name: "resultsDecrypted", type: "bool" },
+          { internalType: "uint256", name: "questionCount", type: "uint256" },
+          { internalType: "uint256", name: "totalVotes", type: "uint256" },
+          { internalType: "uint256", name: "createdAt", type: "uint256" },
+          { internalType: "uint256", name: "startTime", type: "uint256" },
+          { internalType: "uint256", name: "endTime", type: "uint256" },
+          { internalType: "enum SafePoll.SurveyStatus", name: "status", type: "uint8" },
+          { internalType: "bool", name: "archived", type: "bool" },
+        ],
+        internalType: "struct SafePollLens.SurveySummary[]",
+        name: "page",
+        type: "tuple[]",
+      },
+      { internalType: "uint256", name: "next", type: "uint256" },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "uint256[]", name: "surveyIds", type: "uint256[]" }],
+    name: "getSurveysByIds",
+    outputs: [
+      {
+        components: [
+          { internalType: "uint256", name: "id", type: "uint256" },
+          { internalType: "string", name: "title", type: "string" },
+          { internalType: "string", name: "description", type: "string" },
+          { internalType: "address", name: "creator", type: "address" },
+          { internalType: "bool", name: "isActive", type: "bool" },
+          { internalType: "bool", name: "resultsDecrypted", type: "bool" },
+          { internalType: "uint256", name: "questionCount", type: "uint256" },
+          { internalType: "uint256", name: "totalVotes", type: "uint256" },
+          { internalType: "uint256", name: "createdAt", type: "uint256" },
+          { internalType: "uint256", name: "startTime", type: "uint256" },
+          { internalType: "uint256", name: "endTime", type: "uint256" },
+          { internalType: "enum SafePoll.SurveyStatus", name: "status", type: "uint8" },
+          { internalType: "bool", name: "archived", type: "bool" },
+        ],
+        internalType: "struct SafePollLens.SurveySummary[]",
+        name: "page",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "address", name: "voter", type: "address" },
+      { internalType: "uint256[]", name: "surveyIds", type: "uint256[]" },
+    ],
+    name: "getVoted",
+    outputs: [{ internalType: "bool[]", name: "voted", type: "bool[]" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "safePoll",
+    outputs: [{ internalType: "contract SafePoll", name: "", type: "address" }],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
@@ -0,0 +1,20 @@
+// SafePoll's enums by index, and the constants clients compare the contract's values against
+
+// SafePoll.SurveyStatus
+export const SURVEY_STATUSES = ["Upcoming", "Open", "Closed", "Cancelled"] as const;
+export type SurveyStatus = (typeof SURVEY_STATUSES)[number];
+
+// SurveyTally.QuestionKind, named as survey files and results name them
+export const QUESTION_KINDS = ["single", "multi", "numeric", "ranked"] as const;
+export type QuestionKind = (typeof QUESTION_KINDS)[number];
+
+// SafePoll.Eligibility
+export const ELIGIBILITY_MODES = ["open", "allowlist", "merkle"] as const;
+export type EligibilityMode = (typeof ELIGIBILITY_MODES)[number];
+
+// SafePoll.Role: admins end and decrypt, viewers (the reviewers named at creation) preview the results privately
+export const ROLES = ["admin", "viewer"] as const;
+export type Role = (typeof ROLES)[number];
+
+// SafePoll.SUPPRESSED: revealed in place of a count below the survey's k-anonymity floor (or hidden with them)
+export const SUPPRESSED = 2 ** 32 - 1;
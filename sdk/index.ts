@@ -0,0 +1,280 @@
+import {
+  parseEventLogs,
+  toHex,
+  type Account,
+  type Address,
+  type Chain,
+  type ContractFunctionArgs,
+  type ContractFunctionName,
+  type ContractFunctionReturnType,
+  type Hex,
+  type PublicClient,
+  type Transport,
+  type WalletClient,
+} from "viem";
+import { safePollAbi, safePollLensAbi } from "./abi";
+import type { DecryptionTransactions } from "./results";
+
+/**
+ * Typed bindings of the SafePoll contracts, shared by the Hardhat tasks and the app. The ABIs (./abi) are generated
+ * from the compiled artifacts by `npx hardhat compile`, and every type below is derived from them, so a contract
+ * change that breaks a caller fails its type-check instead of decoding wrong at runtime.
+ *
+ *   const sp = createSafePollClient({ publicClient, walletClient, safePoll, lens });
+ *   const { surveys, next } = await sp.listSurveys({ limit: 10 });
+ *   await sp.vote(id, await input.encrypt());
+ */
+
+export { safePollAbi, safePollLensAbi };
+export * from "./constants";
+export * from "./ranked";
+export * from "./results";
+export * from "./surveyFile";
+
+// SafePollLens.getSurvey: the summary, settings, privacy thresholds and questions of a survey
+export type SurveyDetails = ContractFunctionReturnType<typeof safePollLensAbi, "view", "getSurvey">;
+// SafePollLens.getSurveys and getSurveysByIds
+export type SurveySummary = SurveyDetails["summary"];
+export type QuestionDetails = SurveyDetails["questions"][number];
+// SafePollLens.getEncryptedHandles, one entry per question
+export type QuestionHandles = ContractFunctionReturnType<typeof safePollLensAbi, "view", "getEncryptedHandles">[number];
+// SafePoll.getDecryptedResults, one entry per question
+export type DecryptedResults = ContractFunctionReturnType<typeof safePollAbi, "view", "getDecryptedResults">[number];
+
+// SafePoll.createSurvey's settings, and the per-question config in them (editSurvey takes the configs alone)
+export type SurveySettings = ContractFunctionArgs<typeof safePollAbi, "nonpayable", "createSurvey">[4];
+export type QuestionConfig = SurveySettings["questionConfigs"][number];
+
+// the handles and proof of an encrypted ballot, as the relayer SDK and the hardhat plugin encrypt them
+export type EncryptedBallot = { handles: readonly (Hex | Uint8Array)[]; inputProof: Hex | Uint8Array };
+
+export type SafePollWallet = WalletClient<Transport, Chain | undefined, Account>;
+
+export type SafePollClientConfig = {
+  publicClient: PublicClient;
+  // needed by the functions sending transactions, which are sent from its account; a function returning it is
+  // called on every transaction, so one client outlives the wallet connecting and switching accounts
+  walletClient?: SafePollWallet | (() => SafePollWallet | undefined);
+  safePoll: Address;
+  lens: Address;
+};
+
+export type SafePollClient = ReturnType<typeof createSafePollClient>;
+
+const hex = (value: Hex | Uint8Array): Hex => (typeof value === "string" ? value : toHex(value));
+
+export function createSafePollClient({ publicClient, walletClient, safePoll, lens }: SafePollClientConfig) {
+  const contract = { address: safePoll, abi: safePollAbi } as const;
+  const lensContract = { address: lens, abi: safePollLensAbi } as const;
+
+  function wallet(functionName: string) {
+    const w = typeof walletClient === "function" ? walletClient() : walletClient;
+    if (!w) {
+      throw new Error(`${functionName} needs a wallet client`);
+    }
+    return w;
+  }
+
+  // Waits for a SafePoll transaction to be mined; a call that would revert has already thrown with its reason
+  // while the wallet estimated its gas
+  async function mined(hash: Hex, functionName: string) {
+    const receipt = await publicClient.waitForTransactionReceipt({ hash });
+    if (receipt.status !== "success") {
+      throw new Error(`${functionName} transaction ${hash} reverted`);
+    }
+    return receipt;
+  }
+
+  // Sends a SafePoll transaction from the wallet's account and waits for it to be mined; the arguments are checked
+  // against `functionName` here, which viem can't relate to writeContract's own parameters for a generic name
+  async function write<F extends ContractFunctionName<typeof safePollAbi, "nonpayable">>(
+    functionName: F,
+    args: ContractFunctionArgs<typeof safePollAbi, "nonpayable", F>,
+  ) {
+    const w = wallet(functionName);
+    const hash = await w.writeContract({
+      ...contract,
+      functionName,
+      args,
+      account: w.account,
+      chain: w.chain ?? null,
+    } as Parameters<typeof w.writeContract>[0]);
+    return mined(hash, functionName);
+  }
+
+  // The first block at or after `timestamp`, by bisection: no event of a survey created then is older
+  async function firstBlockAt(timestamp: bigint) {
+    let [lo, hi] = [0n, await publicClient.getBlockNumber()];
+    while (lo < hi) {
+      const mid = (lo + hi) / 2n;
+      const block = await publicClient.getBlock({ blockNumber: mid });
+      [lo, hi] = block.timestamp < timestamp ? [mid + 1n, hi] : [lo, mid];
+    }
+    return lo;
+  }
+
+  return {
+    address: safePoll,
+    lens,
+
+    getSurvey: (id: bigint | number): Promise<SurveyDetails> =>
+      publicClient.readContract({ ...lensContract, functionName: "getSurvey", args: [BigInt(id)] }),
+
+    // A page of surveys, newest first, from `cursor` down (0 = the newest); `next` is the cursor of the following
+    // page, 0 after the last one
+    async listSurveys({ cursor = 0n, limit = 20, includeArchived = false } = {}) {
+      const [surveys, next] = await publicClient.readContract({
+        ...lensContract,
+        functionName: "getSurveys",
+        args: [BigInt(cursor), BigInt(limit), includeArchived],
+      });
+      return { surveys: surveys as readonly SurveySummary[], next };
+    },
+
+    // at most SafePollLens.MAX_PAGE_SIZE ids; throws if one does not exist
+    getSurveysByIds: (ids: readonly bigint[]): Promise<readonly SurveySummary[]> =>
+      publicClient.readContract({ ...lensContract, functionName: "getSurveysByIds", args: [ids] }),
+
+    // whether `voter` voted on each survey, at most SafePollLens.MAX_PAGE_SIZE ids
+    getVoted: (voter: Address, ids: readonly bigint[]): Promise<readonly boolean[]> =>
+      publicClient.readContract({ ...lensContract, functionName: "getVoted", args: [voter, ids] }),
+
+    getEncryptedHandles: (id: bigint | number): Promise<readonly QuestionHandles[]> =>
+      publicClient.readContract({ ...lensContract, functionName: "getEncryptedHandles", args: [BigInt(id)] }),
+
+    // the clear tallies the decryption oracle stored, once summary.resultsDecrypted
+    readResults: (id: bigint | number): Promise<readonly DecryptedResults[]> =>
+      publicClient.readContract({ ...contract, functionName: "getDecryptedResults", args: [BigInt(id)] }),
+
+    // One encrypted answer per question, created for the wallet's account; Merkle-gated surveys need the voter's
+    // proof
+    async vote(id: bigint | number, ballot: EncryptedBallot, merkleProof: readonly Hex[] = []) {
+      const w = wallet("vote");
+      const from = { ...contract, account: w.account, chain: w.chain ?? null };
+      const args = [BigInt(id), ballot.handles.map(hex), hex(ballot.inputProof)] as const;
+      const hash =
+        merkleProof.length > 0
+          ? await w.writeContract({ ...from, functionName: "submitVotesWithProof", args: [...args, merkleProof] })
+          : await w.writeContract({ ...from, functionName: "submitVotes", args });
+      return mined(hash, "vote");
+    },
+
+    hasVoted: (id: bigint | number, voter: Address): Promise<boolean> =>
+      publicClient.readContract({ ...contract, functionName: "hasUserVoted", args: [BigInt(id), voter] }),
+
+    // the encrypted answers of a voter's ballot, which only the voter can decrypt
+    getBallot: (id: bigint | number, voter: Address): Promise<readonly Hex[]> =>
+      publicClient.readContract({ ...contract, functionName: "getBallot", args: [BigInt(id), voter] }),
+
+    // the nonce a ballot signed for a relayer (submitVotesBySig) must carry
+    getNonce: (voter: Address): Promise<bigint> =>
+      publicClient.readContract({ ...contract, functionName: "nonces", args: [voter] }),
+
+    // [epsilonMilli, noised, total]: the budget that holds per ballot, and the counts noised so far out of those
+    // addNoise has to noise
+    getNoise: (id: bigint | number) =>
+      publicClient.readContract({ ...contract, functionName: "getNoise", args: [BigInt(id)] }),
+
+    // [requestId, requestedAt, retryAt] of the decryption request awaiting the oracle; requestedAt = 0 when none
+    getPendingDecryption: (id: bigint | number) =>
+      publicClient.readContract({ ...contract, functionName: "getPendingDecryption", args: [BigInt(id)] }),
+
+    // Creates a survey owned by the wallet's account, returning its id
+    async createSurvey(
+      title: string,
+      description: string,
+      questionTexts: readonly string[],
+      questionOptions: readonly (readonly string[])[],
+      settings: SurveySettings,
+    ) {
+      const receipt = await write("createSurvey", [title, description, questionTexts, questionOptions, settings]);
+      const [created] = parseEventLogs({ abi: safePollAbi, eventName: "SurveyCreated", logs: receipt.logs });
+      return { id: created.args.surveyId, receipt };
+    },
+
+    // creator only, before the first vote
+    editSurvey: (
+      id: bigint | number,
+      title: string,
+      description: string,
+      questionTexts: readonly string[],
+      questionOptions: readonly (readonly string[])[],
+      questionConfigs: readonly QuestionConfig[],
+    ) => write("editSurvey", [BigInt(id), title, description, questionTexts, questionOptions, questionConfigs]),
+
+    // creator only; a cancelled survey closes for good and is never decrypted
+    cancelSurvey: (id: bigint | number) => write("cancelSurvey", [BigInt(id)]),
+
+    // creator only; archived surveys are left out of listSurveys unless includeArchived
+    setArchived: (id: bigint | number, archived: boolean) => write("setArchived", [BigInt(id), archived]),
+
+    // owner only; `role` indexes ROLES
+    grantRole: (id: bigint | number, role: number, account: Address) => write("grantRole", [BigInt(id), role, account]),
+    revokeRole: (id: bigint | number, role: number, account: Address) =>
+      write("revokeRole", [BigInt(id), role, account]),
+
+    // owner only; the new owner takes over once they acceptOwnership, the zero address cancels the proposal
+    transferOwnership: (id: bigint | number, newOwner: Address) => write("transferOwnership", [BigInt(id), newOwner]),
+    acceptOwnership: (id: bigint | number) => write("acceptOwnership", [BigInt(id)]),
+
+    // owner or admin, or anyone once the end time has passed
+    endSurvey: (id: bigint | number) => write("endSurvey", [BigInt(id)]),
+
+    // anyone, after the end: noises the next batch of counts (getNoise tells how many are left)
+    addNoise: (id: bigint | number) => write("addNoise", [BigInt(id)]),
+
+    // owner or admin; the oracle answers by storing the clear tallies (readResults)
+    requestDecryption: (id: bigint | number) => write("requestDecryption", [BigInt(id)]),
+
+    // The survey's owner as of a block: its creator, or whoever accepted its ownership last by then
+    async ownerAt(id: bigint | number, blockNumber: bigint | number): Promise<Address> {
+      const [summary] = await publicClient.readContract({
+        ...lensContract,
+        functionName: "getSurveysByIds",
+        args: [[BigInt(id)]],
+      });
+      const fromBlock = await firstBlockAt(summary.createdAt);
+      const filter = { ...contract, args: { surveyId: BigInt(id) }, fromBlock, toBlock: BigInt(blockNumber) } as const;
+      const [[created], transfers] = await Promise.all([
+        publicClient.getContractEvents({ ...filter, eventName: "SurveyCreated" }),
+        publicClient.getContractEvents({ ...filter, eventName: "OwnershipTransferred" }),
+      ]);
+      if (!created) throw new Error(`survey #${id} did not exist at block ${blockNumber}`);
+      return transfers.at(-1)?.args.newOwner ?? created.args.creator!;
+    },
+
+    // The transactions behind published results: the decryption request the oracle answered (a request replaced
+    // after its timeout is never answered, so it is the latest one), the callback, creation and end. The logs are
+    // searched from the survey's creation on, not the whole chain
+    async findDecryptionTransactions(id: bigint | number): Promise<DecryptionTransactions> {
+      const [summary] = await publicClient.readContract({
+        ...lensContract,
+        functionName: "getSurveysByIds",
+        args: [[BigInt(id)]],
+      });
+      const fromBlock = await firstBlockAt(summary.createdAt);
+      const filter = { ...contract, args: { surveyId: BigInt(id) }, fromBlock } as const;
+      const [requests, callbacks, [created], [ended]] = await Promise.all([
+        publicClient.getContractEvents({ ...filter, eventName: "DecryptionRequested" }),
+        publicClient.getContractEvents({ ...filter, eventName: "ResultsDecrypted" }),
+        publicClient.getContractEvents({ ...filter, eventName: "SurveyCreated" }),
+        publicClient.getContractEvents({ ...filter, eventName: "SurveyEnded" }),
+      ]);
+      const requested = requests.at(-1);
+      const decrypted = callbacks.at(-1);
+      if (!requested || !decrypted || !created) {
+        throw new Error(`survey #${id} has no decryption request and callback on this chain`);
+      }
+      return {
+        decryption: {
+          requestId: String(requested.args.requestId),
+          requestTx: requested.transactionHash,
+          requestBlock: Number(requested.blockNumber),
+          callbackTx: decrypted.transactionHash,
+          callbackBlock: Number(decrypted.blockNumber),
+        },
+        transactions: { created: created.transactionHash, ...(ended ? { ended: ended.transactionHash } : {}) },
+      };
+    },
+  };
+}
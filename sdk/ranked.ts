@@ -0,0 +1,107 @@
+// Ranked ballots are encrypted as the Lehmer code (permutation index) of the full ranking. SafePoll counts them per
+// ordered pair of options (how many ballots rank a above b), so no voter's full ranking is ever revealed: the
+// results are the head-to-head matrix, its Condorcet winner, the Borda count it adds up to and the elimination
+// rounds of Baldwin's method
+
+export function factorial(n: number): number {
+  return n <= 1 ? 1 : n * factorial(n - 1);
+}
+
+// Lehmer code of a full ranking of n options (option indices, best first): what a ranked ballot encrypts
+export function rankingToIndex(ranking: number[], n = ranking.length): number {
+  const sorted = [...ranking].sort((a, b) => a - b);
+  if (ranking.length !== n || sorted.some((x, i) => x !== i)) {
+    throw new Error(`ranking '${ranking.join(">")}' must list each of the ${n} options exactly once`);
+  }
+  const remaining = [...sorted];
+  return ranking.reduce((index, option, i) => {
+    const pos = remaining.indexOf(option);
+    remaining.splice(pos, 1);
+    return index + pos * factorial(n - 1 - i);
+  }, 0);
+}
+
+export function indexToRanking(index: number, n: number): number[] {
+  if (!Number.isInteger(index) || index < 0 || index >= factorial(n)) {
+    throw new Error(`${index} is not a ranking of ${n} options`);
+  }
+  const remaining = Array.from({ length: n }, (_, i) => i);
+  const ranking: number[] = [];
+  for (let i = n - 1; i >= 0; i--) {
+    const f = factorial(i);
+    ranking.push(remaining.splice(Math.floor(index / f), 1)[0]);
+    index %= f;
+  }
+  return ranking;
+}
+
+// matrix[a][b]: the ballots ranking a above b, null where the count was suppressed; the diagonal is 0
+export type PairwiseMatrix = (number | null)[][];
+
+// The n x n matrix of a ranked question's counters, which SafePoll numbers row by row skipping the diagonal
+export function pairwiseMatrix(counts: readonly (number | null)[], n: number): PairwiseMatrix {
+  if (counts.length !== n * (n - 1)) {
+    throw new Error(`${counts.length} counts do not make the pairs of ${n} options`);
+  }
+  let next = 0;
+  return Array.from({ length: n }, (_, a) => Array.from({ length: n }, (_, b) => (a === b ? 0 : counts[next++])));
+}
+
+// The option preferred to every other option head-to-head, if there is one; a tie or a suppressed count leaves
+// the pair undecided
+export function condorcetWinner(matrix: PairwiseMatrix): number | undefined {
+  const beats = (a: number, b: number) => {
+    const [ab, ba] = [matrix[a][b], matrix[b][a]];
+    return ab !== null && ba !== null && ab > ba;
+  };
+  const winner = matrix.findIndex((row, a) => row.every((_, b) => a === b || beats(a, b)));
+  return winner < 0 ? undefined : winner;
+}
+
+// Borda points of every option: n - 1 for each ballot ranking it first down to 0 for last, which over full rankings
+// is the number of head-to-head preferences it won; null when one of them was suppressed
+export function bordaScores(matrix: PairwiseMatrix): (number | null)[] {
+  return matrix.map((row) =>
+    row.reduce<number | null>((points, count) => (points === null || count === null ? null : points + count), 0),
+  );
+}
+
+// The option with the most Borda points, unless it shares them or some points are unknown
+export function bordaWinner(matrix: PairwiseMatrix): number | undefined {
+  const scores = bordaScores(matrix);
+  if (scores.some((s) => s === null)) return undefined;
+  const best = Math.max(...(scores as number[]));
+  const leaders = scores.filter((s) => s === best);
+  return leaders.length === 1 ? scores.indexOf(best) : undefined;
+}
+
+// A round of eliminationRounds: the Borda points of every option still standing, counted against the others still
+// standing, and the options it eliminates
+export type EliminationRound = { standing: number[]; points: (number | null)[]; eliminated: number[] };
+
+// Baldwin's method, the instant runoff the pair counts decide: each round eliminates the option with the fewest Borda
+// points among those still standing (every option tied for fewest at once) until one is left. First preferences
+// alone are never counted, so this is not the first-preference instant runoff. A round with a suppressed count, or
+// eliminating every option still standing, ends the count without a winner
+export function eliminationRounds(matrix: PairwiseMatrix): { rounds: EliminationRound[]; winner: number | undefined } {
+  const rounds: EliminationRound[] = [];
+  let standing = matrix.map((_, a) => a);
+  while (standing.length > 1) {
+    const points = standing.map((a) =>
+      standing.reduce<number | null>((sum, b) => {
+        const count = matrix[a][b];
+        return sum === null || count === null ? null : sum + count;
+      }, 0),
+    );
+    if (points.some((p) => p === null)) {
+      rounds.push({ standing, points, eliminated: [] });
+      return { rounds, winner: undefined };
+    }
+    const fewest = Math.min(...(points as number[]));
+    const eliminated = standing.filter((_, i) => points[i] === fewest);
+    rounds.push({ standing, points, eliminated });
+    if (eliminated.length === standing.length) return { rounds, winner: undefined };
+    standing = standing.filter((a) => !eliminated.includes(a));
+  }
+  return { rounds, winner: standing[0] };
+}
@@ -0,0 +1,258 @@
+import { keccak256, recoverMessageAddress, toBytes, zeroAddress, type Hex } from "viem";
+import type { SurveyDetails } from ".";
+import { QUESTION_KINDS, SURVEY_STATUSES, SUPPRESSED } from "./constants";
+import { bordaScores, bordaWinner, condorcetWinner, pairwiseMatrix } from "./ranked";
+
+/**
+ * Exports of decrypted survey results: the tallies, percentages, turnout and metadata of every question as JSON or
+ * CSV (`safepoll:results --format csv|json`, the app's export buttons), and a results report bundling them with the
+ * decryption request and the transactions behind it, signed (EIP-191) by the account that produced it (`--format
+ * report`). An auditor re-checks a report against the chain with `safepoll:verify-report`.
+ */
+
+export const RESULTS_FORMAT_VERSION = 2;
+
+// a count below the survey's k-anonymity floor is null, and so is its percentage
+export type CountResult = { count: number | null; percent: number | null };
+
+export type QuestionResults = {
+  index: number;
+  text: string;
+  type: string;
+  options?: (CountResult & { option: string })[]; // single and multi
+  invalid?: number | null; // single, multi and ranked
+  pairs?: (CountResult & { above: string; below: string })[]; // ranked: the ballots ranking `above` over `below`
+  // ranked: Borda points per option (percent of the most an option can get), null when a pair count is hidden
+  scores?: (CountResult & { option: string })[];
+  winner?: string | null; // ranked: Borda winner, null on a tie or with hidden pair counts
+  condorcetWinner?: string | null; // ranked
+  // numeric; sum and sumSquares are decimal strings, as uint64 values can exceed JSON's safe integers
+  sum?: string;
+  sumSquares?: string;
+  mean?: number;
+  variance?: number;
+};
+
+export type SurveyResults = {
+  format: "safepoll-results";
+  version: typeof RESULTS_FORMAT_VERSION;
+  chainId: number;
+  contract: string;
+  survey: {
+    id: number;
+    title: string;
+    description: string;
+    creator: string;
+    createdAt: number;
+    startTime: number;
+    endTime: number;
+    status: string;
+  };
+  // percentages are of the votes, or of the total weight on token-weighted surveys; epsilon is the
+  // differential-privacy budget that holds per ballot, 0 = exact counts
+  turnout: { votes: number; totalWeight?: number; minTurnout: number; kAnonymity: number; epsilon: number };
+  questions: QuestionResults[];
+};
+
+// the transactions a report points auditors to (SafePollClient.findDecryptionTransactions)
+export type DecryptionTransactions = {
+  decryption: { requestId: string; requestTx: string; requestBlock: number; callbackTx: string; callbackBlock: number };
+  transactions: { created: string; ended?: string };
+};
+
+export type ResultsReport = DecryptionTransactions & {
+  format: "safepoll-results-report";
+  version: typeof RESULTS_FORMAT_VERSION;
+  results: SurveyResults;
+  generatedAt: string;
+  signer: string;
+  signature: string;
+};
+
+export type UnsignedReport = Omit<ResultsReport, "signature">;
+
+// the clear tallies of one question, as stored by the oracle callback (SafePoll.getDecryptedResults) or decrypted
+// off-chain: every option (or, for ranked questions, ordered pair) count and the invalid count, or the sum and sum of
+// squares of a numeric question
+export type Tally = { optionCounts: readonly bigint[]; invalidCount: bigint; sum: bigint; sumSquares: bigint };
+
+const round2 = (x: number) => Math.round(x * 100) / 100;
+
+export function buildResults(
+  chain: { chainId: number; contract: string },
+  d: SurveyDetails,
+  tallies: readonly Tally[],
+): SurveyResults {
+  const weighted = d.weighting.token !== zeroAddress;
+  const votes = Number(d.summary.totalVotes);
+  const base = weighted ? Number(d.weighting.totalWeight) : votes;
+  const share = (count: bigint): CountResult =>
+    Number(count) === SUPPRESSED
+      ? { count: null, percent: null }
+      : { count: Number(count), percent: base > 0 ? round2((Number(count) * 100) / base) : 0 };
+
+  const questions = d.questions.map((q, index): QuestionResults => {
+    const t = tallies[index];
+    const type = QUESTION_KINDS[Number(q.config.kind)];
+    const options = [...q.options];
+    const invalid = Number(t.invalidCount) === SUPPRESSED ? null : Number(t.invalidCount);
+
+    if (type === "numeric") {
+      const mean = base > 0 ? Number(t.sum) / base : 0;
+      const variance = base > 0 ? Math.max(0, Number(t.sumSquares) / base - mean * mean) : 0;
+      const stats = { mean: round2(mean), variance: round2(variance) };
+      return { index, text: q.text, type, sum: t.sum.toString(), sumSquares: t.sumSquares.toString(), ...stats };
+    }
+    if (type === "ranked") {
+      const matrix = pairwiseMatrix(
+        t.optionCounts.map((c) => (Number(c) === SUPPRESSED ? null : Number(c))),
+        options.length,
+      );
+      const maxPoints = base * (options.length - 1);
+      const winner = bordaWinner(matrix);
+      const condorcet = condorcetWinner(matrix);
+      let counter = 0;
+      return {
+        index,
+        text: q.text,
+        type,
+        // the counters run row by row over the pairs, as in pairwiseMatrix
+        pairs: options.flatMap((above, a) =>
+          options.filter((_, b) => b !== a).map((below) => ({ above, below, ...share(t.optionCounts[counter++]) })),
+        ),
+        scores: bordaScores(matrix).map((points, oi) => ({
+          option: options[oi],
+          count: points,
+          percent: points === null ? null : maxPoints > 0 ? round2((points * 100) / maxPoints) : 0,
+        })),
+        invalid,
+        winner: winner === undefined ? null : options[winner],
+        condorcetWinner: condorcet === undefined ? null : options[condorcet],
+      };
+    }
+    return {
+      index,
+      text: q.text,
+      type,
+      options: options.map((option, oi) => ({ option, ...share(t.optionCounts[oi]) })),
+      invalid,
+    };
+  });
+
+  return {
+    format: "safepoll-results",
+    version: RESULTS_FORMAT_VERSION,
+    chainId: chain.chainId,
+    contract: chain.contract,
+    survey: {
+      id: Number(d.summary.id),
+      title: d.summary.title,
+      description: d.summary.description,
+      creator: d.summary.creator,
+      createdAt: Number(d.summary.createdAt),
+      startTime: Number(d.summary.startTime),
+      endTime: Number(d.summary.endTime),
+      status: SURVEY_STATUSES[Number(d.summary.status)],
+    },
+    turnout: {
+      votes,
+      ...(weighted ? { totalWeight: base } : {}),
+      minTurnout: Number(d.minTurnout),
+      kAnonymity: Number(d.kAnonymity),
+      epsilon: Number(d.epsilonMilli) / 1000,
+    },
+    questions,
+  };
+}
+
+function csvCell(value: string | number | null | undefined): string {
+  const s = value === null || value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+// One row per value: the survey's metadata and turnout first, then every answer of every question. Counts
+// suppressed by the k-anonymity floor read "hidden"
+export function resultsToCsv(r: SurveyResults): string {
+  const hidden = "hidden";
+  const rows: (string | number | null | undefined)[][] = [
+    ["section", "question", "question_text", "type", "answer", "value", "percent"],
+  ];
+  const survey = (answer: string, value: string | number) => rows.push(["survey", "", "", "", answer, value, ""]);
+  const turnout = (answer: string, value: number) => rows.push(["turnout", "", "", "", answer, value, ""]);
+  survey("id", r.survey.id);
+  survey("title", r.survey.title);
+  survey("description", r.survey.description);
+  survey("creator", r.survey.creator);
+  survey("chain_id", r.chainId);
+  survey("contract", r.contract);
+  survey("created_at", new Date(r.survey.createdAt * 1000).toISOString());
+  survey("status", r.survey.status);
+  turnout("votes", r.turnout.votes);
+  if (r.turnout.totalWeight !== undefined) turnout("total_weight", r.turnout.totalWeight);
+  turnout("min_turnout", r.turnout.minTurnout);
+  turnout("k_anonymity", r.turnout.kAnonymity);
+  turnout("epsilon", r.turnout.epsilon);
+
+  for (const q of r.questions) {
+    const row = (answer: string, value: string | number | null | undefined, percent?: number | null) =>
+      rows.push(["question", q.index, q.text, q.type, answer, value === null ? hidden : value, percent]);
+    q.options?.forEach((o) => row(o.option, o.count, o.percent));
+    q.pairs?.forEach((p) => row(`${p.above} > ${p.below}`, p.count, p.percent));
+    q.scores?.forEach((s) => row(`${s.option} (borda points)`, s.count, s.percent));
+    if (q.type === "ranked") {
+      row("(borda winner)", q.winner ?? "");
+      row("(condorcet winner)", q.condorcetWinner ?? "");
+    }
+    if (q.type === "numeric") {
+      row("(sum)", q.sum);
+      row("(sum of squares)", q.sumSquares);
+      row("(mean)", q.mean);
+      row("(variance)", q.variance);
+    } else {
+      row("(invalid)", q.invalid);
+    }
+  }
+  return rows.map((row) => row.map(csvCell).join(",")).join("\n") + "\n";
+}
+
+// JSON with the keys of every object sorted, so a report hashes the same however it was written out
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value !== null && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+// What the signer signs (EIP-191): the hash of the canonical JSON of the report without its signature
+export function reportDigest(report: UnsignedReport): Hex {
+  return keccak256(toBytes(canonicalJson(report)));
+}
+
+// Bundles the results with their transactions and signs them; an ethers signer fits
+export async function signReport(
+  results: SurveyResults,
+  txs: DecryptionTransactions,
+  signer: { getAddress(): Promise<string>; signMessage(message: Uint8Array): Promise<string> },
+): Promise<ResultsReport> {
+  const report: UnsignedReport = {
+    format: "safepoll-results-report",
+    version: RESULTS_FORMAT_VERSION,
+    results,
+    ...txs,
+    generatedAt: new Date().toISOString(),
+    signer: await signer.getAddress(),
+  };
+  return { ...report, signature: await signer.signMessage(toBytes(reportDigest(report))) };
+}
+
+// The address that signed a report; it matches report.signer unless the report was altered
+export async function recoverReportSigner(report: ResultsReport): Promise<string> {
+  const { signature, ...unsigned } = report;
+  return recoverMessageAddress({ message: { raw: reportDigest(unsigned) }, signature: signature as Hex });
+}
@@ -0,0 +1,81 @@
+import Ajv, { type ErrorObject } from "ajv";
+import { parse, stringify } from "yaml";
+import schema from "../schemas/survey.schema.json";
+import type { EligibilityMode, QuestionKind } from "./constants";
+
+/**
+ * Survey definition files: the title, description, questions and settings of a survey as JSON or YAML, checked
+ * against schemas/survey.schema.json. Read by `safepoll:create --file` and the app's import, written by
+ * `safepoll:export` and the app's export.
+ *
+ *   version: 1
+ *   title: Team offsite
+ *   questions:
+ *     - text: Where should we go?
+ *       options: ["Lisbon, Portugal", "Berlin; or nearby"]
+ *     - text: How was last year's?
+ *       type: numeric
+ *       min: 1
+ *       max: 5
+ */
+
+export const SURVEY_FORMAT_VERSION = 1;
+
+export type QuestionDefinition = {
+  text: string;
+  type?: QuestionKind;
+  options?: string[];
+  minSelections?: number; // multi only
+  maxSelections?: number; // multi only, 0 = up to every option
+  min?: number; // numeric only
+  max?: number; // numeric only
+};
+
+export type SurveyDefinition = {
+  version: typeof SURVEY_FORMAT_VERSION;
+  title: string;
+  description?: string;
+  start?: number | string; // unix seconds or a date string, omitted = immediately
+  end?: number | string; // omitted = no deadline
+  eligibility?: EligibilityMode;
+  allowlist?: string[];
+  merkleRoot?: string;
+  weighting?: { token: string; decimals?: number; unit?: string };
+  revotable?: boolean;
+  reviewers?: string[];
+  privacy?: { minTurnout?: number; kAnonymity?: number; epsilon?: number };
+  questions: QuestionDefinition[];
+};
+
+const validate = new Ajv({ allErrors: true }).compile<SurveyDefinition>(schema);
+
+// "/questions/0/options must NOT have fewer than 2 items"; the if/anyOf/oneOf errors ajv adds on top of the failing
+// branch say nothing more
+function describeError(e: ErrorObject): string {
+  const at = e.instancePath || "/";
+  if (e.keyword === "additionalProperties") {
+    return `${at} has an unknown field '${(e.params as { additionalProperty: string }).additionalProperty}'`;
+  }
+  return `${at} ${e.message}`;
+}
+
+// JSON is valid YAML, so one parser reads both
+export function parseSurveyDefinition(text: string, source: string): SurveyDefinition {
+  let doc: unknown;
+  try {
+    doc = parse(text);
+  } catch (e) {
+    throw new Error(`${source}: ${(e as Error).message}`);
+  }
+  if (!validate(doc)) {
+    const errors = validate.errors ?? [];
+    const specific = errors.filter((e) => !["if", "anyOf", "oneOf"].includes(e.keyword));
+    const lines = [...new Set((specific.length > 0 ? specific : errors).map(describeError))];
+    throw new Error(`${source} is not a valid survey definition:\n  ${lines.join("\n  ")}`);
+  }
+  return doc;
+}
+
+export function formatSurveyDefinition(def: SurveyDefinition, format: "json" | "yaml"): string {
+  return format === "json" ? `${JSON.stringify(def, null, 2)}\n` : stringify(def);
+}
@@ -1,5 +1,49 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { StandardMerkleTree } from "@openzeppelin/merkle-tree";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { getAddress, hexlify, isAddress, ZeroAddress, ZeroHash } from "ethers";
+import * as fs from "fs";
 import { task } from "hardhat/config";
-import type { TaskArguments } from "hardhat/types";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+import type { Address, Hex } from "viem";
+import {
+  bordaScores,
+  bordaWinner,
+  buildResults,
+  canonicalJson,
+  condorcetWinner,
+  eliminationRounds,
+  ELIGIBILITY_MODES,
+  factorial,
+  formatSurveyDefinition,
+  indexToRanking,
+  pairwiseMatrix,
+  parseSurveyDefinition,
+  QUESTION_KINDS,
+  rankingToIndex,
+  recoverReportSigner,
+  RESULTS_FORMAT_VERSION,
+  resultsToCsv,
+  ROLES,
+  signReport,
+  SUPPRESSED,
+  SURVEY_FORMAT_VERSION,
+  SURVEY_STATUSES,
+  type EligibilityMode,
+  type QuestionConfig,
+  type QuestionDefinition,
+  type QuestionDetails,
+  type QuestionKind,
+  type QuestionHandles,
+  type ResultsReport,
+  type Role,
+  type SurveyDefinition,
+  type SurveyDetails,
+  type SurveyResults,
+  type SurveySettings,
+  type Tally,
+} from "../sdk";
+import { safePollClient } from "./sdk";
 
 /**
  * SafePoll tasks
@@ -7,153 +51,1205 @@ import type { TaskArguments } from "hardhat/types";
  * Examples (local mock):
  *   - npx hardhat --network localhost safepoll:address
  *   - npx hardhat --network localhost safepoll:create --title "t" --desc "d" --questions "Q1;Q2" --options "A,B;X,Y,Z"
+ *   - npx hardhat --network localhost safepoll:create ... --start "2025-01-01T09:00" --end 1735722000
+ *   - npx hardhat --network localhost safepoll:create ... --eligibility merkle --voters voters.csv
+ *   - npx hardhat --network localhost safepoll:proof --voters voters.csv --address 0x... [--out proofs.json]
+ *   - npx hardhat --network localhost safepoll:create ... --weight-token 0x... --weight-decimals 18   (ERC20Votes/ERC721Votes)
+ *   - npx hardhat --network localhost safepoll:create ... --types "single;multi:1-2;numeric:1-5" --options "A,B;X,Y,Z;"
+ *   - npx hardhat --network localhost safepoll:create --file survey.yaml [--voters voters.csv]   (see sdk/surveyFile.ts)
+ *   - npx hardhat --network localhost safepoll:export --id 1 [--out survey.yaml]
+ *   - npx hardhat --network localhost safepoll:edit --id 1 --title "t" --desc "d" --questions "Q1" --options "A,B"   (before the first vote)
+ *   - npx hardhat --network localhost safepoll:cancel --id 1
+ *   - npx hardhat --network localhost safepoll:archive --id 1 [--restore]
+ *   - npx hardhat --network localhost safepoll:admins --id 1
+ *   - npx hardhat --network localhost safepoll:admins:grant --id 1 --role admin|viewer --address 0x...
+ *   - npx hardhat --network localhost safepoll:admins:revoke --id 1 --role admin --address 0x...
+ *   - npx hardhat --network localhost safepoll:admins:transfer --id 1 --to 0x...   (then, as 0x...:)
+ *   - npx hardhat --network localhost safepoll:admins:accept --id 1 --account 1
  *   - npx hardhat --network localhost safepoll:vote --id 1 --choices "0,2"
+ *   - npx hardhat --network localhost safepoll:vote --id 1 --choices "0,1+2"   (multi-select: '+'-joined, '-' = none)
+ *   - npx hardhat --network localhost safepoll:vote --id 1 --choices "2>0>1"   (ranked: best first, every option once)
+ *   - npx hardhat --network localhost safepoll:revote --id 1 --choices "1,2"   (surveys created with --revotable)
+ *   - npx hardhat --network localhost safepoll:vote --id 1 --choices "0" --account 2 --relayer http://localhost:8547
+ *     (gasless: signs the ballot for a running safepoll:relayer, see tasks/relayer.ts)
+ *   - npx hardhat --network localhost safepoll:my-ballot --id 1
+ *   - npx hardhat --network localhost safepoll:create ... --reviewers "0xabc...,0xdef..."
+ *   - npx hardhat --network localhost safepoll:preview --id 1 [--account 1]   (owner/viewer, after end)
+ *   - npx hardhat --network localhost safepoll:create ... --min-turnout 10 --k-anonymity 5
+ *   - npx hardhat --network localhost safepoll:create ... --epsilon 1   (noisy counts, differential privacy)
  *   - npx hardhat --network localhost safepoll:end --id 1
+ *   - npx hardhat --network localhost safepoll:add-noise --id 1   (after end, surveys created with --epsilon)
  *   - npx hardhat --network localhost safepoll:request-decrypt --id 1
+ *   - npx hardhat --network localhost safepoll:results --id 1   (after the oracle callback)
+ *   - npx hardhat --network localhost safepoll:results --id 1 --format csv|json|report [--out results.csv]
+ *   - npx hardhat --network localhost safepoll:verify-report --file report.json
+ *   - npx hardhat --network localhost safepoll:survey --id 1 --results
+ *   - npx hardhat --network localhost safepoll:survey [--limit 10] [--cursor 42]   (a page of surveys, newest first)
+ *   - npx hardhat --network localhost safepoll:ranked --id 1 --question 0
  */
 
-task("safepoll:address", "Prints the SafePoll address").setAction(async function (_: TaskArguments, hre) {
+const RESULTS_FORMATS = ["text", "csv", "json", "report"];
+
+function parseRole(role: string): number {
+  const index = ROLES.indexOf(String(role).toLowerCase() as Role);
+  if (index < 0) {
+    throw new Error(`--role must be one of ${ROLES.join(", ")}`);
+  }
+  return index;
+}
+
+// "single" | "multi" | "multi:MIN-MAX" | "multi:MAX" (pick up to MAX) | "numeric:MIN-MAX" | "ranked"
+function parseQuestionType(spec: string): QuestionConfig {
+  const [name, bounds] = spec.split(":").map((s) => s.trim().toLowerCase());
+  const kind = QUESTION_KINDS.indexOf(name as QuestionKind);
+  if (kind < 0) {
+    throw new Error(`unknown question type '${spec}', expected one of ${QUESTION_KINDS.join(", ")}`);
+  }
+  const config = { kind, minSelections: 0, maxSelections: 0, minValue: 0, maxValue: 0 };
+  if (!bounds) {
+    if (name === "numeric") {
+      throw new Error(`numeric questions need a range, e.g. 'numeric:1-5'`);
+    }
+    return config;
+  }
+  const [a, b] = bounds.split("-").map((x) => parseInt(x, 10));
+  const [lo, hi] = b === undefined ? [0, a] : [a, b];
+  if (!Number.isInteger(lo) || !Number.isInteger(hi)) {
+    throw new Error(`invalid bounds in '${spec}'`);
+  }
+  return name === "numeric"
+    ? { ...config, minValue: lo, maxValue: hi }
+    : { ...config, minSelections: lo, maxSelections: hi };
+}
+
+// One answer per question: an option index or numeric value, for multi-select questions '+'-joined
+// indices ('-' = none), and for ranked questions '>'-joined indices, best first
+function encodeAnswer(answer: string, kind: number, optionCount: number): number {
+  if (QUESTION_KINDS[kind] === "ranked") {
+    return rankingToIndex(answer.split(">").map((x) => parseInt(x.trim(), 10)), optionCount);
+  }
+  const parts = answer === "-" ? [] : answer.split("+").map((x) => parseInt(x.trim(), 10));
+  if (parts.some((x) => !Number.isInteger(x) || x < 0)) {
+    throw new Error(`invalid answer '${answer}'`);
+  }
+  if (QUESTION_KINDS[kind] !== "multi" && parts.length !== 1) {
+    throw new Error(`answer must be a single number, got '${answer}'`);
+  }
+  if (QUESTION_KINDS[kind] === "numeric") return parts[0];
+  const outOfRange = parts.find((oi) => oi >= optionCount);
+  if (outOfRange !== undefined) {
+    throw new Error(`option ${outOfRange} out of range in '${answer}', the question has ${optionCount} options`);
+  }
+  return QUESTION_KINDS[kind] === "multi" ? parts.reduce((mask, oi) => mask | (1 << oi), 0) >>> 0 : parts[0];
+}
+
+// Inverse of encodeAnswer, for printing a decrypted ballot
+function describeAnswer(value: number, kind: number, options: readonly string[]): string {
+  const name = (oi: number) => options[oi] ?? `#${oi} (out of range)`;
+  switch (QUESTION_KINDS[kind]) {
+    case "multi": {
+      const picked = options.map((_, oi) => oi).filter((oi) => ((value >>> oi) & 1) === 1);
+      const extra = value >>> options.length !== 0 ? " + bits beyond the options" : "";
+      return picked.length > 0 ? picked.map(name).join(" + ") + extra : `(none)${extra}`;
+    }
+    case "numeric":
+      return String(value);
+    case "ranked":
+      return value < factorial(options.length)
+        ? indexToRanking(value, options.length).map(name).join(" > ")
+        : `ranking #${value} (out of range)`;
+    default:
+      return name(value);
+  }
+}
+
+// Accepts unix seconds or any date string understood by Date.parse; empty -> 0 (unset)
+function parseTimestamp(value: unknown, name: string): number {
+  if (value === undefined || value === "") return 0;
+  const raw = String(value).trim();
+  const ts = /^\d+$/.test(raw) ? Number(raw) : Math.floor(Date.parse(raw) / 1000);
+  if (!Number.isFinite(ts) || ts < 0) {
+    throw new Error(`--${name} must be unix seconds or a date string, got '${raw}'`);
+  }
+  return ts;
+}
+
+function parseCount(value: unknown, name: string): number {
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 0) {
+    throw new Error(`--${name} must be a non-negative integer, got '${value}'`);
+  }
+  return n;
+}
+
+// "0.5" -> 500: SafePoll stores epsilon in thousandths
+function parseEpsilon(value: unknown): number {
+  const epsilon = Number(value);
+  if (!Number.isFinite(epsilon) || epsilon < 0) {
+    throw new Error(`--epsilon must be a non-negative number, got '${value}'`);
+  }
+  return Math.round(epsilon * 1000);
+}
+
+function formatTimestamp(ts: number): string {
+  return ts === 0 ? "-" : `${ts} (${new Date(ts * 1000).toISOString()})`;
+}
+
+// Reads voter addresses from the first column of a CSV file; a header row and blank lines are skipped
+function readVoterCsv(path: string): string[] {
+  const rows = fs
+    .readFileSync(path, "utf8")
+    .split(/\r?\n/)
+    .map((line) => line.split(",")[0].trim().replace(/^"|"$/g, ""))
+    .filter((cell) => cell.length > 0);
+  const addresses = rows.filter((cell, i) => !(i === 0 && !isAddress(cell)));
+  const invalid = addresses.find((a) => !isAddress(a));
+  if (invalid !== undefined) {
+    throw new Error(`invalid address '${invalid}' in ${path}`);
+  }
+  const unique = [...new Set(addresses.map((a) => getAddress(a)))];
+  if (unique.length === 0) {
+    throw new Error(`no addresses found in ${path}`);
+  }
+  return unique;
+}
+
+function readSurveyFile(path: string): SurveyDefinition {
+  return parseSurveyDefinition(fs.readFileSync(path, "utf8"), path);
+}
+
+// Leaves are abi.encode(address), double-hashed, matching SafePoll._isEligible
+function buildVoterTree(addresses: string[]) {
+  return StandardMerkleTree.of(
+    addresses.map((a) => [a]),
+    ["address"],
+  );
+}
+
+// --questions / --options / --types, shared by safepoll:create and safepoll:edit
+function parseQuestions(args: TaskArguments) {
+  const questionTexts: string[] = String(args.questions)
+    .split(";")
+    .map((s) => s.trim())
+    .filter((s) => s.length > 0);
+  const questionOptions: string[][] = String(args.options)
+    .split(";")
+    .map((group) => group.split(",").map((s) => s.trim()).filter((s) => s.length > 0));
+  // tolerate a trailing ';'
+  if (questionOptions.length === questionTexts.length + 1 && questionOptions.at(-1)?.length === 0) {
+    questionOptions.pop();
+  }
+
+  if (questionTexts.length === 0 || questionTexts.length !== questionOptions.length) {
+    throw new Error("questions/options length mismatch or empty");
+  }
+
+  const questionConfigs: QuestionConfig[] = args.types
+    ? String(args.types)
+        .split(";")
+        .map((t) => parseQuestionType(t))
+    : [];
+  if (questionConfigs.length > 0 && questionConfigs.length !== questionTexts.length) {
+    throw new Error("types must list one entry per question");
+  }
+  return { questionTexts, questionOptions, questionConfigs };
+}
+
+// The arguments of SafePoll.createSurvey, plus the voters read for an allowlist or merkle survey
+type NewSurvey = {
+  title: string;
+  description: string;
+  questionTexts: string[];
+  questionOptions: string[][];
+  settings: SurveySettings;
+  voters: string[];
+};
+
+// safepoll:create from --title, --desc, --questions, --options and the settings flags
+function surveyFromFlags(args: TaskArguments): NewSurvey {
+  if (
+    args.title === undefined ||
+    args.desc === undefined ||
+    args.questions === undefined ||
+    args.options === undefined
+  ) {
+    throw new Error("pass --file, or --title, --desc, --questions and --options");
+  }
+  const { questionTexts, questionOptions, questionConfigs } = parseQuestions(args);
+
+  const eligibility = ELIGIBILITY_MODES.indexOf(String(args.eligibility).toLowerCase() as EligibilityMode);
+  if (eligibility < 0) {
+    throw new Error(`--eligibility must be one of ${ELIGIBILITY_MODES.join(", ")}`);
+  }
+  if (eligibility > 0 && !args.voters) {
+    throw new Error(`--voters is required for --eligibility ${ELIGIBILITY_MODES[eligibility]}`);
+  }
+  if (args.weightToken && !isAddress(args.weightToken)) {
+    throw new Error(`invalid --weight-token '${args.weightToken}'`);
+  }
+  const weightDecimals = Number(args.weightDecimals);
+  if (!Number.isInteger(weightDecimals) || weightDecimals < 0) {
+    throw new Error(`--weight-decimals must be a non-negative integer`);
+  }
+
+  const reviewers: string[] = args.reviewers
+    ? String(args.reviewers)
+        .split(",")
+        .map((a) => a.trim())
+    : [];
+  const badReviewer = reviewers.find((a) => !isAddress(a));
+  if (badReviewer !== undefined) {
+    throw new Error(`invalid reviewer address '${badReviewer}'`);
+  }
+
+  const voters = eligibility > 0 ? readVoterCsv(args.voters) : [];
+  const merkleRoot = eligibility === 2 ? buildVoterTree(voters).root : ZeroHash;
+
+  const settings: SurveySettings = {
+    startTime: BigInt(parseTimestamp(args.start, "start")),
+    endTime: BigInt(parseTimestamp(args.end, "end")),
+    eligibility,
+    merkleRoot: merkleRoot as Hex,
+    allowlist: (eligibility === 1 ? voters : []) as Address[],
+    questionConfigs,
+    weightToken: (args.weightToken ? getAddress(args.weightToken) : ZeroAddress) as Address,
+    weightUnit: args.weightToken ? 10n ** BigInt(weightDecimals) : 0n,
+    revotable: Boolean(args.revotable),
+    reviewers: reviewers.map((a) => getAddress(a) as Address),
+    minTurnout: BigInt(parseCount(args.minTurnout, "min-turnout")),
+    kAnonymity: parseCount(args.kAnonymity, "k-anonymity"),
+    epsilonMilli: parseEpsilon(args.epsilon),
+  };
+  return { title: args.title, description: args.desc, questionTexts, questionOptions, settings, voters };
+}
+
+// safepoll:create --file; a voters CSV stands in for the allowlist or merkle root the file leaves out
+function surveyFromDefinition(def: SurveyDefinition, votersCsv?: string): NewSurvey {
+  const eligibility = ELIGIBILITY_MODES.indexOf(def.eligibility ?? "open");
+  let voters: string[] = [];
+  if (eligibility === 1) {
+    if (!def.allowlist && !votersCsv) {
+      throw new Error("an allowlist survey needs an 'allowlist' in the file or --voters");
+    }
+    voters = def.allowlist ? def.allowlist.map((a) => getAddress(a)) : readVoterCsv(votersCsv!);
+  }
+  if (eligibility === 2 && !def.merkleRoot) {
+    if (!votersCsv) {
+      throw new Error("a merkle survey needs a 'merkleRoot' in the file or --voters");
+    }
+    voters = readVoterCsv(votersCsv);
+  }
+
+  const questions = def.questions.map((q) => ({
+    text: q.text,
+    options: q.type === "numeric" ? [] : (q.options ?? []),
+    config: {
+      kind: QUESTION_KINDS.indexOf(q.type ?? "single"),
+      minSelections: q.minSelections ?? 0,
+      maxSelections: q.maxSelections ?? 0,
+      minValue: q.min ?? 0,
+      maxValue: q.max ?? 0,
+    },
+  }));
+  const { weighting, privacy = {} } = def;
+
+  const settings: SurveySettings = {
+    startTime: BigInt(parseTimestamp(def.start, "start")),
+    endTime: BigInt(parseTimestamp(def.end, "end")),
+    eligibility,
+    merkleRoot: (eligibility !== 2 ? ZeroHash : (def.merkleRoot ?? buildVoterTree(voters).root)) as Hex,
+    allowlist: (eligibility === 1 ? voters : []) as Address[],
+    // all-single surveys keep the compact encoding (no per-question configs)
+    questionConfigs: questions.some((q) => q.config.kind !== 0) ? questions.map((q) => q.config) : [],
+    weightToken: (weighting ? getAddress(weighting.token) : ZeroAddress) as Address,
+    weightUnit: weighting ? (weighting.unit ? BigInt(weighting.unit) : 10n ** BigInt(weighting.decimals ?? 0)) : 0n,
+    revotable: def.revotable ?? false,
+    reviewers: (def.reviewers ?? []).map((a) => getAddress(a) as Address),
+    minTurnout: BigInt(privacy.minTurnout ?? 0),
+    kAnonymity: privacy.kAnonymity ?? 0,
+    epsilonMilli: parseEpsilon(privacy.epsilon ?? 0),
+  };
+  return {
+    title: def.title,
+    description: def.description ?? "",
+    questionTexts: questions.map((q) => q.text),
+    questionOptions: questions.map((q) => q.options),
+    settings,
+    voters,
+  };
+}
+
+// Inverse of surveyFromDefinition, leaving out what is at its default; the allowlist is not readable on-chain
+function surveyToDefinition(d: SurveyDetails): SurveyDefinition {
+  const def: Omit<SurveyDefinition, "questions"> = { version: SURVEY_FORMAT_VERSION, title: d.summary.title };
+  if (d.summary.description) def.description = d.summary.description;
+  const isoTime = (ts: bigint) => new Date(Number(ts) * 1000).toISOString();
+  if (d.summary.startTime > 0n) def.start = isoTime(d.summary.startTime);
+  if (d.summary.endTime > 0n) def.end = isoTime(d.summary.endTime);
+
+  if (d.eligibility > 0) def.eligibility = ELIGIBILITY_MODES[d.eligibility];
+  if (d.eligibility === 2) def.merkleRoot = d.merkleRoot;
+  if (d.weighting.token !== ZeroAddress) {
+    const { token, unit } = d.weighting;
+    const decimals = unit.toString().length - 1;
+    def.weighting = unit === 10n ** BigInt(decimals) ? { token, decimals } : { token, unit: unit.toString() };
+  }
+  if (d.revotable) def.revotable = true;
+  if (d.reviewers.length > 0) def.reviewers = [...d.reviewers];
+
+  const privacy: NonNullable<SurveyDefinition["privacy"]> = {};
+  if (d.minTurnout > 0n) privacy.minTurnout = Number(d.minTurnout);
+  if (d.kAnonymity > 0) privacy.kAnonymity = d.kAnonymity;
+  if (d.epsilonMilli > 0) privacy.epsilon = d.epsilonMilli / 1000;
+  if (Object.keys(privacy).length > 0) def.privacy = privacy;
+
+  const questions = d.questions.map((q): QuestionDefinition => {
+    const type = QUESTION_KINDS[q.config.kind];
+    const { minSelections, maxSelections, minValue, maxValue } = q.config;
+    switch (type) {
+      case "numeric":
+        return { text: q.text, type, min: minValue, max: maxValue };
+      case "multi":
+        return {
+          text: q.text,
+          type,
+          options: [...q.options],
+          ...(minSelections > 0 ? { minSelections } : {}),
+          ...(maxSelections > 0 ? { maxSelections } : {}),
+        };
+      case "ranked":
+        return { text: q.text, type, options: [...q.options] };
+      default:
+        return { text: q.text, options: [...q.options] };
+    }
+  });
+  return { ...def, questions };
+}
+
+task("safepoll:address", "Prints the SafePoll and SafePollLens addresses").setAction(async function (
+  _: TaskArguments,
+  hre,
+) {
   const { deployments } = hre;
   const deployed = await deployments.get("SafePoll");
   console.log(`SafePoll address is ${deployed.address}`);
+  console.log(`SafePollLens address is ${(await deployments.get("SafePollLens")).address}`);
 });
 
 task("safepoll:create", "Create a new survey")
-  .addParam("title", "Survey title")
-  .addParam("desc", "Survey description")
-  .addParam(
+  .addOptionalParam(
+    "file",
+    "JSON or YAML survey definition (see schemas/survey.schema.json), instead of the flags below",
+  )
+  .addOptionalParam("title", "Survey title")
+  .addOptionalParam("desc", "Survey description")
+  .addOptionalParam(
     "questions",
     "Semicolon-separated question texts. Example: 'Q1;Q2'",
   )
-  .addParam(
+  .addOptionalParam(
     "options",
-    "Semicolon-separated options per question, comma-separated within each. Example: 'A,B;X,Y,Z'",
+    "Semicolon-separated options per question, comma-separated within each; empty for numeric questions. Example: 'A,B;X,Y,Z'",
+  )
+  .addOptionalParam("start", "Opening time (unix seconds or date string). Defaults to immediately.")
+  .addOptionalParam("end", "Closing time (unix seconds or date string). Defaults to no deadline.")
+  .addOptionalParam("eligibility", "Who may vote: open | allowlist | merkle", "open")
+  .addOptionalParam(
+    "voters",
+    "CSV of voter addresses (first column), required for allowlist and merkle unless the --file lists them",
   )
+  .addOptionalParam(
+    "types",
+    "Semicolon-separated question types: single | multi | multi:MIN-MAX | multi:MAX | numeric:MIN-MAX | ranked. Defaults to single.",
+  )
+  .addOptionalParam(
+    "weightToken",
+    "ERC20Votes/ERC721Votes token to weight ballots by (delegated votes at creation). Defaults to one vote per address.",
+  )
+  .addOptionalParam("weightDecimals", "Token decimals per unit of weight, e.g. 18 for one vote per whole token", "0")
+  .addFlag("revotable", "Let voters replace their answers while the survey is open")
+  .addOptionalParam("reviewers", "Comma-separated addresses that may preview the results privately with the creator")
+  .addOptionalParam("minTurnout", "Votes required before results can be decrypted", "0")
+  .addOptionalParam(
+    "kAnonymity",
+    "Smallest count revealed as is; smaller ones, zero included, are hidden, with the next smallest if they are all equal",
+    "0",
+  )
+  .addOptionalParam(
+    "epsilon",
+    "Differential-privacy budget per ballot, at least 0.5 for each count a ballot can move; noise is added after the end",
+    "0",
+  )
+  .setAction(async function (args: TaskArguments, hre) {
+    const [signer] = await hre.ethers.getSigners();
+    const sp = await safePollClient(hre, signer.address);
+
+    const survey = args.file ? surveyFromDefinition(readSurveyFile(args.file), args.voters) : surveyFromFlags(args);
+    const { settings, voters } = survey;
+
+    const { id, receipt } = await sp.createSurvey(
+      survey.title,
+      survey.description,
+      survey.questionTexts,
+      survey.questionOptions,
+      settings,
+    );
+    console.log(`Create tx: ${receipt.transactionHash}`);
+    if (settings.eligibility === 2) {
+      console.log(`Merkle root: ${settings.merkleRoot}` + (voters.length > 0 ? ` (${voters.length} voters)` : ""));
+    } else if (settings.eligibility === 1) {
+      console.log(`Allowlisted voters: ${voters.length}`);
+    }
+    console.log(`Survey id: ${id}`);
+  });
+
+task("safepoll:export", "Write a survey out as a JSON or YAML definition that safepoll:create --file reads back")
+  .addParam("id", "Survey id")
+  .addOptionalParam("out", "File to write (.json for JSON, YAML otherwise). Defaults to printing YAML.")
+  .setAction(async function (args: TaskArguments, hre) {
+    const sp = await safePollClient(hre);
+    const d = await sp.getSurvey(Number(args.id));
+    const format = args.out?.toLowerCase().endsWith(".json") ? "json" : "yaml";
+    const text = formatSurveyDefinition(surveyToDefinition(d), format);
+    if (d.eligibility === 1) {
+      console.warn("Allowlisted voters are not readable on-chain: add an 'allowlist' or pass --voters when creating");
+    }
+    if (!args.out) {
+      process.stdout.write(text);
+      return;
+    }
+    fs.writeFileSync(args.out, text);
+    console.log(`Wrote survey #${args.id} to ${args.out}`);
+  });
+
+task("safepoll:edit", "Replace the title, description and questions of a survey nobody has voted on yet (creator only)")
+  .addParam("id", "Survey id")
+  .addParam("title", "Survey title")
+  .addParam("desc", "Survey description")
+  .addParam("questions", "Semicolon-separated question texts, as for safepoll:create")
+  .addParam("options", "Semicolon-separated options per question, as for safepoll:create")
+  .addOptionalParam("types", "Semicolon-separated question types, as for safepoll:create. Defaults to single.")
+  .setAction(async function (args: TaskArguments, hre) {
+    const [signer] = await hre.ethers.getSigners();
+    const sp = await safePollClient(hre, signer.address);
+
+    const { questionTexts, questionOptions, questionConfigs } = parseQuestions(args);
+    const receipt = await sp.editSurvey(
+      Number(args.id),
+      args.title,
+      args.desc,
+      questionTexts,
+      questionOptions,
+      questionConfigs,
+    );
+    console.log(`Edit tx: ${receipt.transactionHash}`);
+  });
+
+task("safepoll:cancel", "Cancel a survey nobody voted in yet, for good (creator only)")
+  .addParam("id", "Survey id")
   .setAction(async function (args: TaskArguments, hre) {
-    const { ethers, deployments } = hre;
-    const deployed = await deployments.get("SafePoll");
-    const sp = await ethers.getContractAt("SafePoll", deployed.address);
+    const [signer] = await hre.ethers.getSigners();
+    const sp = await safePollClient(hre, signer.address);
+    const receipt = await sp.cancelSurvey(Number(args.id));
+    console.log(`Cancel tx: ${receipt.transactionHash}`);
+  });
+
+task("safepoll:archive", "Hide a survey from the browser, or show it again (creator only)")
+  .addParam("id", "Survey id")
+  .addFlag("restore", "Unarchive instead")
+  .setAction(async function (args: TaskArguments, hre) {
+    const [signer] = await hre.ethers.getSigners();
+    const sp = await safePollClient(hre, signer.address);
+    const receipt = await sp.setArchived(Number(args.id), !args.restore);
+    console.log(`${args.restore ? "Unarchive" : "Archive"} tx: ${receipt.transactionHash}`);
+  });
+
+task("safepoll:admins", "List the owner, pending owner, admins and viewers of a survey")
+  .addParam("id", "Survey id")
+  .setAction(async function (args: TaskArguments, hre) {
+    const sp = await safePollClient(hre);
+    const id = Number(args.id);
+    const { summary, pendingOwner, admins, reviewers } = await sp.getSurvey(id);
+
+    console.log(`Survey #${id} roles`);
+    console.log(`  owner        : ${summary.creator}`);
+    if (pendingOwner !== ZeroAddress) {
+      console.log(`  pendingOwner : ${pendingOwner} (until accepted)`);
+    }
+    console.log(`  admins       : ${admins.join(", ") || "-"}`);
+    console.log(`  viewers      : ${reviewers.join(", ") || "-"}`);
+  });
 
-    const questionTexts: string[] = String(args.questions)
-      .split(";")
-      .map((s) => s.trim())
-      .filter((s) => s.length > 0);
-    const questionOptions: string[][] = String(args.options)
-      .split(";")
-      .map((group) => group.split(",").map((s) => s.trim()).filter((s) => s.length > 0))
-      .filter((arr) => arr.length > 0);
+task("safepoll:admins:grant", "Name an admin or viewer of a survey (owner only)")
+  .addParam("id", "Survey id")
+  .addParam("role", "admin | viewer")
+  .addParam("address", "Account to grant the role to")
+  .setAction(async function (args: TaskArguments, hre) {
+    const [signer] = await hre.ethers.getSigners();
+    const sp = await safePollClient(hre, signer.address);
+    if (!isAddress(args.address)) {
+      throw new Error(`invalid --address '${args.address}'`);
+    }
+    const receipt = await sp.grantRole(Number(args.id), parseRole(args.role), getAddress(args.address) as Address);
+    console.log(`Grant tx: ${receipt.transactionHash}`);
+  });
 
-    if (questionTexts.length === 0 || questionTexts.length !== questionOptions.length) {
-      throw new Error("questions/options length mismatch or empty");
+task("safepoll:admins:revoke", "Remove an admin, or a viewer before the survey ended (owner only)")
+  .addParam("id", "Survey id")
+  .addParam("role", "admin | viewer")
+  .addParam("address", "Account to revoke the role from")
+  .setAction(async function (args: TaskArguments, hre) {
+    const [signer] = await hre.ethers.getSigners();
+    const sp = await safePollClient(hre, signer.address);
+    if (!isAddress(args.address)) {
+      throw new Error(`invalid --address '${args.address}'`);
     }
+    const receipt = await sp.revokeRole(Number(args.id), parseRole(args.role), getAddress(args.address) as Address);
+    console.log(`Revoke tx: ${receipt.transactionHash}`);
+  });
 
-    const tx = await sp.createSurvey(args.title, args.desc, questionTexts, questionOptions);
-    const rc = await tx.wait();
-    const ev = rc?.logs?.find(() => true);
-    console.log(`Create tx: ${tx.hash}`);
-    // Read back total surveys
-    const total = await sp.getTotalSurveys();
-    console.log(`Total surveys: ${total}`);
+task("safepoll:admins:transfer", "Propose a new owner of a survey, who must accept (owner only)")
+  .addParam("id", "Survey id")
+  .addOptionalParam("to", "Proposed owner. Omit to cancel a pending transfer.")
+  .setAction(async function (args: TaskArguments, hre) {
+    const [signer] = await hre.ethers.getSigners();
+    const sp = await safePollClient(hre, signer.address);
+    if (args.to && !isAddress(args.to)) {
+      throw new Error(`invalid --to '${args.to}'`);
+    }
+    const to = (args.to ? getAddress(args.to) : ZeroAddress) as Address;
+    const receipt = await sp.transferOwnership(Number(args.id), to);
+    console.log(`Transfer tx: ${receipt.transactionHash}`);
   });
 
-task("safepoll:survey", "Show survey info (all or by id)")
-  .addOptionalParam("id", "Survey id (optional). If omitted, list all.")
+task("safepoll:admins:accept", "Accept the ownership of a survey proposed to you")
+  .addParam("id", "Survey id")
+  .addOptionalParam("account", "Index of the signer accepting", "0")
   .setAction(async function (args: TaskArguments, hre) {
-    const { ethers, deployments } = hre;
-    const deployed = await deployments.get("SafePoll");
-    const sp = await ethers.getContractAt("SafePoll", deployed.address);
+    const signer = (await hre.ethers.getSigners())[Number(args.account)];
+    const sp = await safePollClient(hre, signer.address);
+    const receipt = await sp.acceptOwnership(Number(args.id));
+    console.log(`Accept tx: ${receipt.transactionHash}`);
+  });
 
-    const totalBn = await sp.getTotalSurveys();
-    const total = Number(totalBn);
-    if (total === 0) {
-      console.log("No surveys found");
-      return;
+task("safepoll:survey", "Show a survey by id, or a page of surveys, newest first")
+  .addOptionalParam("id", "Survey id (optional). If omitted, list a page of surveys.")
+  .addOptionalParam("limit", "Surveys per page when listing", "10")
+  .addOptionalParam("cursor", "List from this survey id down, as printed at the end of the previous page", "0")
+  .addFlag("results", "Publicly decrypt and print the counts of surveys whose decryption was requested")
+  .setAction(async function (args: TaskArguments, hre) {
+    const { fhevm } = hre;
+    if (args.results) {
+      await fhevm.initializeCLIApi();
     }
+    const sp = await safePollClient(hre);
 
-    const ids: number[] = args.id ? [Number(args.id)] : Array.from({ length: total }, (_, i) => i + 1);
+    let ids: bigint[] = args.id ? [BigInt(args.id)] : [];
+    let next = 0n;
+    if (!args.id) {
+      const page = await sp.listSurveys({
+        cursor: BigInt(args.cursor),
+        limit: Number(args.limit),
+        includeArchived: true,
+      });
+      if (page.surveys.length === 0) {
+        console.log("No surveys found");
+        return;
+      }
+      ids = page.surveys.map((s) => s.id);
+      next = page.next;
+    }
 
     for (const id of ids) {
-      const info = await sp.getSurveyInfo(id);
-      const title = info[1] as string;
-      const desc = info[2] as string;
-      const creator = info[3] as string;
-      const isActive = info[4] as boolean;
-      const decrypted = info[5] as boolean;
-      const qCount = Number(info[6]);
-      const totalVotes = Number(info[7]);
-      const createdAt = Number(info[8]);
+      const d = await sp.getSurvey(id);
+      const { title, description, creator, isActive, resultsDecrypted: decrypted } = d.summary;
+      const totalVotes = Number(d.summary.totalVotes);
+      const weighted = d.weighting.token !== ZeroAddress;
+      const stored = decrypted ? await sp.readResults(id) : [];
 
       console.log(`Survey #${id}`);
       console.log(`  title            : ${title}`);
-      console.log(`  description      : ${desc}`);
+      console.log(`  description      : ${description}`);
       console.log(`  creator          : ${creator}`);
       console.log(`  isActive         : ${isActive}`);
       console.log(`  resultsDecrypted : ${decrypted}`);
-      console.log(`  questionCount    : ${qCount}`);
+      console.log(`  questionCount    : ${d.summary.questionCount}`);
       console.log(`  totalVotes       : ${totalVotes}`);
-      console.log(`  createdAt        : ${createdAt}`);
+      console.log(`  createdAt        : ${d.summary.createdAt}`);
+      console.log(`  startTime        : ${formatTimestamp(Number(d.summary.startTime))}`);
+      console.log(`  endTime          : ${formatTimestamp(Number(d.summary.endTime))}`);
+      console.log(`  status           : ${SURVEY_STATUSES[d.summary.status]}`);
+      console.log(`  eligibility      : ${ELIGIBILITY_MODES[d.eligibility]}`);
+      if (d.eligibility === 2) {
+        console.log(`  merkleRoot       : ${d.merkleRoot}`);
+      }
+      if (weighted) {
+        const { token, snapshot, unit, totalWeight } = d.weighting;
+        console.log(`  weightToken      : ${token} (snapshot ${snapshot}, ${unit} units per vote)`);
+        console.log(`  totalWeight      : ${totalWeight} (raw turnout: ${totalVotes})`);
+      }
+      console.log(`  revotable        : ${d.revotable}`);
+      if (d.summary.archived) {
+        console.log(`  archived         : true`);
+      }
+      if (d.minTurnout > 0n || d.kAnonymity > 1) {
+        console.log(`  minTurnout       : ${d.minTurnout}`);
+        console.log(`  kAnonymity       : ${d.kAnonymity}`);
+      }
+      if (d.epsilonMilli > 0) {
+        const noised = d.noisedCounters;
+        const pending = !isActive && noised < d.noisableCounters ? `, ${noised}/${d.noisableCounters} noised so far` : "";
+        console.log(
+          `  epsilon          : ${d.epsilonMilli / 1000} per ballot (counts carry discrete Laplace noise${pending})`,
+        );
+      }
+      if (d.decryptionRequestedAt !== 0n) {
+        console.log(`  decryption       : pending since ${formatTimestamp(Number(d.decryptionRequestedAt))}`);
+      }
+      const withheld = !isActive && totalVotes < Number(d.minTurnout);
+      if (args.results && withheld) {
+        console.log(`  results          : withheld, turnout ${totalVotes} is below ${d.minTurnout}`);
+      }
+      if (d.admins.length > 0) {
+        console.log(`  admins           : ${d.admins.join(", ")}`);
+      }
+      if (d.reviewers.length > 0) {
+        console.log(`  reviewers        : ${d.reviewers.join(", ")}`);
+      }
 
-      for (let i = 0; i < qCount; i++) {
-        const [text, options] = await sp.getQuestion(id, i);
-        console.log(`  Q${i}: ${text}`);
-        console.log(`    options: ${options.join(", ")}`);
+      const reveal = args.results && !isActive && !withheld;
+      // before the oracle has called back, decrypt the public handles directly
+      const handles = reveal && !decrypted ? await sp.getEncryptedHandles(id) : [];
+      for (let i = 0; i < d.questions.length; i++) {
+        const { text, options, config } = d.questions[i];
+        const kind = QUESTION_KINDS[config.kind];
+        const type =
+          kind === "multi"
+            ? ` [multi ${config.minSelections}-${config.maxSelections}]`
+            : kind === "numeric"
+              ? ` [numeric ${config.minValue}-${config.maxValue}]`
+              : kind === "ranked"
+                ? " [ranked]"
+                : "";
+        console.log(`  Q${i}: ${text}${type}`);
+        if (!reveal) {
+          if (kind !== "numeric") {
+            console.log(`    options: ${options.join(", ")}`);
+          }
+          continue;
+        }
+        const results =
+          stored[i] ??
+          (await decryptQuestionResults(d.questions[i], handles[i], (type, handle) =>
+            fhevm.publicDecryptEuint(type, handle),
+          ));
+        printQuestionResults(d, i, results);
       }
 
       console.log("");
     }
+    if (next !== 0n) {
+      console.log(`More surveys: safepoll:survey --cursor ${next} --limit ${args.limit}`);
+    }
   });
 
-task("safepoll:vote", "Submit encrypted choices for a survey")
+type Decrypt = (type: FhevmType.euint32 | FhevmType.euint64, handle: string) => Promise<bigint>;
+// Decrypts the tallies of one question from its handles (SafePollLens.getEncryptedHandles), whichever way (public
+// or user decryption)
+async function decryptQuestionResults(
+  question: QuestionDetails,
+  handles: QuestionHandles,
+  decrypt: Decrypt,
+): Promise<Tally> {
+  if (QUESTION_KINDS[question.config.kind] === "numeric") {
+    return {
+      optionCounts: [],
+      invalidCount: 0n,
+      sum: await decrypt(FhevmType.euint64, handles.sum),
+      sumSquares: await decrypt(FhevmType.euint64, handles.sumSquares),
+    };
+  }
+  const optionCounts: bigint[] = [];
+  for (const handle of handles.optionCounts) {
+    optionCounts.push(await decrypt(FhevmType.euint32, handle));
+  }
+  const invalidCount = await decrypt(FhevmType.euint32, handles.invalidCount);
+  return { optionCounts, invalidCount, sum: 0n, sumSquares: 0n };
+}
+
+// Prints the clear tallies of one question, decrypted off-chain or stored by the oracle callback
+function printQuestionResults(d: SurveyDetails, qi: number, results: Tally) {
+  const { options, config } = d.questions[qi];
+  const kind = QUESTION_KINDS[config.kind];
+  const totalVotes = Number(d.summary.totalVotes);
+  const weighted = d.weighting.token !== ZeroAddress;
+  // weighted tallies count each ballot by its weight; numeric means divide by the total weight
+  const totalWeight = Number(d.weighting.totalWeight);
+
+  if (kind === "numeric") {
+    const sum = Number(results.sum);
+    const sumSquares = Number(results.sumSquares);
+    const mean = totalWeight > 0 ? sum / totalWeight : 0;
+    const variance = totalWeight > 0 ? sumSquares / totalWeight - mean * mean : 0;
+    const responses = weighted ? `${totalVotes} (weight ${totalWeight})` : `${totalVotes}`;
+    console.log(`    responses: ${responses}, sum: ${sum}, mean: ${mean.toFixed(2)}, variance: ${variance.toFixed(2)}`);
+    return;
+  }
+  if (kind === "ranked") {
+    console.log(`    options: ${options.join(", ")} (see safepoll:ranked for the head-to-head counts)`);
+    return;
+  }
+  const format = (count: bigint) => (Number(count) === SUPPRESSED ? "hidden" : String(count));
+  for (let oi = 0; oi < options.length; oi++) {
+    console.log(`    ${options[oi]}: ${format(results.optionCounts[oi])}${weighted ? " (weighted)" : ""}`);
+  }
+  console.log(`    (invalid): ${format(results.invalidCount)}`);
+}
+
+task("safepoll:results", "Print or export the results stored on-chain by the decryption oracle callback")
+  .addParam("id", "Survey id")
+  .addOptionalParam(
+    "format",
+    "text | csv | json | report (the JSON results with the decryption's transactions, signed by --account)",
+    "text",
+  )
+  .addOptionalParam("out", "File to write the csv, json or report to. Defaults to printing it.")
+  .addOptionalParam("account", "Index of the signer signing a report", "0")
+  .setAction(async function (args: TaskArguments, hre) {
+    const { ethers } = hre;
+    const sp = await safePollClient(hre);
+
+    const format = String(args.format).toLowerCase();
+    if (!RESULTS_FORMATS.includes(format)) {
+      throw new Error(`--format must be one of ${RESULTS_FORMATS.join(", ")}`);
+    }
+    const id = Number(args.id);
+    const d = await sp.getSurvey(id);
+    if (!d.summary.resultsDecrypted) {
+      throw new Error(`survey #${id} has no decrypted results yet (safepoll:request-decrypt, then wait for the oracle)`);
+    }
+    const tallies = await sp.readResults(id);
+
+    if (format === "text") {
+      console.log(`Survey #${id}: ${d.summary.title} (${d.summary.totalVotes} votes)`);
+      for (const r of tallies) {
+        const qi = Number(r.questionIndex);
+        console.log(`  Q${qi}: ${d.questions[qi].text}`);
+        printQuestionResults(d, qi, r);
+      }
+      return;
+    }
+
+    const { chainId } = await ethers.provider.getNetwork();
+    const results = buildResults({ chainId: Number(chainId), contract: sp.address }, d, tallies);
+    let text: string;
+    if (format === "csv") {
+      text = resultsToCsv(results);
+    } else if (format === "json") {
+      text = `${JSON.stringify(results, null, 2)}\n`;
+    } else {
+      const signer = (await ethers.getSigners())[Number(args.account)];
+      const txs = await sp.findDecryptionTransactions(id);
+      // a report names the owner the results were decrypted under, which a later transfer does not change
+      const creator = await sp.ownerAt(id, txs.decryption.callbackBlock);
+      const report = await signReport({ ...results, survey: { ...results.survey, creator } }, txs, signer);
+      text = `${JSON.stringify(report, null, 2)}\n`;
+    }
+    if (!args.out) {
+      process.stdout.write(text);
+      return;
+    }
+    fs.writeFileSync(args.out, text);
+    console.log(`Wrote the ${format} results of survey #${id} to ${args.out}`);
+  });
+
+task("safepoll:verify-report", "Check a signed results report against its signature and the chain")
+  .addParam("file", "Report written by safepoll:results --format report")
+  .setAction(async function (args: TaskArguments, hre) {
+    const { ethers } = hre;
+    const report = JSON.parse(fs.readFileSync(args.file, "utf8")) as ResultsReport;
+    if (report.format !== "safepoll-results-report" || report.version !== RESULTS_FORMAT_VERSION) {
+      throw new Error(`${args.file} is not a version ${RESULTS_FORMAT_VERSION} results report`);
+    }
+    const { results } = report;
+    const id = results.survey.id;
+    const sp = await safePollClient(hre);
+    if (sp.address !== getAddress(results.contract)) {
+      throw new Error(`the deployed SafePoll is ${sp.address}, not ${results.contract}`);
+    }
+
+    const checks: [string, boolean][] = [];
+    const signer = await recoverReportSigner(report);
+    checks.push([`signed by ${report.signer}`, signer === getAddress(report.signer)]);
+    const { chainId } = await ethers.provider.getNetwork();
+    checks.push([`chain ${results.chainId}`, BigInt(results.chainId) === chainId]);
+
+    // the results as the chain has them now, built the same way; once a survey ended only its owner can change, so
+    // the owner is checked against the decryption instead
+    const d = await sp.getSurvey(id);
+    const onChain = buildResults({ chainId: results.chainId, contract: results.contract }, d, await sp.readResults(id));
+    const fixed = (r: SurveyResults) => canonicalJson({ ...r, survey: { ...r.survey, creator: undefined } });
+    checks.push([`results of survey #${id} match the chain`, fixed(onChain) === fixed(results)]);
+
+    const chainTxs = await sp.findDecryptionTransactions(id);
+    const { decryption } = report;
+    checks.push([
+      `decryption request ${decryption.requestId} in ${decryption.requestTx}`,
+      canonicalJson(chainTxs.decryption) === canonicalJson(decryption),
+    ]);
+    const owner = await sp.ownerAt(id, chainTxs.decryption.callbackBlock);
+    checks.push([`owned by ${results.survey.creator} when decrypted`, owner === getAddress(results.survey.creator)]);
+    checks.push([
+      `creation in ${report.transactions.created}`,
+      chainTxs.transactions.created === report.transactions.created,
+    ]);
+    if (report.transactions.ended) {
+      checks.push([`end in ${report.transactions.ended}`, chainTxs.transactions.ended === report.transactions.ended]);
+    }
+
+    for (const [what, ok] of checks) {
+      console.log(`${ok ? "OK  " : "FAIL"} ${what}`);
+    }
+    if (checks.some(([, ok]) => !ok)) {
+      throw new Error(`${args.file} does not match the chain`);
+    }
+  });
+
+task("safepoll:preview", "Privately decrypt the results of an ended survey (owner or viewer, user decryption)")
   .addParam("id", "Survey id")
-  .addParam("choices", "Comma-separated choice indices per question, e.g. '0,2,1'")
+  .addOptionalParam("account", "Index of the signer to decrypt as", "0")
   .setAction(async function (args: TaskArguments, hre) {
-    const { ethers, deployments, fhevm } = hre;
+    const { ethers, fhevm } = hre;
     await fhevm.initializeCLIApi();
+    const sp = await safePollClient(hre);
+    const signer = (await ethers.getSigners())[Number(args.account)];
+
+    const id = Number(args.id);
+    const d = await sp.getSurvey(id);
+    if (d.summary.isActive) {
+      throw new Error(`survey #${id} is still open; results can be previewed once it has ended`);
+    }
+    if (signer.address !== d.summary.creator && !d.reviewers.some((r) => r === signer.address)) {
+      throw new Error(`${signer.address} is neither the owner nor a viewer of survey #${id}`);
+    }
+
+    console.log(`Survey #${id} results, privately decrypted for ${signer.address}`);
+    const handles = await sp.getEncryptedHandles(id);
+    for (let i = 0; i < d.questions.length; i++) {
+      console.log(`  Q${i}: ${d.questions[i].text}`);
+      const results = await decryptQuestionResults(d.questions[i], handles[i], (type, handle) =>
+        fhevm.userDecryptEuint(type, handle, sp.address, signer),
+      );
+      printQuestionResults(d, i, results);
+    }
+  });
+
+task("safepoll:proof", "Build the Merkle proof of a voter from the CSV used at creation")
+  .addParam("voters", "CSV of voter addresses (first column)")
+  .addOptionalParam("address", "Voter address to print the proof for")
+  .addOptionalParam("out", "Write every voter's proof to this JSON file ({ address: proof[] })")
+  .setAction(async function (args: TaskArguments) {
+    const voters = readVoterCsv(args.voters);
+    const tree = buildVoterTree(voters);
+    console.log(`Merkle root: ${tree.root}`);
+
+    if (args.out) {
+      const proofs: Record<string, string[]> = {};
+      for (const [i, [address]] of tree.entries()) {
+        proofs[address.toLowerCase()] = tree.getProof(i);
+      }
+      fs.writeFileSync(args.out, JSON.stringify({ root: tree.root, proofs }, null, 2));
+      console.log(`Wrote ${voters.length} proofs to ${args.out}`);
+    }
+
+    if (args.address) {
+      if (!isAddress(args.address)) {
+        throw new Error(`invalid address '${args.address}'`);
+      }
+      const target = getAddress(args.address);
+      const entry = [...tree.entries()].find(([, [address]]) => address === target);
+      if (!entry) {
+        throw new Error(`${target} is not in ${args.voters}`);
+      }
+      console.log(`Proof for ${target}: ${JSON.stringify(tree.getProof(entry[0]))}`);
+    }
+  });
 
-    const deployed = await deployments.get("SafePoll");
-    const sp = await ethers.getContractAt("SafePoll", deployed.address);
+const CHOICES_HELP =
+  "Comma-separated answers per question, e.g. '0,2,1'; multi-select answers join indices with '+', e.g. '0,1+2'; " +
+  "ranked answers join every option index with '>', best first, e.g. '2>0>1'";
+
+// SafePoll.BALLOT_TYPEHASH, signed by the voter for submitVotesBySig
+const BALLOT_TYPES = {
+  Ballot: [
+    { name: "surveyId", type: "uint256" },
+    { name: "handles", type: "bytes32[]" },
+    { name: "inputProof", type: "bytes" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+// how long a signed ballot stays valid for the relayer to submit
+const BALLOT_VALIDITY_SECONDS = 3600;
+
+type RelayerInfo = { relayer: string; contract: string; chainId: number };
+
+async function fetchRelayer(url: string): Promise<RelayerInfo> {
+  const res = await fetch(new URL("/", url));
+  if (!res.ok) {
+    throw new Error(`relayer at ${url} answered ${res.status}`);
+  }
+  return (await res.json()) as RelayerInfo;
+}
+
+// Signs the EIP-712 ballot and hands it to the relayer (see tasks/relayer.ts); returns the relayer's tx hash
+async function relayBallot(
+  url: string,
+  b: {
+    surveyId: number;
+    voter: HardhatEthersSigner;
+    verifyingContract: string;
+    handles: string[];
+    inputProof: string;
+    merkleProof: string[];
+    nonce: bigint;
+  },
+): Promise<string> {
+  const { chainId } = await b.voter.provider.getNetwork();
+  const deadline = Math.floor(Date.now() / 1000) + BALLOT_VALIDITY_SECONDS;
+  const domain = { name: "SafePoll", version: "1", chainId, verifyingContract: b.verifyingContract };
+  const signature = await b.voter.signTypedData(domain, BALLOT_TYPES, {
+    surveyId: b.surveyId,
+    handles: b.handles,
+    inputProof: b.inputProof,
+    nonce: b.nonce,
+    deadline,
+  });
+  const res = await fetch(new URL("/ballot", url), {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      surveyId: String(b.surveyId),
+      voter: b.voter.address,
+      handles: b.handles,
+      inputProof: b.inputProof,
+      merkleProof: b.merkleProof,
+      deadline: String(deadline),
+      signature,
+    }),
+  });
+  const body = (await res.json()) as { txHash?: string; error?: string };
+  if (!res.ok || !body.txHash) {
+    throw new Error(`relayer rejected the ballot: ${body.error ?? res.status}`);
+  }
+  return body.txHash;
+}
+
+// Encrypts one answer per question and submits them; on revotable surveys a second call replaces the first ballot
+async function castBallot(args: TaskArguments, hre: HardhatRuntimeEnvironment, revote: boolean) {
+  const { ethers, fhevm } = hre;
+  await fhevm.initializeCLIApi();
+
+  const voter = (await ethers.getSigners())[Number(args.account)];
+  const sp = await safePollClient(hre, voter.address);
+
+  const id = Number(args.id);
+  const { revotable, questions } = await sp.getSurvey(id);
+  const qCount = questions.length;
+  if (revote) {
+    if (!revotable) {
+      throw new Error(`survey #${id} does not allow changing votes`);
+    }
+    if (!(await sp.hasVoted(id, voter.address as Address))) {
+      throw new Error(`${voter.address} has not voted on survey #${id} yet, use safepoll:vote`);
+    }
+  }
+
+  const answers = String(args.choices)
+    .split(",")
+    .map((s) => s.trim());
+  if (answers.length !== qCount) {
+    throw new Error(`choices must provide ${qCount} answers`);
+  }
+  const choiceList = questions.map((q, i) => encodeAnswer(answers[i], q.config.kind, q.options.length));
+
+  // a relayed ballot is submitted, and so must be encrypted, for the relayer's address
+  const relayer = args.relayer ? await fetchRelayer(args.relayer) : undefined;
+  const encInput = fhevm.createEncryptedInput(sp.address, relayer?.relayer ?? voter.address);
+  for (const c of choiceList) {
+    encInput.add32(c);
+  }
+  const encrypted = await encInput.encrypt();
+
+  if (relayer) {
+    const txHash = await relayBallot(args.relayer, {
+      surveyId: id,
+      voter,
+      verifyingContract: sp.address,
+      handles: encrypted.handles.map((h) => hexlify(h)),
+      inputProof: hexlify(encrypted.inputProof),
+      merkleProof: args.proof ? (JSON.parse(args.proof) as string[]) : [],
+      nonce: await sp.getNonce(voter.address as Address),
+    });
+    console.log(`${revote ? "Revote" : "Vote"} relayed by ${relayer.relayer}, tx: ${txHash}`);
+    return;
+  }
+
+  const receipt = await sp.vote(id, encrypted, args.proof ? (JSON.parse(args.proof) as Hex[]) : []);
+  console.log(`${revote ? "Revote" : "Vote"} tx: ${receipt.transactionHash}`);
+}
+
+task("safepoll:vote", "Submit encrypted choices for a survey")
+  .addParam("id", "Survey id")
+  .addParam("choices", CHOICES_HELP)
+  .addOptionalParam("proof", "Merkle proof as a JSON array, for merkle-gated surveys")
+  .addOptionalParam("relayer", "URL of a relayer (safepoll:relayer) to submit a signed ballot without paying gas")
+  .addOptionalParam("account", "Index of the signer voting", "0")
+  .setAction(async function (args: TaskArguments, hre) {
+    await castBallot(args, hre, false);
+  });
+
+task("safepoll:revote", "Replace your encrypted choices on a revotable survey")
+  .addParam("id", "Survey id")
+  .addParam("choices", CHOICES_HELP)
+  .addOptionalParam("proof", "Merkle proof as a JSON array, for merkle-gated surveys")
+  .addOptionalParam("relayer", "URL of a relayer (safepoll:relayer) to submit a signed ballot without paying gas")
+  .addOptionalParam("account", "Index of the signer voting", "0")
+  .setAction(async function (args: TaskArguments, hre) {
+    await castBallot(args, hre, true);
+  });
+
+task("safepoll:my-ballot", "Decrypt the answers recorded for your own ballot (user decryption)")
+  .addParam("id", "Survey id")
+  .addOptionalParam("account", "Index of the signer who voted", "0")
+  .setAction(async function (args: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+    await fhevm.initializeCLIApi();
+    const sp = await safePollClient(hre);
+    const voter = (await ethers.getSigners())[Number(args.account)];
 
     const id = Number(args.id);
-    const info = await sp.getSurveyInfo(id);
-    const qCount = Number(info[6]);
+    if (!(await sp.hasVoted(id, voter.address as Address))) {
+      throw new Error(`${voter.address} has not voted on survey #${id}`);
+    }
+    const ballot = await sp.getBallot(id, voter.address as Address);
+    const { questions } = await sp.getSurvey(id);
+    console.log(`Ballot of ${voter.address} on survey #${id}`);
+    for (const [i, handle] of ballot.entries()) {
+      const { text, options, config } = questions[i];
+      const value = await fhevm.userDecryptEuint(FhevmType.euint32, handle, sp.address, voter);
+      console.log(`  Q${i}: ${text}`);
+      console.log(`    answer: ${describeAnswer(Number(value), config.kind, options)}`);
+    }
+  });
 
-    const choiceList: number[] = String(args.choices)
-      .split(",")
-      .map((s) => parseInt(s.trim(), 10));
-    if (choiceList.length !== qCount || choiceList.some((x) => !Number.isInteger(x) || x < 0)) {
-      throw new Error(`choices must provide ${qCount} non-negative integers`);
+task(
+  "safepoll:ranked",
+  "Print the head-to-head counts, Borda points, winners and elimination rounds of a decrypted ranked question",
+)
+  .addParam("id", "Survey id")
+  .addParam("question", "Question index")
+  .setAction(async function (args: TaskArguments, hre) {
+    const { fhevm } = hre;
+    await fhevm.initializeCLIApi();
+    const sp = await safePollClient(hre);
+
+    const id = Number(args.id);
+    const qi = Number(args.question);
+    const d = await sp.getSurvey(id);
+    const question = d.questions[qi];
+    if (!question || QUESTION_KINDS[question.config.kind] !== "ranked") {
+      throw new Error(`question ${qi} of survey #${id} is not a ranked question`);
     }
+    const { text, options } = question;
+    const n = options.length;
+
+    const stored = d.summary.resultsDecrypted ? (await sp.readResults(id))[qi] : undefined;
+    const results =
+      stored ??
+      (await decryptQuestionResults(question, (await sp.getEncryptedHandles(id))[qi], (type, handle) =>
+        fhevm.publicDecryptEuint(type, handle),
+      ));
+    // pair counts suppressed by the k-anonymity floor are unknown, and so is any score or win built on them
+    const matrix = pairwiseMatrix(
+      results.optionCounts.map((count) => (Number(count) === SUPPRESSED ? null : Number(count))),
+      n,
+    );
+    const invalid = Number(results.invalidCount);
+    const label = (count: number | null) => (count === null ? "hidden" : String(count));
 
-    const signers = await ethers.getSigners();
-    const encInput = fhevm.createEncryptedInput(deployed.address, signers[0].address);
-    for (const c of choiceList) {
-      encInput.add32(c);
+    console.log(`Survey #${id} Q${qi}: ${text}`);
+    console.log(`  ballots: ${d.summary.totalVotes} (invalid: ${invalid === SUPPRESSED ? "hidden" : invalid})`);
+    for (let a = 0; a < n; a++) {
+      for (let b = 0; b < n; b++) {
+        if (a !== b) console.log(`    ${options[a]} over ${options[b]}: ${label(matrix[a][b])}`);
+      }
     }
-    const encrypted = await encInput.encrypt();
+    const scores = bordaScores(matrix);
+    console.log(`  Borda points: ${options.map((option, oi) => `${option}=${label(scores[oi])}`).join(", ")}`);
+    const borda = bordaWinner(matrix);
+    console.log(`  Borda winner: ${borda === undefined ? "none" : options[borda]}`);
+    const condorcet = condorcetWinner(matrix);
+    console.log(`  Condorcet winner: ${condorcet === undefined ? "none" : options[condorcet]}`);
 
-    const tx = await sp.submitVotes(id, encrypted.handles as unknown as string[], encrypted.inputProof);
-    await tx.wait();
-    console.log(`Vote tx: ${tx.hash}`);
+    const { rounds, winner } = eliminationRounds(matrix);
+    console.log("  Elimination rounds (Baldwin: the fewest Borda points among the options left is out):");
+    rounds.forEach(({ standing, points, eliminated }, round) => {
+      const standings = standing.map((oi, i) => `${options[oi]}=${label(points[i])}`).join(", ");
+      const out = eliminated.length === 0 ? "undecided (hidden counts)" : eliminated.map((oi) => options[oi]).join(", ");
+      console.log(`    round ${round + 1}: ${standings} -> out: ${out}`);
+    });
+    console.log(`  Elimination winner: ${winner === undefined ? "none" : options[winner]}`);
   });
 
-task("safepoll:end", "End a survey (creator only)")
+task("safepoll:end", "End a survey (owner or admin, or anyone once its end time has passed)")
   .addParam("id", "Survey id")
   .setAction(async function (args: TaskArguments, hre) {
-    const { ethers, deployments } = hre;
-    const deployed = await deployments.get("SafePoll");
-    const sp = await ethers.getContractAt("SafePoll", deployed.address);
-    const tx = await sp.endSurvey(Number(args.id));
-    await tx.wait();
-    console.log(`End tx: ${tx.hash}`);
+    const [signer] = await hre.ethers.getSigners();
+    const sp = await safePollClient(hre, signer.address);
+    const receipt = await sp.endSurvey(Number(args.id));
+    console.log(`End tx: ${receipt.transactionHash}`);
   });
 
-task("safepoll:request-decrypt", "Request public decryption (creator only)")
+task("safepoll:add-noise", "Add the differential-privacy noise of an ended survey, one batch per transaction")
   .addParam("id", "Survey id")
   .setAction(async function (args: TaskArguments, hre) {
-    const { ethers, deployments } = hre;
-    const deployed = await deployments.get("SafePoll");
-    const sp = await ethers.getContractAt("SafePoll", deployed.address);
-    const tx = await sp.requestDecryption(Number(args.id));
-    await tx.wait();
-    console.log(`Request decrypt tx: ${tx.hash}`);
+    const [signer] = await hre.ethers.getSigners();
+    const sp = await safePollClient(hre, signer.address);
+    const id = Number(args.id);
+    let [, noised, total] = await sp.getNoise(id);
+    while (noised < total) {
+      const receipt = await sp.addNoise(id);
+      [, noised, total] = await sp.getNoise(id);
+      console.log(`Add noise tx: ${receipt.transactionHash} (${noised}/${total} counts)`);
+    }
+    console.log(`Survey ${id}: all ${total} counts noised`);
+  });
+
+task("safepoll:request-decrypt", "Request public decryption (owner or admin), or report the pending request")
+  .addParam("id", "Survey id")
+  .setAction(async function (args: TaskArguments, hre) {
+    const { ethers } = hre;
+    const [signer] = await ethers.getSigners();
+    const sp = await safePollClient(hre, signer.address);
+    const id = Number(args.id);
+    if ((await sp.getSurvey(id)).summary.resultsDecrypted) {
+      console.log(`Survey #${id}: results already decrypted (safepoll:results --id ${id})`);
+      return;
+    }
+
+    // a request the oracle has not answered can only be replaced once it timed out
+    const [pendingId, requestedAt, retryAt] = await sp.getPendingDecryption(id);
+    if (requestedAt !== 0n) {
+      const now = (await ethers.provider.getBlock("latest"))!.timestamp;
+      console.log(`Survey #${id}: decryption request ${pendingId} pending since ${formatTimestamp(Number(requestedAt))}`);
+      if (now < Number(retryAt)) {
+        console.log(`  waiting for the oracle; it can be requested again after ${formatTimestamp(Number(retryAt))}`);
+        return;
+      }
+      console.log("  timed out, requesting again");
+    }
+    const receipt = await sp.requestDecryption(id);
+    const [requestId] = await sp.getPendingDecryption(id);
+    console.log(`Request decrypt tx: ${receipt.transactionHash} (request ${requestId})`);
   });
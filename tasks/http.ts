@@ -0,0 +1,47 @@
+import * as http from "http";
+
+/**
+ * Small JSON-over-HTTP helpers shared by the local services (safepoll:relayer, safepoll:indexer)
+ */
+
+const MAX_BODY_BYTES = 256 * 1024;
+
+export function readJson(req: http.IncomingMessage): Promise<Record<string, unknown>> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    req.on("data", (chunk) => {
+      body += chunk;
+      if (body.length > MAX_BODY_BYTES) {
+        reject(new Error("request too large"));
+        req.destroy();
+      }
+    });
+    req.on("end", () => {
+      try {
+        resolve(JSON.parse(body || "{}"));
+      } catch {
+        reject(new Error("invalid JSON"));
+      }
+    });
+    req.on("error", reject);
+  });
+}
+
+export function send(res: http.ServerResponse, status: number, payload: unknown) {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type",
+  });
+  res.end(JSON.stringify(payload));
+}
+
+export function listen(server: http.Server, port: number): Promise<void> {
+  return new Promise((resolve) => server.listen(port, resolve));
+}
+
+// Resolves once the server is closed; the services keep serving until their process is stopped
+export function closed(server: http.Server): Promise<void> {
+  return new Promise((resolve) => server.on("close", resolve));
+}
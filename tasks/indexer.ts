@@ -0,0 +1,298 @@
+import Database from "better-sqlite3";
+import { getAddress, isAddress, type Log } from "ethers";
+import * as http from "http";
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+import { closed, listen, send } from "./http";
+
+/**
+ * Event indexer: follows SafePoll's SurveyCreated, VoteSubmitted, VoteUpdated, SurveyEnded and ResultsDecrypted
+ * events over JSON-RPC, keeps them in SQLite and answers what storage cannot: the surveys an address created or
+ * voted in, and the vote timeline of a survey.
+ *
+ *   - npx hardhat --network localhost safepoll:indexer [--db safepoll-indexer.sqlite] [--port 8548]
+ *       [--confirmations 0] [--interval 2000] [--from-block N]
+ *
+ * Reorgs: the hashes of the blocks holding indexed events and of the latest indexed block are kept. When the chain
+ * no longer has the latest one, the index rolls back to the newest kept block still on the chain and reads on from
+ * there; a restarted `hardhat node` is rolled back the same way.
+ *
+ * Endpoints (CORS-enabled, JSON):
+ *   - GET /status              -> { chainId, contract, indexedBlock }
+ *   - GET /surveys?creator=0x..&voter=0x..&limit=20&offset=0
+ *                              -> { total, surveys: [{ id, creator, title, createdAt, createdBlock, txHash, votes,
+ *                                 endedAt, decryptedAt }] }, newest first; endedAt/decryptedAt are null until then
+ *   - GET /surveys/:id         -> one survey, as listed above
+ *   - GET /surveys/:id/votes   -> [{ voter, revote, blockNumber, timestamp, txHash }], oldest first
+ */
+
+const INDEXED_EVENTS = ["SurveyCreated", "VoteSubmitted", "VoteUpdated", "SurveyEnded", "ResultsDecrypted"] as const;
+// blocks per eth_getLogs call
+const BATCH_BLOCKS = 2000;
+// hashes of blocks without events are kept this far behind the latest indexed block
+const REORG_DEPTH = 64;
+const MAX_PAGE_SIZE = 100;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS meta (key TEXT PRIMARY KEY, value TEXT NOT NULL);
+  CREATE TABLE IF NOT EXISTS blocks (number INTEGER PRIMARY KEY, hash TEXT NOT NULL, timestamp INTEGER NOT NULL);
+  CREATE TABLE IF NOT EXISTS events (
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    name TEXT NOT NULL,
+    survey_id INTEGER NOT NULL,
+    account TEXT,
+    title TEXT,
+    PRIMARY KEY (block_number, log_index)
+  );
+  CREATE INDEX IF NOT EXISTS events_by_survey ON events (survey_id, name);
+  CREATE INDEX IF NOT EXISTS events_by_account ON events (account, name);
+`;
+
+// a survey row: SurveyCreated, with its vote count and the times it ended and was decrypted
+const SURVEY_SELECT = `
+  SELECT c.survey_id AS id, c.account AS creator, c.title, b.timestamp AS createdAt, c.block_number AS createdBlock,
+    c.tx_hash AS txHash,
+    (SELECT COUNT(*) FROM events v WHERE v.survey_id = c.survey_id AND v.name = 'VoteSubmitted') AS votes,
+    (SELECT MIN(eb.timestamp) FROM events e JOIN blocks eb ON eb.number = e.block_number
+      WHERE e.survey_id = c.survey_id AND e.name = 'SurveyEnded') AS endedAt,
+    (SELECT MIN(db.timestamp) FROM events d JOIN blocks db ON db.number = d.block_number
+      WHERE d.survey_id = c.survey_id AND d.name = 'ResultsDecrypted') AS decryptedAt
+  FROM events c JOIN blocks b ON b.number = c.block_number
+`;
+
+const SURVEY_FILTER = `
+  WHERE c.name = 'SurveyCreated'
+    AND (@creator IS NULL OR c.account = @creator)
+    AND (@voter IS NULL OR EXISTS (
+      SELECT 1 FROM events v WHERE v.survey_id = c.survey_id AND v.name = 'VoteSubmitted' AND v.account = @voter))
+`;
+
+type BlockRow = { number: number; hash: string };
+// a VoteSubmitted or VoteUpdated event; SQLite returns the revote flag as 0 or 1
+type VoteRow = { voter: string; revote: number; blockNumber: number; timestamp: number; txHash: string };
+
+export type SurveyFilter = { creator: string | null; voter: string | null };
+
+export type IndexerOptions = {
+  db: string; // SQLite database file, or ":memory:"
+  confirmations?: number; // blocks to wait before indexing a block
+  fromBlock?: number; // first block to index, by default the SafePoll deployment block
+};
+
+export type Indexer = {
+  chainId: number;
+  contract: string;
+  sync(): Promise<void>;
+  indexedBlock(): number;
+  listSurveys(filter: SurveyFilter, limit: number, offset: number): { total: number; surveys: unknown[] };
+  getSurvey(id: number): unknown;
+  getVotes(id: number): { voter: string; revote: boolean; blockNumber: number; timestamp: number; txHash: string }[];
+  close(): void;
+};
+
+// The index of the deployed SafePoll on the task's network: `sync` reads the chain up to its head (handling
+// reorgs), the rest query what is indexed so far
+export async function openIndexer(hre: HardhatRuntimeEnvironment, options: IndexerOptions): Promise<Indexer> {
+  const { ethers, deployments } = hre;
+  const deployed = await deployments.get("SafePoll");
+  const sp = await ethers.getContractAt("SafePoll", deployed.address);
+  const provider = ethers.provider;
+  const chainId = Number((await provider.getNetwork()).chainId);
+  const confirmations = options.confirmations ?? 0;
+  const startBlock = options.fromBlock ?? deployed.receipt?.blockNumber ?? 0;
+  const topics = INDEXED_EVENTS.map((name) => sp.interface.getEvent(name)!.topicHash);
+
+  const db = new Database(options.db);
+  db.pragma("journal_mode = WAL");
+  db.exec(SCHEMA);
+  const getMeta = db.prepare<[string], { value: string }>("SELECT value FROM meta WHERE key = ?");
+  const setMeta = db.prepare("INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)");
+  const insertBlock = db.prepare("INSERT OR REPLACE INTO blocks (number, hash, timestamp) VALUES (?, ?, ?)");
+  const insertEvent = db.prepare(
+    `INSERT OR IGNORE INTO events (block_number, log_index, tx_hash, name, survey_id, account, title)
+     VALUES (@blockNumber, @logIndex, @txHash, @name, @surveyId, @account, @title)`,
+  );
+  const indexedBlock = () => Number(getMeta.get("indexedBlock")?.value ?? startBlock - 1);
+
+  // rolls the index back to the end of `block`: its events and blocks after it are forgotten
+  const rollBack = db.transaction((block: number) => {
+    db.prepare("DELETE FROM events WHERE block_number > ?").run(block);
+    db.prepare("DELETE FROM blocks WHERE number > ?").run(block);
+    setMeta.run("indexedBlock", String(block));
+  });
+
+  // an index of another deployment or chain starts over
+  const source = `${chainId}:${deployed.address}`;
+  if (getMeta.get("source")?.value !== source) {
+    db.exec("DELETE FROM events; DELETE FROM blocks; DELETE FROM meta;");
+    setMeta.run("source", source);
+  }
+
+  // whether the latest indexed block is still on the chain; if not, roll back to the newest kept block that is
+  async function handleReorg() {
+    const kept = db.prepare<[], BlockRow>("SELECT number, hash FROM blocks ORDER BY number DESC").all();
+    for (const [i, row] of kept.entries()) {
+      if ((await provider.getBlock(row.number))?.hash === row.hash) {
+        if (i > 0) {
+          console.warn(`Reorg: rolled back from block ${indexedBlock()} to ${row.number}`);
+          rollBack(row.number);
+        }
+        return;
+      }
+    }
+    if (kept.length > 0) {
+      console.warn(`Reorg: none of the indexed blocks is on the chain any more, indexing again from ${startBlock}`);
+      rollBack(startBlock - 1);
+    }
+  }
+
+  async function sync() {
+    await handleReorg();
+    const head = (await provider.getBlockNumber()) - confirmations;
+    for (let from = indexedBlock() + 1; from <= head; from += BATCH_BLOCKS) {
+      const to = Math.min(from + BATCH_BLOCKS - 1, head);
+      const logs: Log[] = await provider.getLogs({
+        address: deployed.address,
+        fromBlock: from,
+        toBlock: to,
+        topics: [topics],
+      });
+      const numbers = [...new Set([...logs.map((l) => l.blockNumber), to])];
+      const blocks = new Map(await Promise.all(numbers.map(async (n) => [n, await provider.getBlock(n)] as const)));
+      // a block replaced while this batch was read: leave it to the next poll's reorg check
+      if (logs.some((l) => blocks.get(l.blockNumber)?.hash !== l.blockHash)) {
+        return;
+      }
+
+      db.transaction(() => {
+        for (const block of blocks.values()) {
+          if (block) insertBlock.run(block.number, block.hash, block.timestamp);
+        }
+        for (const log of logs) {
+          const parsed = sp.interface.parseLog(log);
+          if (!parsed) continue;
+          insertEvent.run({
+            blockNumber: log.blockNumber,
+            logIndex: log.index,
+            txHash: log.transactionHash,
+            name: parsed.name,
+            surveyId: Number(parsed.args.surveyId),
+            account: parsed.args.creator ?? parsed.args.voter ?? null,
+            title: parsed.name === "SurveyCreated" ? parsed.args.title : null,
+          });
+        }
+        setMeta.run("indexedBlock", String(to));
+        db.prepare("DELETE FROM blocks WHERE number < ? AND number NOT IN (SELECT block_number FROM events)").run(
+          to - REORG_DEPTH,
+        );
+      })();
+      if (logs.length > 0) {
+        console.log(`Indexed ${logs.length} event(s) up to block ${to}`);
+      }
+    }
+  }
+
+  const listSurveys = db.prepare(
+    `${SURVEY_SELECT} ${SURVEY_FILTER} ORDER BY c.survey_id DESC LIMIT @limit OFFSET @offset`,
+  );
+  const countSurveys = db.prepare<unknown[], { total: number }>(
+    `SELECT COUNT(*) AS total FROM events c ${SURVEY_FILTER}`,
+  );
+  const oneSurvey = db.prepare(`${SURVEY_SELECT} WHERE c.name = 'SurveyCreated' AND c.survey_id = ?`);
+  const votes = db.prepare<[number], VoteRow>(`
+    SELECT e.account AS voter, e.name = 'VoteUpdated' AS revote, e.block_number AS blockNumber, b.timestamp,
+      e.tx_hash AS txHash
+    FROM events e JOIN blocks b ON b.number = e.block_number
+    WHERE e.survey_id = ? AND e.name IN ('VoteSubmitted', 'VoteUpdated')
+    ORDER BY e.block_number, e.log_index
+  `);
+
+  return {
+    chainId,
+    contract: deployed.address,
+    sync,
+    indexedBlock,
+    listSurveys(filter: SurveyFilter, limit: number, offset: number) {
+      const { total } = countSurveys.get(filter)!;
+      return { total, surveys: listSurveys.all({ ...filter, limit, offset }) };
+    },
+    getSurvey: (id: number) => oneSurvey.get(id),
+    getVotes: (id: number) => votes.all(id).map((v) => ({ ...v, revote: v.revote === 1 })),
+    close: () => db.close(),
+  };
+}
+
+task("safepoll:indexer", "Index SafePoll events into SQLite and serve them over HTTP (runs until stopped)")
+  .addOptionalParam("db", "SQLite database file", "safepoll-indexer.sqlite")
+  .addOptionalParam("port", "HTTP port", "8548")
+  .addOptionalParam("confirmations", "Blocks to wait before indexing a block", "0")
+  .addOptionalParam("interval", "Milliseconds between polls of the chain", "2000")
+  .addOptionalParam("fromBlock", "First block to index (default: the SafePoll deployment block)")
+  .setAction(async function (args: TaskArguments, hre) {
+    const indexer = await openIndexer(hre, {
+      db: args.db,
+      confirmations: Number(args.confirmations),
+      fromBlock: args.fromBlock === undefined ? undefined : Number(args.fromBlock),
+    });
+
+    const address = (value: string | null) => {
+      if (value === null) return null;
+      if (!isAddress(value)) throw new Error(`invalid address '${value}'`);
+      return getAddress(value);
+    };
+
+    const server = http.createServer((req, res) => {
+      if (req.method === "OPTIONS") return send(res, 204, {});
+      if (req.method !== "GET") return send(res, 404, { error: "not found" });
+      const url = new URL(req.url ?? "/", "http://localhost");
+      const route = url.pathname.replace(/\/+$/, "");
+
+      try {
+        if (route === "/status") {
+          const { chainId, contract } = indexer;
+          return send(res, 200, { chainId, contract, indexedBlock: indexer.indexedBlock() });
+        }
+        if (route === "/surveys") {
+          const filter = {
+            creator: address(url.searchParams.get("creator")),
+            voter: address(url.searchParams.get("voter")),
+          };
+          const limit = Math.min(Number(url.searchParams.get("limit") ?? 20), MAX_PAGE_SIZE);
+          const offset = Number(url.searchParams.get("offset") ?? 0);
+          if (!(limit > 0) || !(offset >= 0)) throw new Error("invalid limit or offset");
+          return send(res, 200, indexer.listSurveys(filter, limit, offset));
+        }
+        const match = route.match(/^\/surveys\/(\d+)(\/votes)?$/);
+        if (match) {
+          const survey = indexer.getSurvey(Number(match[1]));
+          if (!survey) return send(res, 404, { error: `survey #${match[1]} is not indexed` });
+          return send(res, 200, match[2] ? indexer.getVotes(Number(match[1])) : survey);
+        }
+        send(res, 404, { error: "not found" });
+      } catch (e) {
+        send(res, 400, { error: (e as Error).message });
+      }
+    });
+
+    let timer: NodeJS.Timeout | undefined;
+    const poll = async () => {
+      try {
+        await indexer.sync();
+      } catch (e) {
+        console.warn(`Indexing failed, retrying: ${(e as Error).message}`);
+      }
+      timer = setTimeout(poll, Number(args.interval));
+    };
+    await poll();
+
+    await listen(server, Number(args.port));
+    console.log(
+      `Indexer for SafePoll ${indexer.contract} at block ${indexer.indexedBlock()}, serving http://localhost:${args.port}`,
+    );
+    // keep indexing and serving until the process is stopped
+    await closed(server);
+    clearTimeout(timer);
+    indexer.close();
+  });
@@ -0,0 +1,69 @@
+import * as http from "http";
+import { task } from "hardhat/config";
+import type { TaskArguments } from "hardhat/types";
+import { closed, listen, readJson, send } from "./http";
+
+/**
+ * Local relayer for gasless voting: voters sign an EIP-712 ballot (see SafePoll.submitVotesBySig) and this
+ * process submits it with its own account, paying the gas.
+ *
+ *   - npx hardhat --network localhost safepoll:relayer [--port 8547] [--account 0]
+ *
+ * Endpoints (CORS-enabled, JSON):
+ *   - GET  /        -> { relayer, contract, chainId }; voters encrypt their answers for `relayer`
+ *   - POST /ballot  <- { surveyId, voter, handles, inputProof, merkleProof, deadline, signature }
+ *                   -> { txHash } or { error }
+ */
+
+// the revert reason of a failed call, e.g. "Bad signature", rather than ethers' whole message
+function reason(e: unknown): string {
+  const err = e as { reason?: string; shortMessage?: string; message?: string };
+  return err.reason ?? err.shortMessage ?? err.message ?? String(e);
+}
+
+task("safepoll:relayer", "Serve a local relayer that submits signed ballots and pays their gas (runs until stopped)")
+  .addOptionalParam("port", "HTTP port", "8547")
+  .addOptionalParam("account", "Index of the signer paying for the relayed ballots", "0")
+  .setAction(async function (args: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+    const deployed = await deployments.get("SafePoll");
+    const relayer = (await ethers.getSigners())[Number(args.account)];
+    const sp = await ethers.getContractAt("SafePoll", deployed.address, relayer);
+    const { chainId } = await ethers.provider.getNetwork();
+    const info = { relayer: relayer.address, contract: deployed.address, chainId: Number(chainId) };
+
+    const server = http.createServer(async (req, res) => {
+      if (req.method === "OPTIONS") return send(res, 204, {});
+      if (req.method === "GET" && req.url === "/") return send(res, 200, info);
+      if (req.method !== "POST" || req.url !== "/ballot") return send(res, 404, { error: "not found" });
+
+      try {
+        const b = await readJson(req);
+        const ballot = {
+          surveyId: BigInt(b.surveyId as string),
+          voter: ethers.getAddress(b.voter as string),
+          handles: b.handles as string[],
+          inputProof: b.inputProof as string,
+          merkleProof: (b.merkleProof as string[] | undefined) ?? [],
+          deadline: BigInt(b.deadline as string),
+          signature: b.signature as string,
+        };
+        // simulate first, so a bad ballot is rejected with its reason and costs no gas
+        await sp.submitVotesBySig.staticCall(ballot);
+        const tx = await sp.submitVotesBySig(ballot);
+        await tx.wait();
+        console.log(`Relayed ballot of ${ballot.voter} on survey #${ballot.surveyId}: ${tx.hash}`);
+        send(res, 200, { txHash: tx.hash });
+      } catch (e) {
+        console.warn(`Rejected ballot: ${reason(e)}`);
+        send(res, 400, { error: reason(e) });
+      }
+    });
+
+    await listen(server, Number(args.port));
+    console.log(
+      `Relayer ${relayer.address} for SafePoll ${deployed.address} listening on http://localhost:${args.port}`,
+    );
+    // keep serving until the process is stopped
+    await closed(server);
+  });
@@ -0,0 +1,52 @@
+import * as fs from "fs";
+import { TASK_COMPILE } from "hardhat/builtin-tasks/task-names";
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import * as path from "path";
+import { format, resolveConfig } from "prettier";
+import { createPublicClient, createWalletClient, custom, type Address } from "viem";
+import { createSafePollClient, type SafePollClient } from "../sdk";
+
+/**
+ * The ABIs of the SDK (sdk/abi.ts) are generated from the compiled artifacts, so the tasks and the app can't drift
+ * from the contracts: every `hardhat compile` rewrites the file when an ABI changed, and `safepoll:sdk` does it on
+ * demand.
+ */
+
+const ABI_FILE = path.join(__dirname, "..", "sdk", "abi.ts");
+
+const HEADER = `// Generated by \`npx hardhat safepoll:sdk\` (run on every \`npx hardhat compile\`) from the SafePoll and
+// SafePollLens artifacts. Do not edit.
+`;
+
+task("safepoll:sdk", "Regenerate the contract ABIs of the SDK (sdk/abi.ts) from the compiled artifacts").setAction(
+  async function (_args, hre) {
+    const safePoll = await hre.artifacts.readArtifact("SafePoll");
+    const lens = await hre.artifacts.readArtifact("SafePollLens");
+    const source =
+      HEADER +
+      `\nexport const safePollAbi = ${JSON.stringify(safePoll.abi)} as const;\n` +
+      `\nexport const safePollLensAbi = ${JSON.stringify(lens.abi)} as const;\n`;
+    const text = await format(source, { ...(await resolveConfig(ABI_FILE)), filepath: ABI_FILE });
+    if (fs.existsSync(ABI_FILE) && fs.readFileSync(ABI_FILE, "utf8") === text) return;
+    fs.writeFileSync(ABI_FILE, text);
+    console.log(`Wrote ${path.relative(process.cwd(), ABI_FILE)}`);
+  },
+);
+
+task(TASK_COMPILE, async function (args, hre, runSuper) {
+  await runSuper(args);
+  await hre.run("safepoll:sdk");
+});
+
+// The SDK client of the deployed contracts over the network the task runs on; writes are sent from `account`
+// (one of the configured signers, which hardhat signs for)
+export async function safePollClient(hre: HardhatRuntimeEnvironment, account?: string): Promise<SafePollClient> {
+  const transport = custom(hre.network.provider);
+  return createSafePollClient({
+    publicClient: createPublicClient({ transport }),
+    walletClient: account ? createWalletClient({ account: account as Address, transport }) : undefined,
+    safePoll: (await hre.deployments.get("SafePoll")).address as Address,
+    lens: (await hre.deployments.get("SafePollLens")).address as Address,
+  });
+}
@@ -1,7 +1,10 @@
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { StandardMerkleTree } from "@openzeppelin/merkle-tree";
+import { FhevmType } from "@fhevm/hardhat-plugin";
 import { ethers, fhevm } from "hardhat";
 import { expect } from "chai";
-import { SafePoll, SafePoll__factory } from "../types";
+import { MockVotesToken, SafePoll, SafePoll__factory, SafePollLens } from "../types";
 
 type Signers = {
   deployer: HardhatEthersSigner;
@@ -9,17 +12,94 @@ type Signers = {
   bob: HardhatEthersSigner;
 };
 
+const DEFAULT_SETTINGS = {
+  startTime: 0,
+  endTime: 0,
+  eligibility: 0, // Open
+  merkleRoot: ethers.ZeroHash,
+  allowlist: [] as string[],
+  questionConfigs: [] as { kind: number; minSelections: number; maxSelections: number; minValue: number; maxValue: number }[],
+  weightToken: ethers.ZeroAddress,
+  weightUnit: 0,
+  revotable: false,
+  reviewers: [] as string[],
+  minTurnout: 0,
+  kAnonymity: 0,
+  epsilonMilli: 0,
+};
+
 async function deployFixture() {
-  const factory = (await ethers.getContractFactory("SafePoll")) as SafePoll__factory;
+  const tally = await (await ethers.getContractFactory("SurveyTally")).deploy();
+  const factory = (await ethers.getContractFactory("SafePoll", {
+    libraries: { SurveyTally: await tally.getAddress() },
+  })) as SafePoll__factory;
   const sp = (await factory.deploy()) as SafePoll;
   const address = await sp.getAddress();
-  return { sp, address };
+  const lens = (await (await ethers.getContractFactory("SafePollLens")).deploy(address)) as SafePollLens;
+  return { sp, address, lens };
+}
+
+// Ends the survey, requests public decryption and decrypts the option (or, given counterCount, pair) and invalid
+// counts of one question
+async function revealCounts(
+  sp: SafePoll,
+  creator: HardhatEthersSigner,
+  surveyId: number,
+  questionIndex: number,
+  counterCount?: number,
+) {
+  if ((await sp.getSurveyInfo(surveyId))[4]) {
+    await (await sp.connect(creator).endSurvey(surveyId)).wait();
+    await (await sp.connect(creator).requestDecryption(surveyId)).wait();
+  }
+  const [, options] = await sp.getQuestion(surveyId, questionIndex);
+  const counts: number[] = [];
+  for (let oi = 0; oi < (counterCount ?? options.length); oi++) {
+    const handle = await sp.getEncryptedOptionCount(surveyId, questionIndex, oi);
+    counts.push(Number(await fhevm.publicDecryptEuint(FhevmType.euint32, handle)));
+  }
+  const invalidHandle = await sp.getEncryptedInvalidCount(surveyId, questionIndex);
+  const invalid = Number(await fhevm.publicDecryptEuint(FhevmType.euint32, invalidHandle));
+  return { counts, invalid };
+}
+
+// What SurveyTally.suppressSmallCounts publishes of a single or multiple choice question: the counts below k, and
+// when those all agree every count equal to the smallest one left, replaced by `suppressed`
+function publishedCounts(counts: number[], k: number, suppressed: number): number[] {
+  const hidden = counts.filter((c) => c < k);
+  const visible = counts.filter((c) => c >= k);
+  const partner = hidden.length > 0 && hidden.every((c) => c === hidden[0]) ? Math.min(...visible) : undefined;
+  return counts.map((c) => (c < k || c === partner ? suppressed : c));
+}
+
+// Every way of splitting `total` ballots over n counts
+function splits(n: number, total: number): number[][] {
+  return n === 1
+    ? [[total]]
+    : Array.from({ length: total + 1 }, (_, c) => splits(n - 1, total - c).map((rest) => [c, ...rest])).flat();
+}
+
+// Every set of single-choice counts adding up to `total` that publishes as `published`: what an observer who knows
+// the turnout and the suppression rule can narrow the hidden counts down to
+function possibleCounts(published: number[], total: number, k: number, suppressed: number): number[][] {
+  return splits(published.length, total).filter((counts) =>
+    publishedCounts(counts, k, suppressed).every((c, i) => c === published[i]),
+  );
+}
+
+// Every hidden count takes more than one value across the possible counts, so none of them can be worked out
+function expectUnderivable(published: number[], total: number, k: number, suppressed: number) {
+  const possible = possibleCounts(published, total, k, suppressed);
+  published.forEach((c, i) => {
+    if (c === suppressed) expect(new Set(possible.map((counts) => counts[i])).size).to.be.greaterThan(1);
+  });
 }
 
 describe("SafePoll (local mock)", function () {
   let signers: Signers;
   let sp: SafePoll;
   let spAddress: string;
+  let lens: SafePollLens;
 
   before(async function () {
     const s = await ethers.getSigners();
@@ -34,6 +114,7 @@ describe("SafePoll (local mock)", function () {
     const r = await deployFixture();
     sp = r.sp;
     spAddress = r.address;
+    lens = r.lens;
   });
 
   it("creates a survey and records one vote (encrypted)", async function () {
@@ -45,7 +126,7 @@ describe("SafePoll (local mock)", function () {
       ["X", "Y", "Z"],
     ];
 
-    const txCreate = await sp.connect(signers.alice).createSurvey(title, desc, qTexts, qOpts);
+    const txCreate = await sp.connect(signers.alice).createSurvey(title, desc, qTexts, qOpts, DEFAULT_SETTINGS);
     await txCreate.wait();
 
     const total = await sp.getTotalSurveys();
@@ -89,8 +170,8 @@ describe("SafePoll (local mock)", function () {
     ).to.be.revertedWith("Voted");
   });
 
-  it("ends a survey and requests decryption (no revert)", async function () {
-    const txCreate = await sp.connect(signers.alice).createSurvey("T", "D", ["Q"], [["A", "B"]]);
+  it("ends a survey and stores the counts decrypted by the oracle", async function () {
+    const txCreate = await sp.connect(signers.alice).createSurvey("T", "D", ["Q"], [["A", "B"]], DEFAULT_SETTINGS);
     await txCreate.wait();
 
     // add a vote so that counters exist and the contract has ACL via allowThis
@@ -105,8 +186,849 @@ describe("SafePoll (local mock)", function () {
     const infoAfter = await sp.getSurveyInfo(1);
     expect(infoAfter[4]).to.eq(false); // isActive
 
-    // Request decryption; on mock this will succeed but not complete any callback
     const txReq = await sp.connect(signers.alice).requestDecryption(1);
     await txReq.wait();
+    expect(await sp.getDecryptedResults(1)).to.deep.eq([]);
+
+    // the mock oracle decrypts the handles and calls decryptionCallback
+    await fhevm.awaitDecryptionOracle();
+    expect((await sp.getSurveyInfo(1)).resultsDecrypted).to.eq(true);
+    const [result] = await sp.getDecryptedResults(1);
+    expect(result.surveyId).to.eq(1n);
+    expect(result.questionIndex).to.eq(0n);
+    expect(result.optionCounts).to.deep.eq([0n, 1n]);
+    expect(result.invalidCount).to.eq(0n);
+  });
+
+  it("lets the creator re-request a decryption the oracle left pending past the timeout", async function () {
+    await (await sp.connect(signers.alice).createSurvey("T", "D", ["Q"], [["A", "B"]], DEFAULT_SETTINGS)).wait();
+    const encrypted = await fhevm.createEncryptedInput(spAddress, signers.bob.address).add32(0).encrypt();
+    await (await sp.connect(signers.bob).submitVotes(1, encrypted.handles as unknown as string[], encrypted.inputProof)).wait();
+    await (await sp.connect(signers.alice).endSurvey(1)).wait();
+    expect((await sp.getPendingDecryption(1)).requestedAt).to.eq(0n);
+
+    await (await sp.connect(signers.alice).requestDecryption(1)).wait();
+    const [firstId, requestedAt, retryAt] = await sp.getPendingDecryption(1);
+    expect(requestedAt).to.eq(BigInt(await time.latest()));
+    expect(retryAt).to.eq(requestedAt + (await sp.DECRYPTION_TIMEOUT()));
+    await expect(sp.connect(signers.alice).requestDecryption(1)).to.be.revertedWith("Decryption pending");
+
+    await time.increaseTo(retryAt);
+    await expect(sp.connect(signers.alice).requestDecryption(1)).to.emit(sp, "DecryptionRequested");
+    const [secondId] = await sp.getPendingDecryption(1);
+    expect(secondId).to.not.eq(firstId);
+
+    // the first request's callback is stale now; the second one stores the results and clears the pending state
+    await fhevm.awaitDecryptionOracle();
+    expect((await sp.getSurveyInfo(1)).resultsDecrypted).to.eq(true);
+    expect((await sp.getDecryptedResults(1))[0].optionCounts).to.deep.eq([1n, 0n]);
+    expect((await sp.getPendingDecryption(1)).requestedAt).to.eq(0n);
+    await expect(sp.connect(signers.alice).requestDecryption(1)).to.be.revertedWith("Already");
+  });
+
+  it("only accepts votes inside the scheduled window", async function () {
+    const now = await time.latest();
+    const schedule = { ...DEFAULT_SETTINGS, startTime: now + 3600, endTime: now + 7200 };
+    await (await sp.connect(signers.alice).createSurvey("T", "D", ["Q"], [["A", "B"]], schedule)).wait();
+
+    const [startTime, endTime, status] = await sp.getSurveySchedule(1);
+    expect(startTime).to.eq(BigInt(schedule.startTime));
+    expect(endTime).to.eq(BigInt(schedule.endTime));
+    expect(status).to.eq(0n); // Upcoming
+
+    const encInput = fhevm.createEncryptedInput(spAddress, signers.bob.address);
+    encInput.add32(0);
+    const encrypted = await encInput.encrypt();
+    await expect(
+      sp.connect(signers.bob).submitVotes(1, encrypted.handles as unknown as string[], encrypted.inputProof),
+    ).to.be.revertedWith("Not started");
+
+    await time.increaseTo(schedule.startTime);
+    expect((await sp.getSurveySchedule(1))[2]).to.eq(1n); // Open
+    await (
+      await sp.connect(signers.bob).submitVotes(1, encrypted.handles as unknown as string[], encrypted.inputProof)
+    ).wait();
+
+    await time.increaseTo(schedule.endTime);
+    expect((await sp.getSurveySchedule(1))[2]).to.eq(2n); // Closed
+
+    const encInput2 = fhevm.createEncryptedInput(spAddress, signers.deployer.address);
+    encInput2.add32(1);
+    const encrypted2 = await encInput2.encrypt();
+    await expect(
+      sp.connect(signers.deployer).submitVotes(1, encrypted2.handles as unknown as string[], encrypted2.inputProof),
+    ).to.be.revertedWith("Closed");
+  });
+
+  it("lets anyone finalize a survey once its deadline has passed", async function () {
+    const now = await time.latest();
+    await (
+      await sp.connect(signers.alice).createSurvey("T", "D", ["Q"], [["A", "B"]], { ...DEFAULT_SETTINGS, endTime: now + 60 })
+    ).wait();
+
+    await expect(sp.connect(signers.bob).endSurvey(1)).to.be.revertedWith("Not admin");
+
+    await time.increase(61);
+    await expect(sp.connect(signers.bob).endSurvey(1)).to.emit(sp, "SurveyEnded").withArgs(1);
+    expect((await sp.getSurveyInfo(1))[4]).to.eq(false); // isActive
+  });
+
+  it("rejects a closing time that is not after the opening time", async function () {
+    const now = await time.latest();
+    await expect(
+      sp.connect(signers.alice).createSurvey("T", "D", ["Q"], [["A", "B"]], {
+        ...DEFAULT_SETTINGS,
+        startTime: now + 100,
+        endTime: now + 50,
+      }),
+    ).to.be.revertedWith("Bad schedule");
+  });
+
+  it("restricts votes to an on-chain allowlist", async function () {
+    const settings = { ...DEFAULT_SETTINGS, eligibility: 1, allowlist: [signers.bob.address] };
+    await (await sp.connect(signers.alice).createSurvey("T", "D", ["Q"], [["A", "B"]], settings)).wait();
+
+    expect(await sp.isEligible(1, signers.bob.address, [])).to.eq(true);
+    expect(await sp.isEligible(1, signers.alice.address, [])).to.eq(false);
+
+    const encAlice = fhevm.createEncryptedInput(spAddress, signers.alice.address);
+    encAlice.add32(0);
+    const encryptedAlice = await encAlice.encrypt();
+    await expect(
+      sp
+        .connect(signers.alice)
+        .submitVotes(1, encryptedAlice.handles as unknown as string[], encryptedAlice.inputProof),
+    ).to.be.revertedWith("Not eligible");
+
+    const encBob = fhevm.createEncryptedInput(spAddress, signers.bob.address);
+    encBob.add32(1);
+    const encryptedBob = await encBob.encrypt();
+    await (
+      await sp.connect(signers.bob).submitVotes(1, encryptedBob.handles as unknown as string[], encryptedBob.inputProof)
+    ).wait();
+    expect(await sp.hasUserVoted(1, signers.bob.address)).to.eq(true);
+  });
+
+  it("gates votes on a Merkle proof of eligibility", async function () {
+    const tree = StandardMerkleTree.of([[signers.bob.address], [signers.deployer.address]], ["address"]);
+    const settings = { ...DEFAULT_SETTINGS, eligibility: 2, merkleRoot: tree.root };
+    await (await sp.connect(signers.alice).createSurvey("T", "D", ["Q"], [["A", "B"]], settings)).wait();
+
+    const [mode, root] = await sp.getEligibility(1);
+    expect(mode).to.eq(2n);
+    expect(root).to.eq(tree.root);
+
+    const bobProof = tree.getProof([signers.bob.address]);
+    expect(await sp.isEligible(1, signers.bob.address, bobProof)).to.eq(true);
+    expect(await sp.isEligible(1, signers.alice.address, bobProof)).to.eq(false);
+
+    const encBob = fhevm.createEncryptedInput(spAddress, signers.bob.address);
+    encBob.add32(1);
+    const encryptedBob = await encBob.encrypt();
+    await expect(
+      sp.connect(signers.bob).submitVotes(1, encryptedBob.handles as unknown as string[], encryptedBob.inputProof),
+    ).to.be.revertedWith("Not eligible");
+    await (
+      await sp
+        .connect(signers.bob)
+        .submitVotesWithProof(1, encryptedBob.handles as unknown as string[], encryptedBob.inputProof, bobProof)
+    ).wait();
+    expect(await sp.hasUserVoted(1, signers.bob.address)).to.eq(true);
+
+    const encAlice = fhevm.createEncryptedInput(spAddress, signers.alice.address);
+    encAlice.add32(0);
+    const encryptedAlice = await encAlice.encrypt();
+    await expect(
+      sp
+        .connect(signers.alice)
+        .submitVotesWithProof(1, encryptedAlice.handles as unknown as string[], encryptedAlice.inputProof, bobProof),
+    ).to.be.revertedWith("Not eligible");
+  });
+
+  it("counts out-of-range single choices as invalid instead of dropping them", async function () {
+    await (await sp.connect(signers.alice).createSurvey("T", "D", ["Q"], [["A", "B"]], DEFAULT_SETTINGS)).wait();
+
+    const ballots: [HardhatEthersSigner, number][] = [
+      [signers.bob, 1],
+      [signers.deployer, 99],
+    ];
+    for (const [voter, choice] of ballots) {
+      const encInput = fhevm.createEncryptedInput(spAddress, voter.address);
+      encInput.add32(choice);
+      const encrypted = await encInput.encrypt();
+      await (
+        await sp.connect(voter).submitVotes(1, encrypted.handles as unknown as string[], encrypted.inputProof)
+      ).wait();
+    }
+
+    expect(Number((await sp.getSurveyInfo(1))[7])).to.eq(2); // totalVotes
+    expect(await revealCounts(sp, signers.alice, 1, 0)).to.deep.eq({ counts: [0, 1], invalid: 1 });
+  });
+
+  it("tallies every selected option of a multi-select question within its selection rule", async function () {
+    const settings = {
+      ...DEFAULT_SETTINGS,
+      questionConfigs: [{ kind: 1, minSelections: 1, maxSelections: 2, minValue: 0, maxValue: 0 }],
+    };
+    await (await sp.connect(signers.alice).createSurvey("T", "D", ["Q"], [["A", "B", "C"]], settings)).wait();
+
+    const [kind, minSelections, maxSelections] = await sp.getQuestionConfig(1, 0);
+    expect(kind).to.eq(1n);
+    expect(minSelections).to.eq(1n);
+    expect(maxSelections).to.eq(2n);
+
+    // bob: A + C (valid), alice: A + B + C (too many), deployer: unknown option bit (invalid)
+    const ballots: [HardhatEthersSigner, number][] = [
+      [signers.bob, 0b101],
+      [signers.alice, 0b111],
+      [signers.deployer, 0b1000],
+    ];
+    for (const [voter, mask] of ballots) {
+      const encInput = fhevm.createEncryptedInput(spAddress, voter.address);
+      encInput.add32(mask);
+      const encrypted = await encInput.encrypt();
+      await (
+        await sp.connect(voter).submitVotes(1, encrypted.handles as unknown as string[], encrypted.inputProof)
+      ).wait();
+    }
+
+    expect(await revealCounts(sp, signers.alice, 1, 0)).to.deep.eq({ counts: [1, 0, 1], invalid: 2 });
+  });
+
+  it("rejects an invalid multi-select rule", async function () {
+    const settings = {
+      ...DEFAULT_SETTINGS,
+      questionConfigs: [{ kind: 1, minSelections: 2, maxSelections: 3, minValue: 0, maxValue: 0 }],
+    };
+    await expect(
+      sp.connect(signers.alice).createSurvey("T", "D", ["Q"], [["A", "B"]], settings),
+    ).to.be.revertedWith("Bad selection rule");
+  });
+
+  it("keeps an encrypted sum and sum of squares of clamped numeric answers", async function () {
+    const settings = {
+      ...DEFAULT_SETTINGS,
+      questionConfigs: [{ kind: 2, minSelections: 0, maxSelections: 0, minValue: 1, maxValue: 5 }],
+    };
+    await (await sp.connect(signers.alice).createSurvey("T", "D", ["Rate us"], [[]], settings)).wait();
+
+    // 9 is clamped to 5
+    const ballots: [HardhatEthersSigner, number][] = [
+      [signers.bob, 5],
+      [signers.alice, 3],
+      [signers.deployer, 9],
+    ];
+    for (const [voter, value] of ballots) {
+      const encInput = fhevm.createEncryptedInput(spAddress, voter.address);
+      encInput.add32(value);
+      const encrypted = await encInput.encrypt();
+      await (
+        await sp.connect(voter).submitVotes(1, encrypted.handles as unknown as string[], encrypted.inputProof)
+      ).wait();
+    }
+
+    await (await sp.connect(signers.alice).endSurvey(1)).wait();
+    await (await sp.connect(signers.alice).requestDecryption(1)).wait();
+    const [sumHandle, sumSquaresHandle] = await sp.getEncryptedNumericTotals(1, 0);
+    expect(await fhevm.publicDecryptEuint(FhevmType.euint64, sumHandle)).to.eq(13n);
+    expect(await fhevm.publicDecryptEuint(FhevmType.euint64, sumSquaresHandle)).to.eq(59n);
+  });
+
+  it("rejects numeric questions with options, an empty range or one whose sum of squares could overflow", async function () {
+    const numeric = { kind: 2, minSelections: 0, maxSelections: 0, minValue: 0, maxValue: 10 };
+    await expect(
+      sp
+        .connect(signers.alice)
+        .createSurvey("T", "D", ["Q"], [["A"]], { ...DEFAULT_SETTINGS, questionConfigs: [numeric] }),
+    ).to.be.revertedWith("Numeric has options");
+    await expect(
+      sp
+        .connect(signers.alice)
+        .createSurvey("T", "D", ["Q"], [[]], { ...DEFAULT_SETTINGS, questionConfigs: [{ ...numeric, maxValue: 0 }] }),
+    ).to.be.revertedWith("Bad value range");
+    // up to 2^32 - 1 ballots, so the squares must stay around 2^32 for the sum to fit 64 bits
+    await expect(
+      sp
+        .connect(signers.alice)
+        .createSurvey("T", "D", ["Q"], [[]], {
+          ...DEFAULT_SETTINGS,
+          questionConfigs: [{ ...numeric, maxValue: 70000 }],
+        }),
+    ).to.be.revertedWith("Value range too large");
+  });
+
+  it("counts ranked ballots per ordered pair of options, not per ranking", async function () {
+    const ranked = { kind: 3, minSelections: 0, maxSelections: 0, minValue: 0, maxValue: 0 };
+    const settings = { ...DEFAULT_SETTINGS, questionConfigs: [ranked] };
+    await (await sp.connect(signers.alice).createSurvey("T", "D", ["Q"], [["A", "B", "C"]], settings)).wait();
+
+    // Lehmer codes over (A, B, C): 0 = A>B>C, 4 = C>A>B; 6 is out of range
+    const ballots: [HardhatEthersSigner, number][] = [
+      [signers.bob, 4],
+      [signers.alice, 0],
+      [signers.deployer, 6],
+    ];
+    for (const [voter, index] of ballots) {
+      const encInput = fhevm.createEncryptedInput(spAddress, voter.address);
+      encInput.add32(index);
+      const encrypted = await encInput.encrypt();
+      await (
+        await sp.connect(voter).submitVotes(1, encrypted.handles as unknown as string[], encrypted.inputProof)
+      ).wait();
+    }
+
+    // pairs A>B, A>C, B>A, B>C, C>A, C>B: both valid ballots put A over B, and each other pair splits them
+    expect(await revealCounts(sp, signers.alice, 1, 0, 6)).to.deep.eq({ counts: [2, 1, 0, 1, 1, 1], invalid: 1 });
+    await expect(sp.getEncryptedOptionCount(1, 0, 6)).to.be.revertedWith("Bad o");
+  });
+
+  it("requires between two and MAX_RANKED_OPTIONS candidates for ranked questions", async function () {
+    const ranked = { kind: 3, minSelections: 0, maxSelections: 0, minValue: 0, maxValue: 0 };
+    const settings = { ...DEFAULT_SETTINGS, questionConfigs: [ranked] };
+    expect(await sp.MAX_RANKED_OPTIONS()).to.eq(4n);
+    await expect(
+      sp.connect(signers.alice).createSurvey("T", "D", ["Q"], [["A"]], settings),
+    ).to.be.revertedWith("Bad ranked options");
+    await expect(
+      sp.connect(signers.alice).createSurvey("T", "D", ["Q"], [["A", "B", "C", "D", "E"]], settings),
+    ).to.be.revertedWith("Bad ranked options");
+  });
+
+  it("weights ballots by delegated token votes at the creation snapshot", async function () {
+    const token = (await (await ethers.getContractFactory("MockVotesToken")).deploy()) as MockVotesToken;
+    const unit = ethers.parseEther("1");
+    await (await token.mint(signers.bob.address, 3n * unit)).wait();
+    await (await token.mint(signers.alice.address, unit)).wait();
+    await (await token.mint(signers.deployer.address, 2n * unit)).wait();
+    await (await token.connect(signers.bob).delegate(signers.bob.address)).wait();
+    await (await token.connect(signers.alice).delegate(signers.alice.address)).wait();
+    // the deployer lends its votes to alice and keeps none
+    await (await token.connect(signers.deployer).delegate(signers.alice.address)).wait();
+
+    const settings = {
+      ...DEFAULT_SETTINGS,
+      questionConfigs: [
+        { kind: 0, minSelections: 0, maxSelections: 0, minValue: 0, maxValue: 0 },
+        { kind: 2, minSelections: 0, maxSelections: 0, minValue: 1, maxValue: 5 },
+      ],
+      weightToken: await token.getAddress(),
+      weightUnit: unit,
+    };
+    await (await sp.connect(signers.alice).createSurvey("T", "D", ["Q", "Rate"], [["A", "B"], []], settings)).wait();
+    // balances after creation do not count
+    await (await token.mint(signers.bob.address, 10n * unit)).wait();
+    expect(await sp.getVoterWeight(1, signers.bob.address)).to.eq(3n);
+    expect(await sp.getVoterWeight(1, signers.alice.address)).to.eq(3n);
+
+    const ballots: [HardhatEthersSigner, number, number][] = [
+      [signers.bob, 0, 5],
+      [signers.alice, 1, 2],
+    ];
+    for (const [voter, choice, rating] of ballots) {
+      const encInput = fhevm.createEncryptedInput(spAddress, voter.address);
+      encInput.add32(choice).add32(rating);
+      const encrypted = await encInput.encrypt();
+      await (
+        await sp.connect(voter).submitVotes(1, encrypted.handles as unknown as string[], encrypted.inputProof)
+      ).wait();
+    }
+    const encInput = fhevm.createEncryptedInput(spAddress, signers.deployer.address);
+    const encrypted = await encInput.add32(0).add32(1).encrypt();
+    await expect(
+      sp.connect(signers.deployer).submitVotes(1, encrypted.handles as unknown as string[], encrypted.inputProof),
+    ).to.be.revertedWith("No voting power");
+
+    expect((await sp.getVotingPower(1)).totalWeight).to.eq(6n);
+    expect((await sp.getSurveyInfo(1))[7]).to.eq(2n); // raw turnout
+    expect(await revealCounts(sp, signers.alice, 1, 0)).to.deep.eq({ counts: [3, 3], invalid: 0 });
+    const [sumHandle, sumSquaresHandle] = await sp.getEncryptedNumericTotals(1, 1);
+    expect(await fhevm.publicDecryptEuint(FhevmType.euint64, sumHandle)).to.eq(21n);
+    expect(await fhevm.publicDecryptEuint(FhevmType.euint64, sumSquaresHandle)).to.eq(87n);
+  });
+
+  it("replaces a voter's previous answers on revotable surveys", async function () {
+    const settings = {
+      ...DEFAULT_SETTINGS,
+      questionConfigs: [
+        { kind: 0, minSelections: 0, maxSelections: 0, minValue: 0, maxValue: 0 },
+        { kind: 2, minSelections: 0, maxSelections: 0, minValue: 1, maxValue: 5 },
+      ],
+      revotable: true,
+    };
+    await (await sp.connect(signers.alice).createSurvey("T", "D", ["Q", "Rate"], [["A", "B"], []], settings)).wait();
+    expect(await sp.isRevotable(1)).to.eq(true);
+
+    const ballots: [HardhatEthersSigner, number, number][] = [
+      [signers.bob, 0, 5],
+      [signers.alice, 1, 3],
+      [signers.bob, 1, 2], // bob changes his mind
+    ];
+    for (const [voter, choice, rating] of ballots) {
+      const encInput = fhevm.createEncryptedInput(spAddress, voter.address);
+      const encrypted = await encInput.add32(choice).add32(rating).encrypt();
+      await (
+        await sp.connect(voter).submitVotes(1, encrypted.handles as unknown as string[], encrypted.inputProof)
+      ).wait();
+    }
+
+    expect((await sp.getSurveyInfo(1))[7]).to.eq(2n);
+    expect(await revealCounts(sp, signers.alice, 1, 0)).to.deep.eq({ counts: [0, 2], invalid: 0 });
+    const [sumHandle, sumSquaresHandle] = await sp.getEncryptedNumericTotals(1, 1);
+    expect(await fhevm.publicDecryptEuint(FhevmType.euint64, sumHandle)).to.eq(5n);
+    expect(await fhevm.publicDecryptEuint(FhevmType.euint64, sumSquaresHandle)).to.eq(13n);
+  });
+
+  it("rejects a second ballot unless the survey is revotable", async function () {
+    await (await sp.connect(signers.alice).createSurvey("T", "D", ["Q"], [["A", "B"]], DEFAULT_SETTINGS)).wait();
+    const first = await fhevm.createEncryptedInput(spAddress, signers.bob.address).add32(0).encrypt();
+    await (await sp.connect(signers.bob).submitVotes(1, first.handles as unknown as string[], first.inputProof)).wait();
+
+    const second = await fhevm.createEncryptedInput(spAddress, signers.bob.address).add32(1).encrypt();
+    await expect(
+      sp.connect(signers.bob).submitVotes(1, second.handles as unknown as string[], second.inputProof),
+    ).to.be.revertedWith("Voted");
+  });
+
+  it("lets a voter, and only the voter, decrypt the ballot recorded for them", async function () {
+    const settings = {
+      ...DEFAULT_SETTINGS,
+      questionConfigs: [
+        { kind: 1, minSelections: 0, maxSelections: 0, minValue: 0, maxValue: 0 },
+        { kind: 2, minSelections: 0, maxSelections: 0, minValue: 1, maxValue: 5 },
+      ],
+    };
+    await (await sp.connect(signers.alice).createSurvey("T", "D", ["Q", "Rate"], [["A", "B", "C"], []], settings)).wait();
+    await expect(sp.getBallot(1, signers.bob.address)).to.be.revertedWith("No ballot");
+
+    const encrypted = await fhevm.createEncryptedInput(spAddress, signers.bob.address).add32(0b101).add32(4).encrypt();
+    await (await sp.connect(signers.bob).submitVotes(1, encrypted.handles as unknown as string[], encrypted.inputProof)).wait();
+
+    const ballot = await sp.getBallot(1, signers.bob.address);
+    expect(ballot.length).to.eq(2);
+    expect(await fhevm.userDecryptEuint(FhevmType.euint32, ballot[0], spAddress, signers.bob)).to.eq(0b101n);
+    expect(await fhevm.userDecryptEuint(FhevmType.euint32, ballot[1], spAddress, signers.bob)).to.eq(4n);
+    await expect(fhevm.userDecryptEuint(FhevmType.euint32, ballot[0], spAddress, signers.alice)).to.be.rejected;
+  });
+
+  it("lets the creator and reviewers privately decrypt the final tallies without a public reveal", async function () {
+    const settings = { ...DEFAULT_SETTINGS, reviewers: [signers.bob.address] };
+    await (await sp.connect(signers.alice).createSurvey("T", "D", ["Q"], [["A", "B"]], settings)).wait();
+    expect(await sp.getReviewers(1)).to.deep.eq([signers.bob.address]);
+
+    for (const [voter, choice] of [
+      [signers.bob, 1],
+      [signers.deployer, 1],
+    ] as [HardhatEthersSigner, number][]) {
+      const encrypted = await fhevm.createEncryptedInput(spAddress, voter.address).add32(choice).encrypt();
+      await (await sp.connect(voter).submitVotes(1, encrypted.handles as unknown as string[], encrypted.inputProof)).wait();
+    }
+    const handle = await sp.getEncryptedOptionCount(1, 0, 1);
+    // no access while the survey is open
+    await expect(fhevm.userDecryptEuint(FhevmType.euint32, handle, spAddress, signers.alice)).to.be.rejected;
+
+    await (await sp.connect(signers.alice).endSurvey(1)).wait();
+    expect(await fhevm.userDecryptEuint(FhevmType.euint32, handle, spAddress, signers.alice)).to.eq(2n);
+    expect(await fhevm.userDecryptEuint(FhevmType.euint32, handle, spAddress, signers.bob)).to.eq(2n);
+    await expect(fhevm.userDecryptEuint(FhevmType.euint32, handle, spAddress, signers.deployer)).to.be.rejected;
+    await expect(fhevm.publicDecryptEuint(FhevmType.euint32, handle)).to.be.rejected;
+  });
+
+  it("bounds the number of reviewers", async function () {
+    const reviewers = Array.from({ length: 11 }, () => ethers.Wallet.createRandom().address);
+    await expect(
+      sp.connect(signers.alice).createSurvey("T", "D", ["Q"], [["A", "B"]], { ...DEFAULT_SETTINGS, reviewers }),
+    ).to.be.revertedWith("Too many reviewers");
+  });
+
+  it("keeps results sealed while turnout is below the survey's threshold", async function () {
+    const settings = { ...DEFAULT_SETTINGS, minTurnout: 3 };
+    await (await sp.connect(signers.alice).createSurvey("T", "D", ["Q"], [["A", "B"]], settings)).wait();
+    expect(await sp.getPrivacyThresholds(1)).to.deep.eq([3n, 0n]);
+    for (const voter of [signers.bob, signers.deployer]) {
+      const encrypted = await fhevm.createEncryptedInput(spAddress, voter.address).add32(0).encrypt();
+      await (await sp.connect(voter).submitVotes(1, encrypted.handles as unknown as string[], encrypted.inputProof)).wait();
+    }
+
+    await (await sp.connect(signers.alice).endSurvey(1)).wait();
+    await expect(sp.connect(signers.alice).requestDecryption(1)).to.be.revertedWith("Turnout too low");
+    const handle = await sp.getEncryptedOptionCount(1, 0, 0);
+    await expect(fhevm.userDecryptEuint(FhevmType.euint32, handle, spAddress, signers.alice)).to.be.rejected;
+  });
+
+  it("reveals counts above the threshold with buckets below k suppressed", async function () {
+    const settings = { ...DEFAULT_SETTINGS, minTurnout: 3, kAnonymity: 2 };
+    await (await sp.connect(signers.alice).createSurvey("T", "D", ["Q"], [["A", "B", "C"]], settings)).wait();
+    const ballots: [HardhatEthersSigner, number][] = [
+      [signers.bob, 0],
+      [signers.deployer, 0],
+      [signers.alice, 1],
+    ];
+    for (const [voter, choice] of ballots) {
+      const encrypted = await fhevm.createEncryptedInput(spAddress, voter.address).add32(choice).encrypt();
+      await (await sp.connect(voter).submitVotes(1, encrypted.handles as unknown as string[], encrypted.inputProof)).wait();
+    }
+
+    const suppressed = Number(await sp.SUPPRESSED());
+    // B=1 and C=0 are below k and hidden together: the turnout gives B+C=1, but not which of them is the 1
+    const { counts, invalid } = await revealCounts(sp, signers.alice, 1, 0);
+    expect({ counts, invalid }).to.deep.eq({ counts: [2, suppressed, suppressed], invalid: 0 });
+    expect(publishedCounts([2, 1, 0], 2, suppressed)).to.deep.eq(counts);
+    expectUnderivable(counts, 3, 2, suppressed);
+    const handle = await sp.getEncryptedOptionCount(1, 0, 1);
+    expect(await fhevm.userDecryptEuint(FhevmType.euint32, handle, spAddress, signers.alice)).to.eq(BigInt(suppressed));
+  });
+
+  it("hides the smallest visible count too when the hidden ones would give each other away", async function () {
+    const settings = { ...DEFAULT_SETTINGS, minTurnout: 4, kAnonymity: 2 };
+    await (await sp.connect(signers.alice).createSurvey("T", "D", ["Q"], [["A", "B", "C"]], settings)).wait();
+    const [, , , carol] = await ethers.getSigners();
+    const ballots: [HardhatEthersSigner, number][] = [
+      [signers.bob, 0],
+      [signers.deployer, 0],
+      [signers.alice, 1],
+      [carol, 2],
+    ];
+    for (const [voter, choice] of ballots) {
+      const encrypted = await fhevm.createEncryptedInput(spAddress, voter.address).add32(choice).encrypt();
+      await (await sp.connect(voter).submitVotes(1, encrypted.handles as unknown as string[], encrypted.inputProof)).wait();
+    }
+
+    const suppressed = Number(await sp.SUPPRESSED());
+    // B=1 and C=1 alone would be given away by the turnout (B+C=2 with both below k), so A=2 is hidden with them
+    const { counts, invalid } = await revealCounts(sp, signers.alice, 1, 0);
+    expect({ counts, invalid }).to.deep.eq({ counts: [suppressed, suppressed, suppressed], invalid: 0 });
+    expect(publishedCounts([2, 1, 1], 2, suppressed)).to.deep.eq(counts);
+    expectUnderivable(counts, 4, 2, suppressed);
+    // whatever the ballots, the turnout does not give back a hidden count
+    for (const ballots of splits(4, 7)) {
+      expectUnderivable(publishedCounts(ballots, 3, suppressed), 7, 3, suppressed);
+    }
+  });
+
+  it("hides both directions of a ranked pair when either is below k", async function () {
+    const ranked = { kind: 3, minSelections: 0, maxSelections: 0, minValue: 0, maxValue: 0 };
+    const settings = { ...DEFAULT_SETTINGS, questionConfigs: [ranked], kAnonymity: 2 };
+    await (await sp.connect(signers.alice).createSurvey("T", "D", ["Q"], [["A", "B", "C"]], settings)).wait();
+    const [, , , carol] = await ethers.getSigners();
+    // Lehmer codes over (A, B, C): 0 = A>B>C, 2 = B>A>C
+    const ballots: [HardhatEthersSigner, number][] = [
+      [signers.bob, 0],
+      [signers.deployer, 0],
+      [signers.alice, 2],
+      [carol, 2],
+    ];
+    for (const [voter, index] of ballots) {
+      const encrypted = await fhevm.createEncryptedInput(spAddress, voter.address).add32(index).encrypt();
+      await (await sp.connect(voter).submitVotes(1, encrypted.handles as unknown as string[], encrypted.inputProof)).wait();
+    }
+
+    const suppressed = Number(await sp.SUPPRESSED());
+    // pairs A>B, A>C, B>A, B>C, C>A, C>B = 2, 4, 2, 4, 0, 0: C>A=0 is below k, and A>C=4 would give it back as the
+    // 4 valid ballots minus 4, so both go; A and B split 2-2 and stay
+    expect(await revealCounts(sp, signers.alice, 1, 0, 6)).to.deep.eq({
+      counts: [2, suppressed, 2, suppressed, suppressed, suppressed],
+      invalid: 0,
+    });
+  });
+
+  it("records the noise budget and only accepts it for unweighted surveys above the floor", async function () {
+    await (
+      await sp.connect(signers.alice).createSurvey("T", "D", ["Q"], [["A", "B"]], { ...DEFAULT_SETTINGS, epsilonMilli: 1000 })
+    ).wait();
+    // two option counts and the invalid count to noise
+    expect(await sp.getNoise(1)).to.deep.eq([1000n, 0n, 3n]);
+    await expect(
+      sp.connect(signers.alice).createSurvey("T", "D", ["Q"], [["A", "B"]], { ...DEFAULT_SETTINGS, epsilonMilli: 100 }),
+    ).to.be.revertedWith("Epsilon too small");
+    const weighted = { ...DEFAULT_SETTINGS, epsilonMilli: 1000, weightToken: ethers.Wallet.createRandom().address, weightUnit: 1 };
+    await expect(sp.connect(signers.alice).createSurvey("T", "D", ["Q"], [["A", "B"]], weighted)).to.be.revertedWith(
+      "Noise needs unweighted",
+    );
+  });
+
+  it("spreads the noise budget over every count one ballot can move", async function () {
+    const multi = { kind: 1, minSelections: 0, maxSelections: 3, minValue: 0, maxValue: 0 };
+    const ranked = { kind: 3, minSelections: 0, maxSelections: 0, minValue: 0, maxValue: 0 };
+    const create = (epsilonMilli: number) =>
+      sp
+        .connect(signers.alice)
+        .createSurvey("T", "D", ["Pick", "Rank"], [["A", "B", "C", "D"], ["X", "Y", "Z"]], {
+          ...DEFAULT_SETTINGS,
+          questionConfigs: [multi, ranked],
+          epsilonMilli,
+        });
+    // a ballot moves up to 3 option counts and one direction of 3 pairs: 6 counts need 6 times the floor
+    await expect(create(2999)).to.be.revertedWith("Epsilon too small");
+    await (await create(3100)).wait();
+    // each count gets 3100 / 6 = 516, so the budget that holds per ballot is 516 * 6
+    expect((await sp.getNoise(1)).epsilonMilli).to.eq(3096n);
+
+    // an edit cannot add counts the budget does not cover
+    await expect(
+      sp
+        .connect(signers.alice)
+        .editSurvey(1, "T", "D", ["Pick", "Rank"], [["A", "B", "C", "D"], ["W", "X", "Y", "Z"]], [multi, ranked]),
+    ).to.be.revertedWith("Epsilon too small");
+  });
+
+  it("adds bounded noise to every revealed count", async function () {
+    const ranked = { kind: 3, minSelections: 0, maxSelections: 0, minValue: 0, maxValue: 0 };
+    const settings = { ...DEFAULT_SETTINGS, questionConfigs: [ranked], epsilonMilli: 3000 };
+    await (await sp.connect(signers.alice).createSurvey("T", "D", ["Q"], [["A", "B", "C", "D"]], settings)).wait();
+    const encrypted = await fhevm.createEncryptedInput(spAddress, signers.bob.address).add32(0).encrypt();
+    await (await sp.connect(signers.bob).submitVotes(1, encrypted.handles as unknown as string[], encrypted.inputProof)).wait();
+
+    await (await sp.connect(signers.alice).endSurvey(1)).wait();
+    await expect(sp.connect(signers.alice).requestDecryption(1)).to.be.revertedWith("Noise pending");
+    // the FHE work is spread over several calls, by anyone
+    let calls = 0;
+    for (let [, noised, total] = await sp.getNoise(1); noised < total; [, noised, total] = await sp.getNoise(1)) {
+      await (await sp.connect(signers.bob).addNoise(1)).wait();
+      calls++;
+    }
+    expect(calls).to.be.greaterThan(1);
+    await expect(sp.addNoise(1)).to.be.revertedWith("Already noised");
+    await (await sp.connect(signers.alice).requestDecryption(1)).wait();
+
+    // 12 pairs + invalid: all of them coming out exact is vanishingly unlikely at epsilon 3 over 6 pairs per ballot
+    const { counts, invalid } = await revealCounts(sp, signers.alice, 1, 0, 12);
+    // the ballot ranks A>B>C>D: it counts for every pair in that order
+    const exact = [1, 1, 1, 0, 1, 1, 0, 0, 1, 0, 0, 0];
+    const errors = [...counts.map((c, i) => c - exact[i]), invalid];
+    expect(errors.some((e) => e !== 0)).to.eq(true);
+    expect(errors.every((e) => Math.abs(e) <= 24)).to.eq(true);
+  });
+
+  it("lets the creator edit a survey until the first vote", async function () {
+    await (await sp.connect(signers.alice).createSurvey("Tpyo", "D", ["Q1", "Q2"], [["A", "B"], ["X", "Y"]], DEFAULT_SETTINGS)).wait();
+    const numeric = { kind: 2, minSelections: 0, maxSelections: 0, minValue: 1, maxValue: 5 };
+    const single = { kind: 0, minSelections: 0, maxSelections: 0, minValue: 0, maxValue: 0 };
+    await expect(sp.connect(signers.bob).editSurvey(1, "Typo", "D2", ["Q"], [["A"]], [])).to.be.revertedWith("Not creator");
+    await expect(sp.connect(signers.alice).editSurvey(1, "Typo", "D2", ["Rate", "Pick"], [[], ["A", "B", "C"]], [numeric, single]))
+      .to.emit(sp, "SurveyEdited")
+      .withArgs(1);
+
+    const info = await sp.getSurveyInfo(1);
+    expect([info.title, info.description, info.questionCount]).to.deep.eq(["Typo", "D2", 2n]);
+    expect(await sp.getQuestion(1, 0)).to.deep.eq(["Rate", []]);
+    expect((await sp.getQuestionConfig(1, 0)).kind).to.eq(2n);
+    expect(await sp.getQuestion(1, 1)).to.deep.eq(["Pick", ["A", "B", "C"]]);
+
+    const encrypted = await fhevm
+      .createEncryptedInput(spAddress, signers.bob.address)
+      .add32(4)
+      .add32(2)
+      .encrypt();
+    await (await sp.connect(signers.bob).submitVotes(1, encrypted.handles as unknown as string[], encrypted.inputProof)).wait();
+    await expect(sp.connect(signers.alice).editSurvey(1, "T", "D", ["Q"], [["A", "B"]], [])).to.be.revertedWith("Has votes");
+  });
+
+  it("cancels a survey so it closes and its results can never be decrypted", async function () {
+    await (await sp.connect(signers.alice).createSurvey("T", "D", ["Q"], [["A", "B"]], DEFAULT_SETTINGS)).wait();
+
+    await expect(sp.connect(signers.bob).cancelSurvey(1)).to.be.revertedWith("Not creator");
+    await expect(sp.connect(signers.alice).cancelSurvey(1)).to.emit(sp, "SurveyCancelled").withArgs(1);
+    expect((await sp.getSurveySchedule(1))[2]).to.eq(3n); // Cancelled
+    await expect(sp.connect(signers.alice).endSurvey(1)).to.be.revertedWith("Already ended");
+    await expect(sp.connect(signers.alice).requestDecryption(1)).to.be.revertedWith("Cancelled");
+    const encrypted = await fhevm.createEncryptedInput(spAddress, signers.bob.address).add32(0).encrypt();
+    await expect(
+      sp.connect(signers.bob).submitVotes(1, encrypted.handles as unknown as string[], encrypted.inputProof),
+    ).to.be.reverted;
+  });
+
+  it("does not cancel a survey once someone voted, even past its deadline", async function () {
+    const endTime = (await time.latest()) + 3600;
+    await (
+      await sp.connect(signers.alice).createSurvey("T", "D", ["Q"], [["A", "B"]], { ...DEFAULT_SETTINGS, endTime })
+    ).wait();
+    const encrypted = await fhevm.createEncryptedInput(spAddress, signers.bob.address).add32(0).encrypt();
+    await (await sp.connect(signers.bob).submitVotes(1, encrypted.handles as unknown as string[], encrypted.inputProof)).wait();
+
+    await expect(sp.connect(signers.alice).cancelSurvey(1)).to.be.revertedWith("Has votes");
+    await time.increaseTo(endTime + 1);
+    await expect(sp.connect(signers.alice).cancelSurvey(1)).to.be.revertedWith("Has votes");
+    // it runs to its end as usual, and its results can be revealed
+    await (await sp.connect(signers.bob).endSurvey(1)).wait();
+    await expect(sp.connect(signers.alice).requestDecryption(1)).to.emit(sp, "DecryptionRequested");
+  });
+
+  it("archives a survey from listings and restores it", async function () {
+    await (await sp.connect(signers.alice).createSurvey("T", "D", ["Q"], [["A", "B"]], DEFAULT_SETTINGS)).wait();
+    await expect(sp.connect(signers.bob).setArchived(1, true)).to.be.revertedWith("Not creator");
+    await expect(sp.connect(signers.alice).setArchived(1, true)).to.emit(sp, "SurveyArchived").withArgs(1, true);
+    expect(await sp.isArchived(1)).to.eq(true);
+    await (await sp.connect(signers.alice).setArchived(1, false)).wait();
+    expect(await sp.isArchived(1)).to.eq(false);
+  });
+
+  it("lets co-admins end a survey and request its decryption until revoked", async function () {
+    await (await sp.connect(signers.alice).createSurvey("T", "D", ["Q"], [["A", "B"]], DEFAULT_SETTINGS)).wait();
+    await expect(sp.connect(signers.bob).grantRole(1, 0, signers.bob.address)).to.be.revertedWith("Not creator");
+    await expect(sp.connect(signers.alice).grantRole(1, 0, signers.bob.address))
+      .to.emit(sp, "RoleGranted")
+      .withArgs(1, 0, signers.bob.address);
+    await expect(sp.connect(signers.alice).grantRole(1, 0, signers.bob.address)).to.be.revertedWith("Has role");
+    await (await sp.connect(signers.alice).grantRole(1, 0, signers.deployer.address)).wait();
+    expect(await sp.getAdmins(1)).to.deep.eq([signers.bob.address, signers.deployer.address]);
+
+    // admins cannot manage the survey itself
+    await expect(sp.connect(signers.bob).cancelSurvey(1)).to.be.revertedWith("Not creator");
+    await expect(sp.connect(signers.alice).revokeRole(1, 0, signers.bob.address))
+      .to.emit(sp, "RoleRevoked")
+      .withArgs(1, 0, signers.bob.address);
+    expect(await sp.getAdmins(1)).to.deep.eq([signers.deployer.address]);
+    await expect(sp.connect(signers.bob).endSurvey(1)).to.be.revertedWith("Not admin");
+
+    await expect(sp.connect(signers.deployer).endSurvey(1)).to.emit(sp, "SurveyEnded").withArgs(1);
+    await expect(sp.connect(signers.deployer).requestDecryption(1)).to.emit(sp, "DecryptionRequested");
+  });
+
+  it("grants viewers added after the end the final tallies, and keeps them", async function () {
+    await (await sp.connect(signers.alice).createSurvey("T", "D", ["Q"], [["A", "B"]], DEFAULT_SETTINGS)).wait();
+    const encrypted = await fhevm.createEncryptedInput(spAddress, signers.deployer.address).add32(1).encrypt();
+    await (await sp.connect(signers.deployer).submitVotes(1, encrypted.handles as unknown as string[], encrypted.inputProof)).wait();
+    await (await sp.connect(signers.alice).endSurvey(1)).wait();
+    const handle = await sp.getEncryptedOptionCount(1, 0, 1);
+    await expect(fhevm.userDecryptEuint(FhevmType.euint32, handle, spAddress, signers.bob)).to.be.rejected;
+
+    await (await sp.connect(signers.alice).grantRole(1, 1, signers.bob.address)).wait();
+    expect(await sp.getReviewers(1)).to.deep.eq([signers.bob.address]);
+    expect(await fhevm.userDecryptEuint(FhevmType.euint32, handle, spAddress, signers.bob)).to.eq(1n);
+    // ACL grants cannot be taken back
+    await expect(sp.connect(signers.alice).revokeRole(1, 1, signers.bob.address)).to.be.revertedWith("Already granted");
+  });
+
+  it("transfers survey ownership in two steps", async function () {
+    await (await sp.connect(signers.alice).createSurvey("T", "D", ["Q"], [["A", "B"]], DEFAULT_SETTINGS)).wait();
+    await expect(sp.connect(signers.bob).transferOwnership(1, signers.bob.address)).to.be.revertedWith("Not creator");
+    await expect(sp.connect(signers.alice).transferOwnership(1, signers.bob.address))
+      .to.emit(sp, "OwnershipTransferStarted")
+      .withArgs(1, signers.alice.address, signers.bob.address);
+    expect(await sp.getPendingOwner(1)).to.eq(signers.bob.address);
+    // nothing changes hands until the new owner accepts
+    expect((await sp.getSurveyInfo(1)).creator).to.eq(signers.alice.address);
+    await expect(sp.connect(signers.deployer).acceptOwnership(1)).to.be.revertedWith("Not pending owner");
+
+    await expect(sp.connect(signers.bob).acceptOwnership(1))
+      .to.emit(sp, "OwnershipTransferred")
+      .withArgs(1, signers.alice.address, signers.bob.address);
+    expect((await sp.getSurveyInfo(1)).creator).to.eq(signers.bob.address);
+    expect(await sp.getPendingOwner(1)).to.eq(ethers.ZeroAddress);
+    await expect(sp.connect(signers.alice).setArchived(1, true)).to.be.revertedWith("Not creator");
+    await expect(sp.connect(signers.bob).endSurvey(1)).to.emit(sp, "SurveyEnded");
+  });
+
+  it("counts a relayed EIP-712 ballot for its signer", async function () {
+    await (await sp.connect(signers.alice).createSurvey("T", "D", ["Q"], [["A", "B"]], DEFAULT_SETTINGS)).wait();
+    const relayer = signers.deployer;
+    const voter = signers.bob;
+    // the inputs are bound to whoever submits them, here the relayer
+    const encrypted = await fhevm.createEncryptedInput(spAddress, relayer.address).add32(1).encrypt();
+    const handles = encrypted.handles.map((h) => ethers.hexlify(h));
+    const inputProof = ethers.hexlify(encrypted.inputProof);
+    const deadline = (await time.latest()) + 600;
+    const { chainId } = await ethers.provider.getNetwork();
+    const domain = { name: "SafePoll", version: "1", chainId, verifyingContract: spAddress };
+    const types = {
+      Ballot: [
+        { name: "surveyId", type: "uint256" },
+        { name: "handles", type: "bytes32[]" },
+        { name: "inputProof", type: "bytes" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+      ],
+    };
+    const nonce = await sp.nonces(voter.address);
+    const signature = await voter.signTypedData(domain, types, { surveyId: 1, handles, inputProof, nonce, deadline });
+    const ballot = { surveyId: 1, voter: voter.address, handles, inputProof, merkleProof: [], deadline, signature };
+
+    // signed by someone else
+    await expect(sp.connect(relayer).submitVotesBySig({ ...ballot, voter: signers.alice.address })).to.be.revertedWith(
+      "Bad signature",
+    );
+    await expect(sp.connect(relayer).submitVotesBySig(ballot)).to.emit(sp, "VoteSubmitted").withArgs(1, voter.address);
+    expect(await sp.hasUserVoted(1, voter.address)).to.eq(true);
+    expect(await sp.hasUserVoted(1, relayer.address)).to.eq(false);
+    expect(await sp.nonces(voter.address)).to.eq(nonce + 1n);
+    const [answer] = await sp.getBallot(1, voter.address);
+    expect(await fhevm.userDecryptEuint(FhevmType.euint32, answer, spAddress, voter)).to.eq(1n);
+    // the nonce is spent, so the same signature cannot be replayed
+    await expect(sp.connect(relayer).submitVotesBySig(ballot)).to.be.revertedWith("Bad signature");
+
+    await time.increase(601);
+    await expect(sp.connect(relayer).submitVotesBySig(ballot)).to.be.revertedWith("Signature expired");
+
+    const { counts } = await revealCounts(sp, signers.alice, 1, 0);
+    expect(counts).to.deep.eq([0, 1]);
+  });
+
+  it("reads pages of surveys, a whole survey and its encrypted counters in one call each", async function () {
+    const settings = {
+      ...DEFAULT_SETTINGS,
+      questionConfigs: [
+        { kind: 0, minSelections: 0, maxSelections: 0, minValue: 0, maxValue: 0 },
+        { kind: 2, minSelections: 0, maxSelections: 0, minValue: 1, maxValue: 5 },
+        { kind: 3, minSelections: 0, maxSelections: 0, minValue: 0, maxValue: 0 },
+      ],
+    };
+    for (let i = 1; i <= 5; i++) {
+      await (await sp.connect(signers.alice).createSurvey(`T${i}`, "D", ["Q"], [["A", "B"]], DEFAULT_SETTINGS)).wait();
+    }
+    await (await sp.connect(signers.alice).setArchived(4, true)).wait();
+
+    // newest first, archived surveys skipped unless asked for
+    const [first, next] = await lens.getSurveys(0, 2, false);
+    expect(first.map((s) => s.id)).to.deep.eq([5n, 3n]);
+    expect(first[0].title).to.eq("T5");
+    expect(first[0].archived).to.eq(false);
+    expect(next).to.eq(2n);
+    const [second, end] = await lens.getSurveys(next, 2, false);
+    expect(second.map((s) => s.id)).to.deep.eq([2n, 1n]);
+    expect(end).to.eq(0n);
+    const [all] = await lens.getSurveys(0, 10, true);
+    expect(all.map((s) => s.id)).to.deep.eq([5n, 4n, 3n, 2n, 1n]);
+    expect(all[1].archived).to.eq(true);
+    await expect(lens.getSurveys(0, 0, false)).to.be.revertedWith("Bad limit");
+    const picked = await lens.getSurveysByIds([2, 4]);
+    expect(picked.map((s) => s.title)).to.deep.eq(["T2", "T4"]);
+    await expect(lens.getSurveysByIds([9])).to.be.revertedWith("No survey");
+
+    await (
+      await sp
+        .connect(signers.alice)
+        .createSurvey("Mixed", "D", ["Pick", "Rate", "Rank"], [["A", "B"], [], ["X", "Y", "Z"]], settings)
+    ).wait();
+    await (await sp.connect(signers.alice).grantRole(6, 0, signers.bob.address)).wait();
+    const d = await lens.getSurvey(6);
+    expect(d.summary.title).to.eq("Mixed");
+    expect(d.summary.creator).to.eq(signers.alice.address);
+    expect(d.summary.questionCount).to.eq(3n);
+    expect(d.summary.status).to.eq(1n); // Open
+    expect(d.admins).to.deep.eq([signers.bob.address]);
+    expect(d.questions.map((q) => q.text)).to.deep.eq(["Pick", "Rate", "Rank"]);
+    expect(d.questions[2].options).to.deep.eq(["X", "Y", "Z"]);
+    expect(d.questions[1].config.maxValue).to.eq(5n);
+    await expect(lens.getSurvey(7)).to.be.revertedWith("No survey");
+
+    const encInput = fhevm.createEncryptedInput(spAddress, signers.bob.address);
+    encInput.add32(1);
+    encInput.add32(4);
+    encInput.add32(0);
+    const encrypted = await encInput.encrypt();
+    await (
+      await sp.connect(signers.bob).submitVotes(6, encrypted.handles as unknown as string[], encrypted.inputProof)
+    ).wait();
+    expect(await lens.getVoted(signers.bob.address, [5, 6])).to.deep.eq([false, true]);
+
+    const handles = await lens.getEncryptedHandles(6);
+    expect(handles[0].optionCounts).to.deep.eq([
+      await sp.getEncryptedOptionCount(6, 0, 0),
+      await sp.getEncryptedOptionCount(6, 0, 1),
+    ]);
+    expect(handles[0].invalidCount).to.eq(await sp.getEncryptedInvalidCount(6, 0));
+    expect(handles[1].optionCounts).to.deep.eq([]);
+    expect([handles[1].sum, handles[1].sumSquares]).to.deep.eq([...(await sp.getEncryptedNumericTotals(6, 1))]);
+    expect(handles[2].optionCounts.length).to.eq(6); // one per ordered pair of three options
   });
 });
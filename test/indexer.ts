@@ -0,0 +1,50 @@
+import { expect } from "chai";
+import hre, { deployments, ethers, fhevm, network } from "hardhat";
+import { openIndexer, type Indexer } from "../tasks/indexer";
+
+describe("safepoll:indexer", function () {
+  let indexer: Indexer | undefined;
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn("This test suite runs only against the local FHEVM mock");
+      this.skip();
+    }
+    await deployments.fixture(["SafePoll"]);
+    indexer = await openIndexer(hre, { db: ":memory:" });
+  });
+
+  afterEach(function () {
+    indexer?.close();
+    indexer = undefined;
+  });
+
+  it("forgets the events of blocks rolled back by a reorg", async function () {
+    const signers = await ethers.getSigners();
+    const create = (title: string) =>
+      hre.run("safepoll:create", { title, desc: "", questions: "Pick one", options: "Pizza,Sushi" });
+    const voters = (id: number) => indexer!.getVotes(id).map((v) => v.voter);
+
+    await create("Lunch");
+    await indexer!.sync();
+    const snapshot = await network.provider.send("evm_snapshot");
+
+    await hre.run("safepoll:vote", { id: "1", choices: "0", account: "1" });
+    await create("Dinner");
+    await indexer!.sync();
+    expect(indexer!.listSurveys({ creator: null, voter: null }, 20, 0).total).to.eq(2);
+    expect(voters(1)).to.deep.eq([signers[1].address]);
+
+    // the vote and the second survey are replaced by another vote at the same heights
+    await network.provider.send("evm_revert", [snapshot]);
+    await hre.run("safepoll:vote", { id: "1", choices: "1", account: "2" });
+    await indexer!.sync();
+
+    const { total, surveys } = indexer!.listSurveys({ creator: null, voter: null }, 20, 0);
+    expect(total).to.eq(1);
+    expect(surveys).to.have.length(1);
+    expect(indexer!.getSurvey(2)).to.eq(undefined);
+    expect(voters(1)).to.deep.eq([signers[2].address]);
+    expect(indexer!.listSurveys({ creator: null, voter: signers[1].address }, 20, 0).total).to.eq(0);
+  });
+});
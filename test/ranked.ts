@@ -0,0 +1,155 @@
+import { expect } from "chai";
+import {
+  bordaScores,
+  bordaWinner,
+  condorcetWinner,
+  eliminationRounds,
+  factorial,
+  indexToRanking,
+  pairwiseMatrix,
+  rankingToIndex,
+} from "../sdk/ranked";
+
+// The pair counters SafePoll keeps for these ballots (ranking, best first, and how many cast it), row by row
+function pairCounts(ballots: [number[], number][], n: number): number[] {
+  const counts: number[] = [];
+  for (let a = 0; a < n; a++) {
+    for (let b = 0; b < n; b++) {
+      if (a === b) continue;
+      const above = ballots.filter(([ranking]) => ranking.indexOf(a) < ranking.indexOf(b));
+      counts.push(above.reduce((sum, [, count]) => sum + count, 0));
+    }
+  }
+  return counts;
+}
+
+describe("ranked ballots", function () {
+  it("encodes every ranking as a distinct Lehmer code and back", function () {
+    expect(rankingToIndex([0, 1, 2])).to.eq(0);
+    expect(rankingToIndex([2, 0, 1])).to.eq(4);
+    expect(indexToRanking(4, 3)).to.deep.eq([2, 0, 1]);
+    for (const n of [2, 3, 4]) {
+      const codes = Array.from({ length: factorial(n) }, (_, i) => rankingToIndex(indexToRanking(i, n), n));
+      expect(codes).to.deep.eq(Array.from({ length: factorial(n) }, (_, i) => i));
+    }
+  });
+
+  it("rejects partial, repeated and out-of-range rankings", function () {
+    expect(() => rankingToIndex([0, 0, 1])).to.throw("exactly once");
+    expect(() => rankingToIndex([0, 1], 3)).to.throw("exactly once");
+    expect(() => rankingToIndex([0, 1, 3])).to.throw("exactly once");
+    expect(() => indexToRanking(6, 3)).to.throw("not a ranking");
+    expect(() => indexToRanking(-1, 3)).to.throw("not a ranking");
+  });
+
+  it("lays the pair counters out row by row, skipping the diagonal", function () {
+    expect(pairwiseMatrix([5, 1, 2, 3, 4, 0], 3)).to.deep.eq([
+      [0, 5, 1],
+      [2, 0, 3],
+      [4, 0, 0],
+    ]);
+    expect(() => pairwiseMatrix([1, 2, 3], 3)).to.throw("pairs of 3 options");
+  });
+
+  it("finds the option that wins every head-to-head", function () {
+    // B is the favourite of only 2 of 7 voters, but beats A (4-3) and C (5-2)
+    const matrix = pairwiseMatrix(
+      pairCounts(
+        [
+          [[0, 1, 2], 3],
+          [[2, 1, 0], 2],
+          [[1, 0, 2], 2],
+        ],
+        3,
+      ),
+      3,
+    );
+    expect(condorcetWinner(matrix)).to.eq(1);
+    // 2 points per first place and 1 per second: A 8, B 9, C 4
+    expect(bordaScores(matrix)).to.deep.eq([8, 9, 4]);
+    expect(bordaWinner(matrix)).to.eq(1);
+    // C goes first; between A and B alone, B leads 4-3
+    expect(eliminationRounds(matrix)).to.deep.eq({
+      rounds: [
+        { standing: [0, 1, 2], points: [8, 9, 4], eliminated: [2] },
+        { standing: [0, 1], points: [3, 4], eliminated: [0] },
+      ],
+      winner: 1,
+    });
+  });
+
+  it("eliminates every option tied for fewest points in the same round", function () {
+    const matrix = pairwiseMatrix(
+      pairCounts(
+        [
+          [[0, 1, 2], 2],
+          [[0, 2, 1], 2],
+        ],
+        3,
+      ),
+      3,
+    );
+    expect(eliminationRounds(matrix)).to.deep.eq({
+      rounds: [{ standing: [0, 1, 2], points: [8, 2, 2], eliminated: [1, 2] }],
+      winner: 0,
+    });
+  });
+
+  it("has no Condorcet winner when the preferences cycle", function () {
+    // A beats B, B beats C and C beats A, each 2-1; every option has 3 Borda points
+    const matrix = pairwiseMatrix(
+      pairCounts(
+        [
+          [[0, 1, 2], 1],
+          [[1, 2, 0], 1],
+          [[2, 0, 1], 1],
+        ],
+        3,
+      ),
+      3,
+    );
+    expect(condorcetWinner(matrix)).to.eq(undefined);
+    expect(bordaScores(matrix)).to.deep.eq([3, 3, 3]);
+    expect(bordaWinner(matrix)).to.eq(undefined);
+    // all three are tied for last, so the first round eliminates them all
+    expect(eliminationRounds(matrix).winner).to.eq(undefined);
+    expect(eliminationRounds(matrix).rounds).to.have.length(1);
+  });
+
+  it("leaves tied head-to-heads and Borda counts undecided", function () {
+    const matrix = pairwiseMatrix(
+      pairCounts(
+        [
+          [[0, 1], 2],
+          [[1, 0], 2],
+        ],
+        2,
+      ),
+      2,
+    );
+    expect(condorcetWinner(matrix)).to.eq(undefined);
+    expect(bordaWinner(matrix)).to.eq(undefined);
+  });
+
+  it("decides nothing that depends on a suppressed pair count", function () {
+    const counts: (number | null)[] = pairCounts([[[0, 1, 2], 5]], 3);
+    expect(condorcetWinner(pairwiseMatrix(counts, 3))).to.eq(0);
+    // hiding A over C leaves A's win over C unknown, and A's points with it; B's points are still known
+    counts[1] = null;
+    const matrix = pairwiseMatrix(counts, 3);
+    expect(condorcetWinner(matrix)).to.eq(undefined);
+    expect(bordaScores(matrix)).to.deep.eq([null, 5, 0]);
+    expect(bordaWinner(matrix)).to.eq(undefined);
+    expect(eliminationRounds(matrix)).to.deep.eq({
+      rounds: [{ standing: [0, 1, 2], points: [null, 5, 0], eliminated: [] }],
+      winner: undefined,
+    });
+  });
+
+  it("counts no ballots as no winner", function () {
+    const matrix = pairwiseMatrix(pairCounts([], 3), 3);
+    expect(condorcetWinner(matrix)).to.eq(undefined);
+    expect(bordaWinner(matrix)).to.eq(undefined);
+    expect(eliminationRounds(matrix).winner).to.eq(undefined);
+  });
+});
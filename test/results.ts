@@ -0,0 +1,167 @@
+import { expect } from "chai";
+import { Wallet } from "ethers";
+import * as fs from "fs";
+import hre, { deployments, ethers, fhevm } from "hardhat";
+import * as os from "os";
+import * as path from "path";
+import {
+  canonicalJson,
+  recoverReportSigner,
+  reportDigest,
+  RESULTS_FORMAT_VERSION,
+  signReport,
+  type DecryptionTransactions,
+  type ResultsReport,
+  type SurveyResults,
+} from "../sdk/results";
+
+const RESULTS: SurveyResults = {
+  format: "safepoll-results",
+  version: RESULTS_FORMAT_VERSION,
+  chainId: 31337,
+  contract: "0x5FbDB2315678afecb367f032d93F642f64180aa3",
+  survey: {
+    id: 1,
+    title: "Lunch",
+    description: "Where to?",
+    creator: "0x70997970C51812dc3A010C7d01b50e0d17dc79C8",
+    createdAt: 1700000000,
+    startTime: 0,
+    endTime: 0,
+    status: "Closed",
+  },
+  turnout: { votes: 3, minTurnout: 0, kAnonymity: 0, epsilon: 0 },
+  questions: [
+    {
+      index: 0,
+      text: "Pick one",
+      type: "single",
+      options: [
+        { option: "Pizza", count: 2, percent: 66.67 },
+        { option: "Sushi", count: 1, percent: 33.33 },
+      ],
+      invalid: 0,
+    },
+  ],
+};
+
+const TXS: DecryptionTransactions = {
+  decryption: { requestId: "1", requestTx: "0x01", requestBlock: 5, callbackTx: "0x02", callbackBlock: 6 },
+  transactions: { created: "0x03", ended: "0x04" },
+};
+
+describe("results reports", function () {
+  it("recovers the signer of a signed report", async function () {
+    const signer = Wallet.createRandom();
+    const report = await signReport(RESULTS, TXS, signer);
+    expect(report.signer).to.eq(signer.address);
+    expect(await recoverReportSigner(report)).to.eq(signer.address);
+    // and after a round trip through a file
+    expect(await recoverReportSigner(JSON.parse(JSON.stringify(report)) as ResultsReport)).to.eq(signer.address);
+  });
+
+  it("recovers a different signer from a report changed after signing", async function () {
+    const signer = Wallet.createRandom();
+    const report = await signReport(RESULTS, TXS, signer);
+    const tampered = structuredClone(report);
+    tampered.results.questions[0].options![1].count = 2;
+    expect(await recoverReportSigner(tampered)).to.not.eq(signer.address);
+    expect(await recoverReportSigner({ ...report, generatedAt: new Date(0).toISOString() })).to.not.eq(signer.address);
+  });
+
+  it("hashes the same report the same however its keys are ordered", async function () {
+    const { signature, ...unsigned } = await signReport(RESULTS, TXS, Wallet.createRandom());
+    const reversed = (value: unknown): unknown =>
+      Array.isArray(value)
+        ? value.map(reversed)
+        : value !== null && typeof value === "object"
+          ? Object.fromEntries(
+              Object.entries(value)
+                .reverse()
+                .map(([k, v]) => [k, reversed(v)]),
+            )
+          : value;
+    const reordered = reversed(unsigned) as typeof unsigned;
+    expect(JSON.stringify(reordered)).to.not.eq(JSON.stringify(unsigned));
+    expect(canonicalJson(reordered)).to.eq(canonicalJson(unsigned));
+    expect(reportDigest(reordered)).to.eq(reportDigest(unsigned));
+    expect(await recoverReportSigner({ ...reordered, signature })).to.eq(unsigned.signer);
+  });
+
+  it("leaves undefined fields out and keeps array order", function () {
+    expect(canonicalJson({ b: [3, 1, 2], a: undefined, c: { y: null, x: "1" } })).to.eq(
+      '{"b":[3,1,2],"c":{"x":"1","y":null}}',
+    );
+  });
+
+  describe("safepoll:verify-report", function () {
+    let dir: string;
+
+    // one decrypted survey for the whole block: the FHEVM mock's oracle does not decrypt again after a fixture reset
+    before(async function () {
+      if (!fhevm.isMock) {
+        console.warn("This test suite runs only against the local FHEVM mock");
+        this.skip();
+      }
+      await deployments.fixture(["SafePoll"]);
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), "safepoll-report-"));
+
+      await hre.run("safepoll:create", {
+        title: "Lunch",
+        desc: "Where to?",
+        questions: "Pick one",
+        options: "Pizza,Sushi",
+      });
+      for (const [account, choices] of [
+        ["0", "0"],
+        ["1", "0"],
+        ["2", "1"],
+      ]) {
+        await hre.run("safepoll:vote", { id: "1", choices, account });
+      }
+      await hre.run("safepoll:end", { id: "1" });
+      await hre.run("safepoll:request-decrypt", { id: "1" });
+      await fhevm.awaitDecryptionOracle();
+    });
+
+    after(function () {
+      if (dir) fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("accepts a report that matches the chain and rejects one whose results were changed", async function () {
+      const file = path.join(dir, "report.json");
+      await hre.run("safepoll:results", { id: "1", format: "report", out: file });
+      const report = JSON.parse(fs.readFileSync(file, "utf8")) as ResultsReport;
+      expect(report.signer).to.eq((await ethers.getSigners())[0].address);
+      expect(report.results.questions[0].options?.map((o) => o.count)).to.deep.eq([2, 1]);
+      await hre.run("safepoll:verify-report", { file });
+
+      report.results.questions[0].options![1].count = 2;
+      fs.writeFileSync(file, JSON.stringify(report));
+      await expect(hre.run("safepoll:verify-report", { file })).to.be.rejectedWith("does not match the chain");
+    });
+
+    it("still verifies a report after the survey changed owner", async function () {
+      const [owner, next] = await ethers.getSigners();
+      const before = path.join(dir, "before.json");
+      await hre.run("safepoll:results", { id: "1", format: "report", out: before });
+
+      await hre.run("safepoll:admins:transfer", { id: "1", to: next.address });
+      await hre.run("safepoll:admins:accept", { id: "1", account: "1" });
+      await hre.run("safepoll:verify-report", { file: before });
+
+      // a report written now still names the owner the results were decrypted under
+      const after = path.join(dir, "after.json");
+      await hre.run("safepoll:results", { id: "1", format: "report", out: after });
+      const report = JSON.parse(fs.readFileSync(after, "utf8")) as ResultsReport;
+      expect(report.results.survey.creator).to.eq(owner.address);
+      await hre.run("safepoll:verify-report", { file: after });
+
+      // and claiming the new owner decrypted them does not verify
+      report.results.survey.creator = next.address;
+      const { decryption, transactions } = report;
+      fs.writeFileSync(after, JSON.stringify(await signReport(report.results, { decryption, transactions }, owner)));
+      await expect(hre.run("safepoll:verify-report", { file: after })).to.be.rejectedWith("does not match the chain");
+    });
+  });
+});
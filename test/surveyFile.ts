@@ -0,0 +1,87 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import hre, { deployments, fhevm } from "hardhat";
+import * as os from "os";
+import * as path from "path";
+import { formatSurveyDefinition, parseSurveyDefinition, type SurveyDefinition } from "../sdk/surveyFile";
+
+// every setting an export can write back (weighting aside, which needs a votes token)
+const SURVEY: SurveyDefinition = {
+  version: 1,
+  title: "Team offsite",
+  description: "Plans for next year",
+  start: "2030-01-01T09:00:00.000Z",
+  end: "2030-01-08T09:00:00.000Z",
+  eligibility: "merkle",
+  merkleRoot: `0x${"ab".repeat(32)}`,
+  revotable: true,
+  reviewers: ["0x70997970C51812dc3A010C7d01b50e0d17dc79C8"],
+  privacy: { minTurnout: 3, kAnonymity: 2, epsilon: 3 },
+  questions: [
+    { text: "Where should we go?", type: "single", options: ["Lisbon, Portugal", "Berlin; or nearby"] },
+    {
+      text: "Which activities?",
+      type: "multi",
+      options: ["Hiking", "Sailing", "Museums"],
+      minSelections: 1,
+      maxSelections: 2,
+    },
+    { text: "How was last year's?", type: "numeric", min: 1, max: 5 },
+    { text: "Rank the dates", type: "ranked", options: ["May", "June", "July"] },
+  ],
+};
+
+describe("survey files", function () {
+  it("reads back what it writes, as JSON and as YAML", function () {
+    for (const format of ["json", "yaml"] as const) {
+      expect(parseSurveyDefinition(formatSurveyDefinition(SURVEY, format), `survey.${format}`)).to.deep.eq(SURVEY);
+    }
+  });
+
+  it("rejects a file that does not match the schema, naming every problem", function () {
+    const invalid = (def: object) => () => parseSurveyDefinition(JSON.stringify(def), "survey.json");
+    const { title: _, ...untitled } = SURVEY;
+    expect(invalid(untitled)).to.throw("survey.json is not a valid survey definition");
+    expect(invalid(untitled)).to.throw("must have required property 'title'");
+    expect(invalid({ ...SURVEY, version: 2 })).to.throw("/version must be equal to constant");
+    expect(invalid({ ...SURVEY, colour: "red" })).to.throw("/ has an unknown field 'colour'");
+    expect(invalid({ ...SURVEY, questions: [] })).to.throw("/questions must NOT have fewer than 1 items");
+    const twoProblems = invalid({ ...SURVEY, reviewers: ["0x1234"], privacy: { epsilon: 0.1 } });
+    expect(twoProblems).to.throw("/reviewers/0 must match pattern");
+    expect(twoProblems).to.throw("/privacy/epsilon");
+  });
+
+  it("rejects a file that is not JSON or YAML", function () {
+    expect(() => parseSurveyDefinition("title: [unclosed", "survey.yaml")).to.throw(/^survey\.yaml: /);
+  });
+
+  describe("safepoll:create --file and safepoll:export", function () {
+    let dir: string;
+
+    beforeEach(async function () {
+      if (!fhevm.isMock) {
+        console.warn("This test suite runs only against the local FHEVM mock");
+        this.skip();
+      }
+      await deployments.fixture(["SafePoll"]);
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), "safepoll-survey-"));
+    });
+
+    afterEach(function () {
+      if (dir) fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("exports a survey created from a file as that file", async function () {
+      const file = path.join(dir, "survey.yaml");
+      fs.writeFileSync(file, formatSurveyDefinition(SURVEY, "yaml"));
+      await hre.run("safepoll:create", { file });
+
+      const out = path.join(dir, "export.json");
+      await hre.run("safepoll:export", { id: "1", out });
+      const exported = parseSurveyDefinition(fs.readFileSync(out, "utf8"), out);
+      // single is the default type, so the export leaves it out
+      const { type: _, ...single } = SURVEY.questions[0];
+      expect(exported).to.deep.eq({ ...SURVEY, questions: [single, ...SURVEY.questions.slice(1)] });
+    });
+  });
+});